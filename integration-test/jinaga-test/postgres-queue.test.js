@@ -0,0 +1,95 @@
+const { Pool } = require('pg');
+const { PostgresQueue } = require('jinaga-server');
+
+const host = "db";
+const connectionString = `postgresql://dev:devpw@${host}:5432/integrationtest`;
+
+const pool = new Pool({
+    connectionString
+});
+
+function envelope(hash, predecessors = {}, signatures = []) {
+    return {
+        fact: {
+            type: 'QueueTest.Item',
+            hash,
+            fields: { identifier: hash },
+            predecessors
+        },
+        signatures
+    };
+}
+
+describe('PostgresQueue', () => {
+    let queue;
+
+    beforeAll(async () => {
+        queue = new PostgresQueue(pool, 'public');
+    });
+
+    afterEach(async () => {
+        await queue.dequeue(await queue.peek());
+    });
+
+    afterAll(async () => {
+        await pool.end();
+    });
+
+    it('should return an empty queue', async () => {
+        const envelopes = await queue.peek();
+
+        expect(envelopes).toEqual([]);
+    });
+
+    it('should return envelopes in the order they were enqueued', async () => {
+        const first = envelope('queue-order-1');
+        const second = envelope('queue-order-2', {
+            prior: { type: 'QueueTest.Item', hash: 'queue-order-1' }
+        });
+        await queue.enqueue([first]);
+        await queue.enqueue([second]);
+
+        const envelopes = await queue.peek();
+
+        expect(envelopes).toEqual([first, second]);
+    });
+
+    it('should persist signatures', async () => {
+        const signed = envelope('queue-signed', {}, [
+            { publicKey: 'public-key-1', signature: 'signature-1' }
+        ]);
+        await queue.enqueue([signed]);
+
+        const envelopes = await queue.peek();
+
+        expect(envelopes).toEqual([signed]);
+    });
+
+    it('should merge signatures when a fact is enqueued again', async () => {
+        await queue.enqueue([envelope('queue-merge', {}, [
+            { publicKey: 'public-key-1', signature: 'signature-1' }
+        ])]);
+        await queue.enqueue([envelope('queue-merge', {}, [
+            { publicKey: 'public-key-2', signature: 'signature-2' }
+        ])]);
+
+        const envelopes = await queue.peek();
+
+        expect(envelopes.length).toBe(1);
+        expect(envelopes[0].signatures).toEqual(expect.arrayContaining([
+            { publicKey: 'public-key-1', signature: 'signature-1' },
+            { publicKey: 'public-key-2', signature: 'signature-2' }
+        ]));
+    });
+
+    it('should remove only the dequeued envelopes', async () => {
+        const first = envelope('queue-dequeue-1');
+        const second = envelope('queue-dequeue-2');
+        await queue.enqueue([first, second]);
+
+        await queue.dequeue([first]);
+        const envelopes = await queue.peek();
+
+        expect(envelopes).toEqual([second]);
+    });
+});
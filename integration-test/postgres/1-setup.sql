@@ -208,7 +208,7 @@ IF (SELECT to_regclass('public.user') IS NULL) THEN
     CREATE TABLE public."user" (
         provider character varying(100),
         user_identifier character varying(50),
-        private_key character varying(1800),
+        private_key character varying(4000),
         public_key character varying(500)
     );
 
@@ -235,5 +235,155 @@ IF (SELECT to_regclass('public.bookmark') IS NULL) THEN
 
 END IF;
 
+--
+-- Queue
+--
+
+IF (SELECT to_regclass('public.queue') IS NULL) THEN
+
+    CREATE TABLE public.queue (
+        queue_id bigserial PRIMARY KEY,
+        upstream character varying(500) NOT NULL DEFAULT '',
+        fact_type character varying(200) NOT NULL,
+        hash character varying(100) NOT NULL,
+        envelope jsonb NOT NULL,
+        date_enqueued timestamp NOT NULL
+            DEFAULT (now() at time zone 'utc')
+    );
+
+    ALTER TABLE public.queue OWNER TO postgres;
+
+    CREATE UNIQUE INDEX ux_queue ON public.queue USING btree (upstream, hash, fact_type);
+
+END IF;
+
+--
+-- Feed definition
+--
+
+IF (SELECT to_regclass('public.feed_definition') IS NULL) THEN
+
+    CREATE TABLE public.feed_definition (
+        hash character varying(100) PRIMARY KEY,
+        specification jsonb NOT NULL,
+        named_start jsonb NOT NULL,
+        intersected boolean NOT NULL DEFAULT false,
+        owner character varying(500),
+        expires_at timestamp with time zone NOT NULL
+    );
+
+    ALTER TABLE public.feed_definition OWNER TO postgres;
+
+    CREATE INDEX ix_feed_definition_expires_at ON public.feed_definition USING btree (expires_at);
+
+END IF;
+
+IF (SELECT to_regclass('public.distributed_fact') IS NULL) THEN
+
+    CREATE TABLE public.distributed_fact (
+        fact_type character varying(200) NOT NULL,
+        hash character varying(100) NOT NULL,
+        user_key character varying(500) NOT NULL,
+        distributed_at timestamp with time zone NOT NULL
+    );
+
+    ALTER TABLE public.distributed_fact OWNER TO postgres;
+
+    CREATE UNIQUE INDEX ux_distributed_fact ON public.distributed_fact USING btree (fact_type, hash, user_key);
+
+    CREATE INDEX ix_distributed_fact_distributed_at ON public.distributed_fact USING btree (distributed_at);
+
+END IF;
+
+--
+-- Archive of purged facts
+--
+-- In archive mode, a purge moves the fact, edge, ancestor and signature rows
+-- here instead of deleting them. Each row remembers the purge root it was
+-- purged under, so that the subgraph can be restored, and the time it was
+-- archived, so that it can be expired.
+--
+
+IF (SELECT to_regclass('public.fact_archive') IS NULL) THEN
+
+    CREATE TABLE public.fact_archive (
+        fact_id integer PRIMARY KEY,
+        fact_type_id integer NOT NULL,
+        hash character varying(100),
+        data jsonb,
+        date_learned timestamp NOT NULL,
+        purge_root_fact_id integer NOT NULL,
+        archived_at timestamp with time zone NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE public.edge_archive (
+        role_id integer NOT NULL,
+        successor_fact_id integer NOT NULL,
+        predecessor_fact_id integer NOT NULL,
+        purge_root_fact_id integer NOT NULL,
+        archived_at timestamp with time zone NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE public.ancestor_archive (
+        fact_id integer NOT NULL,
+        ancestor_fact_id integer NOT NULL,
+        purge_root_fact_id integer NOT NULL,
+        archived_at timestamp with time zone NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE public.signature_archive (
+        fact_id integer NOT NULL,
+        public_key_id integer NOT NULL,
+        signature character varying(400),
+        date_learned timestamp NOT NULL,
+        purge_root_fact_id integer NOT NULL,
+        archived_at timestamp with time zone NOT NULL DEFAULT now()
+    );
+
+    ALTER TABLE public.fact_archive OWNER TO postgres;
+    ALTER TABLE public.edge_archive OWNER TO postgres;
+    ALTER TABLE public.ancestor_archive OWNER TO postgres;
+    ALTER TABLE public.signature_archive OWNER TO postgres;
+
+    CREATE INDEX ix_fact_archive_purge_root ON public.fact_archive USING btree (purge_root_fact_id);
+    CREATE INDEX ix_fact_archive_archived_at ON public.fact_archive USING btree (archived_at);
+    CREATE INDEX ix_edge_archive_purge_root ON public.edge_archive USING btree (purge_root_fact_id);
+    CREATE INDEX ix_edge_archive_archived_at ON public.edge_archive USING btree (archived_at);
+    CREATE INDEX ix_ancestor_archive_purge_root ON public.ancestor_archive USING btree (purge_root_fact_id);
+    CREATE INDEX ix_ancestor_archive_archived_at ON public.ancestor_archive USING btree (archived_at);
+    CREATE INDEX ix_signature_archive_purge_root ON public.signature_archive USING btree (purge_root_fact_id);
+    CREATE INDEX ix_signature_archive_archived_at ON public.signature_archive USING btree (archived_at);
+
+END IF;
+
+--
+-- Schema version
+--
+-- Record the migrations in src/postgres/migrations.ts that this script
+-- applies, so that the server accepts the database without migrating it.
+-- Raise these versions when adding a migration.
+--
+
+IF (SELECT to_regclass('public.schema_version') IS NULL) THEN
+
+    CREATE TABLE public.schema_version (
+        component character varying(50) NOT NULL,
+        version integer NOT NULL,
+        description character varying(200) NOT NULL,
+        applied_at timestamp with time zone NOT NULL DEFAULT now(),
+        PRIMARY KEY (component, version)
+    );
+
+    ALTER TABLE public.schema_version OWNER TO postgres;
+
+END IF;
+
+INSERT INTO public.schema_version
+    (component, version, description)
+SELECT 'store', v, 'Applied by setup.sql' FROM generate_series(1, 5) AS v
+UNION ALL
+SELECT 'keystore', v, 'Applied by setup.sql' FROM generate_series(1, 2) AS v
+ON CONFLICT DO NOTHING;
+
 END
 $do$
@@ -13,6 +13,15 @@ psql -v ON_ERROR_STOP=1 --username "$POSTGRES_USER" --dbname "$APP_DATABASE" <<-
     GRANT SELECT,INSERT ON TABLE public.public_key TO $APP_USERNAME;
     GRANT SELECT, USAGE ON SEQUENCE public_key_public_key_id_seq TO $APP_USERNAME;
     GRANT SELECT,INSERT,DELETE ON TABLE public.signature TO $APP_USERNAME;
-    GRANT SELECT,INSERT ON TABLE public.user TO $APP_USERNAME;
+    GRANT SELECT,INSERT,UPDATE ON TABLE public.user TO $APP_USERNAME;
     GRANT SELECT,INSERT,UPDATE,DELETE ON TABLE public.bookmark TO $APP_USERNAME;
+    GRANT SELECT,INSERT,UPDATE,DELETE ON TABLE public.queue TO $APP_USERNAME;
+    GRANT SELECT, USAGE ON SEQUENCE queue_queue_id_seq TO $APP_USERNAME;
+    GRANT SELECT,INSERT,UPDATE,DELETE ON TABLE public.feed_definition TO $APP_USERNAME;
+    GRANT SELECT,INSERT,UPDATE,DELETE ON TABLE public.distributed_fact TO $APP_USERNAME;
+    GRANT SELECT,INSERT,DELETE ON TABLE public.fact_archive TO $APP_USERNAME;
+    GRANT SELECT,INSERT,DELETE ON TABLE public.edge_archive TO $APP_USERNAME;
+    GRANT SELECT,INSERT,DELETE ON TABLE public.ancestor_archive TO $APP_USERNAME;
+    GRANT SELECT,INSERT,DELETE ON TABLE public.signature_archive TO $APP_USERNAME;
+    GRANT SELECT ON TABLE public.schema_version TO $APP_USERNAME;
 EOSQL
\ No newline at end of file
@@ -30,6 +30,15 @@ psql -v ON_ERROR_STOP=1 $JINAGA_ADMIN_CONNECTION_STRING <<-EOSQL
     GRANT SELECT,INSERT ON TABLE public.public_key TO $JINAGA_POSTGRES_APP_USER;
     GRANT SELECT, USAGE ON SEQUENCE public_key_public_key_id_seq TO $JINAGA_POSTGRES_APP_USER;
     GRANT SELECT,INSERT,DELETE ON TABLE public.signature TO $JINAGA_POSTGRES_APP_USER;
-    GRANT SELECT,INSERT ON TABLE public.user TO $JINAGA_POSTGRES_APP_USER;
+    GRANT SELECT,INSERT,UPDATE ON TABLE public.user TO $JINAGA_POSTGRES_APP_USER;
     GRANT SELECT,INSERT,UPDATE,DELETE ON TABLE public.bookmark TO $JINAGA_POSTGRES_APP_USER;
+    GRANT SELECT,INSERT,UPDATE,DELETE ON TABLE public.queue TO $JINAGA_POSTGRES_APP_USER;
+    GRANT SELECT, USAGE ON SEQUENCE queue_queue_id_seq TO $JINAGA_POSTGRES_APP_USER;
+    GRANT SELECT,INSERT,UPDATE,DELETE ON TABLE public.feed_definition TO $JINAGA_POSTGRES_APP_USER;
+    GRANT SELECT,INSERT,UPDATE,DELETE ON TABLE public.distributed_fact TO $JINAGA_POSTGRES_APP_USER;
+    GRANT SELECT,INSERT,DELETE ON TABLE public.fact_archive TO $JINAGA_POSTGRES_APP_USER;
+    GRANT SELECT,INSERT,DELETE ON TABLE public.edge_archive TO $JINAGA_POSTGRES_APP_USER;
+    GRANT SELECT,INSERT,DELETE ON TABLE public.ancestor_archive TO $JINAGA_POSTGRES_APP_USER;
+    GRANT SELECT,INSERT,DELETE ON TABLE public.signature_archive TO $JINAGA_POSTGRES_APP_USER;
+    GRANT SELECT ON TABLE public.schema_version TO $JINAGA_POSTGRES_APP_USER;
 EOSQL
@@ -8,8 +8,11 @@ import {
     FactEnvelope,
     FactFeed,
     FactManager,
+    FactRecord,
     FactReference,
     Forbidden,
+    Invalid,
+    ProjectedResult,
     ReferencesByName,
     Specification,
     Storage,
@@ -52,18 +55,48 @@ export interface SubscriptionAuthorizer {
         userIdentity: UserIdentity | null,
         specification: Specification,
         start: FactReference[],
-        bookmark: string
+        bookmark: string,
+        page?: FeedPage
     ): Promise<FactFeed>;
     feedWithDistribution(
         userIdentity: UserIdentity | null,
         specification: Specification,
         start: FactReference[],
-        bookmark: string
+        bookmark: string,
+        page?: FeedPage
     ): Promise<FeedResult>;
+    /**
+     * Like read, but yields results as the store produces them. Distribution
+     * is checked before the promise resolves, so a denial surfaces before
+     * any result is sent. With asOf, the results are those of the graph as
+     * it stood at that instant; distribution is still checked against the
+     * current graph.
+     */
+    readStream(
+        userIdentity: UserIdentity | null,
+        start: FactReference[],
+        specification: Specification,
+        asOf?: Date
+    ): Promise<AsyncIterable<ProjectedResult>>;
 }
 
 import { Keystore } from "../keystore";
-import { DistributedFactCache } from "./distributed-fact-cache";
+import { feedPage, FeedPage } from "../paged-feed-storage";
+import { readStream } from "../streaming-storage";
+import { storeAsOf } from "../time-travel-storage";
+import { DistributedFactCache, DistributedFactRegistry, MemoryDistributedFactCache, toDistributedFactRegistry } from "./distributed-fact-cache";
+import { findRevokedKeys, identityFact, IdentityType, keyRevocationFact, keyRotationFact } from "./key-revocation";
+
+/**
+ * Refuse a specification that could read facts a purge condition removes.
+ * FactManager.read makes the same check; a streamed read bypasses it.
+ */
+export function refuseNoncompliantSpecification(factManager: FactManager, specification: Specification) {
+    const failures = factManager.testSpecificationForCompliance(specification);
+    if (failures.length > 0) {
+        throw new Invalid(failures.join("\n"));
+    }
+}
 
 function factKey(reference: FactReference): string {
     return `${reference.type}:${reference.hash}`;
@@ -72,15 +105,18 @@ function factKey(reference: FactReference): string {
 export class AuthorizationKeystore implements Authorization, SubscriptionAuthorizer {
     private authorizationEngine: AuthorizationEngine | null;
     private distributionEngine: DistributionEngine | null;
-    private distributedFacts: DistributedFactCache = new DistributedFactCache();
+    private distributedFacts: DistributedFactRegistry;
 
     constructor(
         private factManager: FactManager,
         private store: Storage,
         private keystore: Keystore,
         authorizationRules: AuthorizationRules | null,
-        distributionRules: DistributionRules | null
+        distributionRules: DistributionRules | null,
+        distributedFacts: DistributedFactRegistry | DistributedFactCache = new MemoryDistributedFactCache(),
+        private serverIdentity: UserIdentity | null = null
     ) {
+        this.distributedFacts = toDistributedFactRegistry(distributedFacts);
         this.authorizationEngine = authorizationRules &&
             new AuthorizationEngine(authorizationRules, store);
         this.distributionEngine = distributionRules &&
@@ -100,6 +136,18 @@ export class AuthorizationKeystore implements Authorization, SubscriptionAuthori
     }
 
     async read(userIdentity: UserIdentity | null, start: FactReference[], specification: Specification) {
+        await this.verifyRead(userIdentity, start, specification);
+        return await this.factManager.read(start, specification);
+    }
+
+    async readStream(userIdentity: UserIdentity | null, start: FactReference[], specification: Specification, asOf?: Date): Promise<AsyncIterable<ProjectedResult>> {
+        refuseNoncompliantSpecification(this.factManager, specification);
+        const store = asOf ? storeAsOf(this.store, asOf) : this.store;
+        await this.verifyRead(userIdentity, start, specification);
+        return readStream(store, start, specification);
+    }
+
+    private async verifyRead(userIdentity: UserIdentity | null, start: FactReference[], specification: Specification) {
         if (this.distributionEngine) {
             const userReference: FactReference | null = userIdentity
                 ? await this.keystore.getUserFact(userIdentity)
@@ -115,7 +163,6 @@ export class AuthorizationKeystore implements Authorization, SubscriptionAuthori
                 throw new Forbidden(canDistribute.reason);
             }
         }
-        return await this.factManager.read(start, specification);
     }
 
     async feed(userIdentity: UserIdentity | null, specification: Specification, start: FactReference[], bookmark: string): Promise<FactFeed> {
@@ -126,7 +173,7 @@ export class AuthorizationKeystore implements Authorization, SubscriptionAuthori
         return result.feed;
     }
 
-    async feedWithDistribution(userIdentity: UserIdentity | null, specification: Specification, start: FactReference[], bookmark: string): Promise<FeedResult> {
+    async feedWithDistribution(userIdentity: UserIdentity | null, specification: Specification, start: FactReference[], bookmark: string, page: FeedPage = {}): Promise<FeedResult> {
         if (this.distributionEngine) {
             const userReference: FactReference | null = userIdentity
                 ? await this.keystore.getUserFact(userIdentity)
@@ -139,23 +186,23 @@ export class AuthorizationKeystore implements Authorization, SubscriptionAuthori
             if (canDistribute.type === "failure") {
                 return { type: "denied", reason: canDistribute.reason };
             }
-            const factFeed = await this.store.feed(specification, start, bookmark);
+            const factFeed = await feedPage(this.store, specification, start, bookmark, page);
             const factReferences = factFeed.tuples
                 .flatMap(tuple => tuple.facts)
                 .filter((value, index, self) => self.findIndex(factReferenceEquals(value)) === index);
-            this.distributedFacts.add(factReferences, userReference);
+            await this.distributedFacts.add(factReferences, userReference);
             return { type: "success", feed: factFeed };
         }
-        return { type: "success", feed: await this.store.feed(specification, start, bookmark) };
+        return { type: "success", feed: await feedPage(this.store, specification, start, bookmark, page) };
     }
 
-    async feedPreVerified(userIdentity: UserIdentity | null, specification: Specification, start: FactReference[], bookmark: string): Promise<FactFeed> {
+    async feedPreVerified(userIdentity: UserIdentity | null, specification: Specification, start: FactReference[], bookmark: string, page: FeedPage = {}): Promise<FactFeed> {
         // Caller has already established that this feed is safe to serve
         // (e.g. produced by intersectForSubscribe — the spec lifts its own
         // authorization condition into the matches and therefore self-
         // filters). Skip the redundant per-query distribution check, but
         // keep tracking the returned references so /load stays consistent.
-        const factFeed = await this.store.feed(specification, start, bookmark);
+        const factFeed = await feedPage(this.store, specification, start, bookmark, page);
         if (this.distributionEngine) {
             const userReference: FactReference | null = userIdentity
                 ? await this.keystore.getUserFact(userIdentity)
@@ -163,7 +210,7 @@ export class AuthorizationKeystore implements Authorization, SubscriptionAuthori
             const factReferences = factFeed.tuples
                 .flatMap(tuple => tuple.facts)
                 .filter((value, index, self) => self.findIndex(factReferenceEquals(value)) === index);
-            this.distributedFacts.add(factReferences, userReference);
+            await this.distributedFacts.add(factReferences, userReference);
         }
         return factFeed;
     }
@@ -171,7 +218,7 @@ export class AuthorizationKeystore implements Authorization, SubscriptionAuthori
     async load(userIdentity: UserIdentity, references: FactReference[]) {
         if (this.distributionEngine) {
             const userFact = userIdentity ? await this.keystore.getUserFact(userIdentity) : null;
-            const canDistribute = this.distributedFacts.includesAll(references, userFact);
+            const canDistribute = await this.distributedFacts.includesAll(references, userFact);
             if (!canDistribute) {
                 throw new Forbidden("Unauthorized");
             }
@@ -180,6 +227,7 @@ export class AuthorizationKeystore implements Authorization, SubscriptionAuthori
     }
 
     async save(userIdentity: UserIdentity | null, envelopes: FactEnvelope[]): Promise<FactEnvelope[]> {
+        await this.refuseRevokedSignatures(envelopes);
         if (this.authorizationEngine) {
             const userFact = userIdentity ? await this.keystore.getUserFact(userIdentity) : null;
             const results = await this.authorizationEngine.authorizeFacts(envelopes, userFact);
@@ -229,6 +277,94 @@ export class AuthorizationKeystore implements Authorization, SubscriptionAuthori
         }
     }
 
+    /**
+     * Give a user a new key pair, and publish the new user fact with a
+     * Jinaga.User.Rotation from the previous one. Unless told otherwise,
+     * also publish a Jinaga.User.Revocation of the previous key, so that
+     * new facts signed with it are refused.
+     */
+    async rotateUserKey(userIdentity: UserIdentity, revokePrevious: boolean = true): Promise<FactEnvelope[]> {
+        return await this.rotateKey("Jinaga.User", userIdentity, revokePrevious);
+    }
+
+    /** Like rotateUserKey, for a device identity. */
+    async rotateDeviceKey(deviceIdentity: UserIdentity, revokePrevious: boolean = true): Promise<FactEnvelope[]> {
+        return await this.rotateKey("Jinaga.Device", deviceIdentity, revokePrevious);
+    }
+
+    /**
+     * Publish a revocation of the key of a user or device fact, such as one
+     * already rotated or one whose private key is held elsewhere. The
+     * revocation is signed with the server's device key, so the server
+     * identity must be configured.
+     */
+    async revokeKey(identity: FactRecord): Promise<FactEnvelope[]> {
+        if (!this.serverIdentity) {
+            throw new Error("Revoking a key requires the server identity, whose key signs the revocation.");
+        }
+        const revocation = keyRevocationFact(identity, new Date());
+        await this.keystore.getOrCreateDeviceFact(this.serverIdentity);
+        const signed = await this.keystore.signFacts(this.serverIdentity, [revocation]);
+        return await this.factManager.save([
+            { fact: identity, signatures: [] },
+            ...signed
+        ]);
+    }
+
+    private async rotateKey(type: IdentityType, identity: UserIdentity, revokePrevious: boolean): Promise<FactEnvelope[]> {
+        if (!this.keystore.rotateKeyPair) {
+            throw new Error("The keystore does not support key rotation. Implement rotateKeyPair to rotate keys.");
+        }
+        const previous = type === "Jinaga.User"
+            ? await this.keystore.getUserFact(identity)
+            : await this.keystore.getDeviceFact(identity);
+        const rotatedAt = new Date();
+        // The revocation is signed with the key it revokes, while the
+        // keystore still holds it.
+        const revocations = revokePrevious
+            ? await this.keystore.signFacts(identity, [keyRevocationFact(previous, rotatedAt)])
+            : [];
+        const { publicKey } = await this.keystore.rotateKeyPair(identity, previous.fields.publicKey);
+        const next = identityFact(type, publicKey);
+        // The rotation is signed with the new key.
+        const rotations = await this.keystore.signFacts(identity, [keyRotationFact(previous, next, rotatedAt)]);
+        return await this.factManager.save([
+            { fact: previous, signatures: [] },
+            { fact: next, signatures: [] },
+            ...rotations,
+            ...revocations
+        ]);
+    }
+
+    // The server's device key may revoke any key.
+    private async trustedKeys(): Promise<string[]> {
+        if (!this.serverIdentity) {
+            return [];
+        }
+        const deviceFact = await this.keystore.getOrCreateDeviceFact(this.serverIdentity);
+        return [deviceFact.fields.publicKey];
+    }
+
+    // Facts already in the store keep the signatures they were saved with.
+    private async refuseRevokedSignatures(envelopes: FactEnvelope[]) {
+        const signed = envelopes.filter(e => e.signatures.length > 0);
+        if (signed.length === 0) {
+            return;
+        }
+        const existing = await this.store.whichExist(signed.map(e => ({ type: e.fact.type, hash: e.fact.hash })));
+        const publicKeys = signed
+            .filter(e => !existing.some(factReferenceEquals(e.fact)))
+            .flatMap(e => e.signatures.map(s => s.publicKey))
+            .filter((value, index, self) => self.indexOf(value) === index);
+        if (publicKeys.length === 0) {
+            return;
+        }
+        const revoked = await findRevokedKeys(this.store, publicKeys, await this.trustedKeys());
+        if (revoked.length > 0) {
+            throw new Forbidden("Facts may not be signed with a revoked key.");
+        }
+    }
+
     async verifyDistribution(userIdentity: UserIdentity | null, feeds: Specification[], namedStart: ReferencesByName): Promise<void> {
         if (!this.distributionEngine) {
             return;
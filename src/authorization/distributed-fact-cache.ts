@@ -1,35 +1,159 @@
-import { FactReference, factReferenceEquals } from "jinaga";
+import { FactReference } from "jinaga";
+
+/**
+ * Remembers which facts have been distributed to which users through feeds,
+ * so that /load serves only facts the user could have learned of. A shared
+ * cache lets a client load from any node the facts it learned through a
+ * feed on another.
+ */
+export interface DistributedFactRegistry {
+  /**
+   * Record that facts were distributed to a user. A null user means they
+   * were distributed without authentication, and so to everyone.
+   */
+  add(factReferences: FactReference[], userReference: FactReference | null): Promise<void>;
+  /** Whether every one of the facts was distributed to the user within the window. */
+  includesAll(references: FactReference[], userFact: FactReference | null): Promise<boolean>;
+}
+
+export interface DistributedFactCacheConfig {
+  /** How long a distributed fact may be loaded, in milliseconds. */
+  windowMs: number;
+  /**
+   * The most fact references an in-memory cache holds. Beyond that, the
+   * oldest are forgotten before their window ends.
+   */
+  maxEntries: number;
+}
+
+export const defaultDistributedFactCacheConfig: DistributedFactCacheConfig = {
+  windowMs: 1000 * 60 * 5,
+  maxEntries: 100000
+};
 
 interface Batch {
-  factReferences: FactReference[];
-  userReference: FactReference | null;
-  createdAt: Date;
+  factKeys: string[];
+  userKey: string | null;
+  createdAt: number;
+}
+
+function factKey(reference: FactReference): string {
+  return `${reference.type}:${reference.hash}`;
 }
 
+/**
+ * Keeps distributed facts in this process, indexed by fact. Its methods are
+ * synchronous, as they were before the cache could be shared. Wherever a
+ * DistributedFactRegistry is expected, it is adapted by
+ * MemoryDistributedFactCache.
+ */
 export class DistributedFactCache {
+  private readonly config: DistributedFactCacheConfig;
+  // Oldest first, so that eviction only ever removes from the front.
   private batches: Batch[] = [];
+  private readonly batchesByFact = new Map<string, Set<Batch>>();
+  private entries = 0;
+
+  constructor(config: Partial<DistributedFactCacheConfig> = {}) {
+    this.config = {
+      windowMs: config.windowMs ?? defaultDistributedFactCacheConfig.windowMs,
+      maxEntries: config.maxEntries ?? defaultDistributedFactCacheConfig.maxEntries
+    };
+  }
+
+  /** The number of fact references held (observability/testing). */
+  get size(): number {
+    return this.entries;
+  }
 
   add(factReferences: FactReference[], userReference: FactReference | null): void {
     this.removeOldBatches();
-    this.batches.push({
-      factReferences,
-      userReference,
-      createdAt: new Date()
-    });
+    const batch: Batch = {
+      factKeys: factReferences.map(factKey),
+      userKey: userReference === null ? null : factKey(userReference),
+      createdAt: Date.now()
+    };
+    this.batches.push(batch);
+    for (const key of batch.factKeys) {
+      let batches = this.batchesByFact.get(key);
+      if (!batches) {
+        batches = new Set<Batch>();
+        this.batchesByFact.set(key, batches);
+      }
+      batches.add(batch);
+    }
+    this.entries += batch.factKeys.length;
+    while (this.entries > this.config.maxEntries && this.batches.length > 1) {
+      this.removeOldestBatch();
+    }
   }
 
   includesAll(references: FactReference[], userFact: FactReference | null): boolean {
-    const isUser = userFact === null ? () => false : factReferenceEquals(userFact);
+    const userKey = userFact === null ? null : factKey(userFact);
     this.removeOldBatches();
-    return references.every(reference =>
-      this.batches.some(batch =>
-        batch.factReferences.some(factReferenceEquals(reference)) &&
-        (batch.userReference === null || isUser(batch.userReference))));
+    return references.every(reference => {
+      const batches = this.batchesByFact.get(factKey(reference));
+      if (!batches) {
+        return false;
+      }
+      for (const batch of batches) {
+        if (batch.userKey === null || batch.userKey === userKey) {
+          return true;
+        }
+      }
+      return false;
+    });
   }
 
   removeOldBatches() {
-    const cutoff = new Date().getTime() - 1000 * 60 * 5;
-    this.batches = this.batches.filter(batch =>
-      batch.createdAt.getTime() > cutoff);
+    const cutoff = Date.now() - this.config.windowMs;
+    while (this.batches.length > 0 && this.batches[0].createdAt <= cutoff) {
+      this.removeOldestBatch();
+    }
+  }
+
+  private removeOldestBatch() {
+    const batch = this.batches.shift()!;
+    for (const key of batch.factKeys) {
+      const batches = this.batchesByFact.get(key);
+      if (batches) {
+        batches.delete(batch);
+        if (batches.size === 0) {
+          this.batchesByFact.delete(key);
+        }
+      }
+    }
+    this.entries -= batch.factKeys.length;
+  }
+}
+
+/**
+ * Keeps distributed facts in this process, in a DistributedFactCache.
+ */
+export class MemoryDistributedFactCache implements DistributedFactRegistry {
+  private readonly cache: DistributedFactCache;
+
+  constructor(config: Partial<DistributedFactCacheConfig> | DistributedFactCache = {}) {
+    this.cache = config instanceof DistributedFactCache ? config : new DistributedFactCache(config);
+  }
+
+  /** The number of fact references held (observability/testing). */
+  get size(): number {
+    return this.cache.size;
   }
-}
\ No newline at end of file
+
+  async add(factReferences: FactReference[], userReference: FactReference | null): Promise<void> {
+    this.cache.add(factReferences, userReference);
+  }
+
+  async includesAll(references: FactReference[], userFact: FactReference | null): Promise<boolean> {
+    return this.cache.includesAll(references, userFact);
+  }
+}
+
+/** Use a registry as it is, or adapt a DistributedFactCache to one. */
+export function toDistributedFactRegistry(distributedFacts: DistributedFactRegistry | DistributedFactCache): DistributedFactRegistry {
+  return distributedFacts instanceof DistributedFactCache
+    ? new MemoryDistributedFactCache(distributedFacts)
+    : distributedFacts;
+}
@@ -0,0 +1,105 @@
+import { computeHash, FactEnvelope, FactRecord, FactReference, SpecificationParser, Storage } from "jinaga";
+
+import { verifySignature } from "../http/signature-verification";
+
+export type IdentityType = "Jinaga.User" | "Jinaga.Device";
+
+const identityTypes: IdentityType[] = ["Jinaga.User", "Jinaga.Device"];
+
+// The predecessor role that a revocation uses for each identity type.
+const identityRoles: { [type in IdentityType]: string } = {
+    "Jinaga.User": "user",
+    "Jinaga.Device": "device"
+};
+
+/** The user or device fact of a public key. */
+export function identityFact(type: IdentityType, publicKey: string): FactRecord {
+    const fields = { publicKey };
+    const predecessors = {};
+    return { type, hash: computeHash(fields, predecessors), predecessors, fields };
+}
+
+/**
+ * A fact recording that an identity replaced its key: "Jinaga.User.Rotation"
+ * or "Jinaga.Device.Rotation", from the previous identity fact to the next.
+ */
+export function keyRotationFact(previous: FactRecord, next: FactRecord, rotatedAt: Date): FactRecord {
+    const fields = { rotatedAt: rotatedAt.toISOString() };
+    const predecessors = {
+        previous: { type: previous.type, hash: previous.hash },
+        next: { type: next.type, hash: next.hash }
+    };
+    return { type: `${previous.type}.Rotation`, hash: computeHash(fields, predecessors), predecessors, fields };
+}
+
+/**
+ * A fact recording that the key of an identity must no longer sign:
+ * "Jinaga.User.Revocation" or "Jinaga.Device.Revocation". Facts it signed
+ * before the revocation are kept.
+ */
+export function keyRevocationFact(identity: FactRecord, revokedAt: Date): FactRecord {
+    const type = toIdentityType(identity.type);
+    const fields = { revokedAt: revokedAt.toISOString() };
+    const predecessors = {
+        [identityRoles[type]]: { type: identity.type, hash: identity.hash }
+    };
+    return { type: `${type}.Revocation`, hash: computeHash(fields, predecessors), predecessors, fields };
+}
+
+/**
+ * The public keys among those given that a user or device revocation in
+ * the store names. A revocation counts only when it carries a valid
+ * signature by the key it revokes or by one of the trusted keys, such as
+ * the server's. Otherwise anyone who can save a revocation could lock
+ * another user out.
+ */
+export async function findRevokedKeys(store: Storage, publicKeys: string[], trustedKeys: string[] = []): Promise<string[]> {
+    const candidates = publicKeys.flatMap(publicKey => identityTypes.map(type => ({
+        publicKey,
+        type,
+        reference: <FactReference>{ type, hash: identityFact(type, publicKey).hash }
+    })));
+    const existing = await store.whichExist(candidates.map(c => c.reference));
+    const revoked = new Set<string>();
+    for (const candidate of candidates) {
+        if (revoked.has(candidate.publicKey) ||
+            !existing.some(e => e.type === candidate.reference.type && e.hash === candidate.reference.hash)) {
+            continue;
+        }
+        const results = await store.read([candidate.reference], revocationsOf(candidate.type));
+        if (results.length === 0) {
+            continue;
+        }
+        const revocationType = `${candidate.type}.Revocation`;
+        const envelopes = await store.load(results.map(r => ({ type: revocationType, hash: r.result as string })));
+        const signers = [candidate.publicKey, ...trustedKeys];
+        if (envelopes.some(envelope => envelope.fact.type === revocationType && isSignedByAny(envelope, signers))) {
+            revoked.add(candidate.publicKey);
+        }
+    }
+    return publicKeys.filter(publicKey => revoked.has(publicKey));
+}
+
+function isSignedByAny(envelope: FactEnvelope, publicKeys: string[]): boolean {
+    return envelope.signatures.some(signature =>
+        publicKeys.includes(signature.publicKey) && verifySignature(envelope, signature));
+}
+
+function revocationsOf(type: IdentityType) {
+    const role = identityRoles[type];
+    const parser = new SpecificationParser(`(identity: ${type}) {
+        revocation: ${type}.Revocation [
+            revocation->${role}: ${type} = identity
+        ]
+    } => #revocation`);
+    parser.skipWhitespace();
+    return parser.parseSpecification();
+}
+
+function toIdentityType(type: string): IdentityType {
+    const identityType = identityTypes.find(t => t === type);
+    if (!identityType) {
+        throw new Error(`Only the keys of ${identityTypes.join(" and ")} facts can be revoked, not ${type}.`);
+    }
+    return identityType;
+}
@@ -0,0 +1,64 @@
+import { FeedCache, FeedObject, ReferencesByName, Specification } from "jinaga";
+
+/**
+ * A feed registered through POST /feeds, identified by its hash.
+ */
+export interface FeedDefinition extends FeedObject {
+    /**
+     * The user a feed was cleared for through intersection, as
+     * "{provider}|{id}", or null for an anonymous user. Only that user may
+     * read the feed without a distribution check. Absent for feeds that are
+     * checked on every read.
+     */
+    owner?: string | null;
+}
+
+/**
+ * Holds registered feeds so that GET /feeds/:hash can serve them. A shared
+ * store lets any node in a cluster serve a hash that another node issued,
+ * and lets hashes survive a restart.
+ */
+export interface FeedDefinitionStore {
+    /**
+     * Register feeds that start from the given facts, and return their
+     * hashes. Registering a feed again renews it.
+     */
+    addFeeds(feeds: Specification[], namedStart: ReferencesByName): Promise<string[]>;
+    /**
+     * Bind a registered feed to the user it was cleared for. Resolves to the
+     * owner it was bound to before, or undefined if it had none.
+     */
+    bindOwner(hash: string, owner: string | null): Promise<string | null | undefined>;
+    /** Look up a feed, or undefined if it is unknown or has expired. */
+    getFeed(hash: string): Promise<FeedDefinition | undefined>;
+}
+
+/**
+ * Keeps feeds in this process. Feeds do not expire, but are lost on restart
+ * and are not visible to other nodes.
+ */
+export class MemoryFeedDefinitionStore implements FeedDefinitionStore {
+    private readonly owners = new Map<string, string | null>();
+
+    constructor(private readonly feedCache: FeedCache = new FeedCache()) { }
+
+    async addFeeds(feeds: Specification[], namedStart: ReferencesByName): Promise<string[]> {
+        return this.feedCache.addFeeds(feeds, namedStart);
+    }
+
+    async bindOwner(hash: string, owner: string | null): Promise<string | null | undefined> {
+        const previous = this.owners.get(hash);
+        this.owners.set(hash, owner);
+        return previous;
+    }
+
+    async getFeed(hash: string): Promise<FeedDefinition | undefined> {
+        const feedObject = this.feedCache.getFeed(hash);
+        if (!feedObject) {
+            return undefined;
+        }
+        return this.owners.has(hash)
+            ? { ...feedObject, owner: this.owners.get(hash) }
+            : feedObject;
+    }
+}
@@ -12,6 +12,7 @@ import {
 } from "jinaga";
 import { FeedResult } from "../authorization/authorization-keystore";
 import { Stream } from "../http/stream";
+import { defaultLogger, Logger, withFields } from "../logger";
 
 /**
  * A function that queries the feed for the next page of tuples, starting
@@ -29,13 +30,27 @@ export interface FeedStreamSessionConfig {
     pageDelayEvery: number;
     /** Length of the delay inserted by {@link pageDelayEvery}, in milliseconds. */
     pageDelayMs: number;
+    /**
+     * How long an HTTP feed stream stays open before the server ends it and
+     * the client reconnects from its bookmark, in milliseconds. 0 keeps the
+     * stream open until the client disconnects.
+     */
+    streamLifetimeMs: number;
+    /**
+     * Interval between heartbeat frames on an HTTP feed stream, in
+     * milliseconds. Keep it below the idle timeout of any load balancer in
+     * front of the server. 0 disables heartbeats.
+     */
+    heartbeatIntervalMs: number;
 }
 
 export const defaultFeedStreamSessionConfig: FeedStreamSessionConfig = {
     maxInitialPages: 1000,
     waitlistCap: 50000,
     pageDelayEvery: 10,
-    pageDelayMs: 10
+    pageDelayMs: 10,
+    streamLifetimeMs: 5 * 60 * 1000,
+    heartbeatIntervalMs: 30 * 1000
 };
 
 interface FeedStreamSessionTelemetry {
@@ -79,6 +94,7 @@ function dedupeReferences(references: FactReference[]): FactReference[] {
 export class FeedStreamSession {
     private bookmark: string;
     private readonly config: FeedStreamSessionConfig;
+    private readonly log: Logger;
 
     // Waitlist of fact references surfaced by inverse observers, keyed by
     // "{type}:{hash}" so duplicates collapse. A reference stays on the
@@ -112,10 +128,12 @@ export class FeedStreamSession {
         private readonly stream: Stream<FeedResponse>,
         initialBookmark: string,
         private readonly connectionId: string = Math.random().toString(36).substring(2, 10),
-        config: Partial<FeedStreamSessionConfig> = {}
+        config: Partial<FeedStreamSessionConfig> = {},
+        logger: Logger = defaultLogger
     ) {
         this.bookmark = initialBookmark;
         this.config = { ...defaultFeedStreamSessionConfig, ...config };
+        this.log = withFields(logger, { connectionId });
     }
 
     /** Current number of references on the waitlist (observability/testing). */
@@ -148,14 +166,14 @@ export class FeedStreamSession {
             try {
                 this.factManager.removeSpecificationListener(listener);
             } catch (error) {
-                Trace.error(error);
+                this.log.error("Error removing specification listener", { error });
             }
         }
         this.listeners = [];
         // Use a stable metric name so a metrics backend does not see
         // unbounded cardinality from per-connection IDs. The connection ID
         // is logged separately for correlation.
-        Trace.info(`Feed stream session ${this.connectionId} closed`);
+        this.log.debug("Feed stream session closed");
         Trace.metric("Feed stream session closed", {
             initialPages: this.telemetry.initialPages,
             referencesStreamed: this.telemetry.referencesStreamed,
@@ -181,8 +199,10 @@ export class FeedStreamSession {
             this.telemetry.waitlistHighWater = this.waitlist.size;
         }
         if (this.waitlist.size > this.config.waitlistCap) {
-            Trace.warn(`Feed stream session ${this.connectionId} waitlist exceeded cap ` +
-                `(${this.waitlist.size} > ${this.config.waitlistCap}); closing stream.`);
+            this.log.warn("Feed stream session waitlist exceeded cap; closing stream", {
+                waitlistSize: this.waitlist.size,
+                waitlistCap: this.config.waitlistCap
+            });
             this.dispose();
             this.stream.close();
             return;
@@ -203,7 +223,7 @@ export class FeedStreamSession {
             return;
         }
         // Run the cycle without awaiting; isolate failures.
-        void this.runCycle().catch(error => Trace.error(error));
+        void this.runCycle().catch(error => this.log.error("Feed stream session cycle failed", { error }));
     }
 
     /**
@@ -233,7 +253,7 @@ export class FeedStreamSession {
                     // alive (an authorizing fact may arrive later and wake a
                     // new cycle) but stop the loop without emitting SYNC,
                     // since we are not actually caught up.
-                    Trace.info(`Feed stream session ${this.connectionId} query denied: ${result.reason}`);
+                    this.log.debug(`Feed stream session query denied: ${result.reason}`);
                     break;
                 }
 
@@ -261,8 +281,9 @@ export class FeedStreamSession {
                     else {
                         this.bookmark = feed.bookmark;
                         if (pagesThisCycle >= this.config.maxInitialPages) {
-                            Trace.warn(`Feed stream session ${this.connectionId} hit max page limit ` +
-                                `(${this.config.maxInitialPages}); ending cycle.`);
+                            this.log.warn("Feed stream session hit max page limit; ending cycle", {
+                                maxInitialPages: this.config.maxInitialPages
+                            });
                             break;
                         }
                         if (this.config.pageDelayEvery > 0 &&
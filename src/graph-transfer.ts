@@ -0,0 +1,110 @@
+import { FactEnvelope, FactReference, GraphDeserializer, GraphSerializer, Storage, TopologicalSorter } from "jinaga";
+
+/**
+ * A store that can list its facts in topological order, a batch at a time,
+ * without holding them all in memory.
+ */
+export interface GraphExportStorage {
+    /**
+     * Every fact, or the given facts and all of their predecessors. A
+     * predecessor comes before its successors.
+     */
+    exportFacts(start?: FactReference[]): AsyncIterable<FactEnvelope[]>;
+}
+
+export interface GraphImportResult {
+    /** Facts read from the stream. */
+    read: number;
+    /** Facts that were not already in the store. */
+    saved: number;
+}
+
+/** The number of facts saved in each transaction of an import. */
+export const defaultImportBatchSize = 1000;
+
+function isGraphExportStorage(store: Storage): store is Storage & GraphExportStorage {
+    return typeof (store as Partial<GraphExportStorage>).exportFacts === "function";
+}
+
+/**
+ * Write facts from the store in the application/x-jinaga-graph-v1 format,
+ * yielding a chunk of text for each batch. Without starting facts, the
+ * whole store is exported, which requires a store that supports it.
+ */
+export async function* exportGraph(store: Storage, start?: FactReference[]): AsyncIterable<string> {
+    let chunks: string[] = [];
+    // One serializer for the whole export, so that later facts refer to
+    // predecessors written in earlier chunks by index.
+    const serializer = new GraphSerializer(chunk => chunks.push(chunk));
+    const batches = isGraphExportStorage(store)
+        ? store.exportFacts(start)
+        : loadClosure(store, start);
+    // Not for-await, which compiled for ES6 would leave the export holding
+    // its connection if the caller stops reading early.
+    const iterator = batches[Symbol.asyncIterator]();
+    let exhausted = false;
+    try {
+        while (true) {
+            const next = await iterator.next();
+            if (next.done) {
+                exhausted = true;
+                break;
+            }
+            serializer.serialize(next.value);
+            if (chunks.length > 0) {
+                const text = chunks.join("");
+                chunks = [];
+                yield text;
+            }
+        }
+    }
+    finally {
+        if (!exhausted && iterator.return) {
+            await iterator.return();
+        }
+    }
+}
+
+async function* loadClosure(store: Storage, start?: FactReference[]): AsyncIterable<FactEnvelope[]> {
+    if (!start) {
+        throw new Error("This store can only export the closure of starting facts, not every fact.");
+    }
+    const envelopes = await store.load(start);
+    const envelopeByFact = new Map(envelopes.map(e => [`${e.fact.type}:${e.fact.hash}`, e]));
+    // Not every store loads predecessors first.
+    yield new TopologicalSorter<FactEnvelope>().sort(
+        envelopes.map(e => e.fact),
+        (_, fact) => envelopeByFact.get(`${fact.type}:${fact.hash}`)!);
+}
+
+/**
+ * Save a stream in the application/x-jinaga-graph-v1 format directly to
+ * the store, in transactions of batchSize facts. Authorization, signature
+ * verification, listeners and upstreams are all bypassed, so the stream
+ * must come from a trusted source, such as an export of another
+ * environment.
+ */
+export async function importGraph(
+    store: Storage,
+    readLine: () => Promise<string | null>,
+    batchSize: number = defaultImportBatchSize
+): Promise<GraphImportResult> {
+    const result: GraphImportResult = { read: 0, saved: 0 };
+    let batch: FactEnvelope[] = [];
+    const flush = async () => {
+        const saved = await store.save(batch);
+        result.read += batch.length;
+        result.saved += saved.length;
+        batch = [];
+    };
+    await new GraphDeserializer(readLine, batchSize).read(async envelopes => {
+        batch.push(...envelopes);
+        if (batch.length >= batchSize) {
+            await flush();
+        }
+    });
+    if (batch.length > 0) {
+        await flush();
+    }
+    return result;
+}
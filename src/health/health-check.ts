@@ -0,0 +1,223 @@
+import { Handler, Request, Response } from "express";
+import { Pool } from "pg";
+
+import { SchemaMigrator } from "../postgres/schema-migrator";
+import { withTimeout } from "../util/promise";
+
+/** The tables that PostgresStore reads and writes. */
+export const storeTables = ["fact_type", "role", "fact", "edge", "ancestor", "public_key", "signature", "bookmark"];
+/** The tables that PostgresFeedDefinitionStore reads and writes. */
+export const feedDefinitionTables = ["feed_definition"];
+/** The tables that PostgresDistributedFactCache reads and writes. */
+export const distributedFactTables = ["distributed_fact"];
+/** The tables that PostgresKeystore reads and writes. */
+export const keystoreTables = ["user"];
+
+export type ComponentStatus = "up" | "degraded" | "down";
+
+/**
+ * The result of checking one component. Details such as the queue backlog
+ * or the tables that are missing are reported alongside the status.
+ */
+export type ComponentHealth = {
+    status: ComponentStatus,
+    [detail: string]: unknown
+};
+
+export interface HealthComponent {
+    readonly name: string;
+    /**
+     * Whether the server can serve requests without the component. An
+     * optional component that fails or does not answer in time is reported
+     * degraded rather than down.
+     */
+    readonly optional?: boolean;
+    check(): Promise<ComponentHealth>;
+}
+
+export type ReadinessReport = {
+    status: "ready" | "not_ready" | "shutting_down",
+    components: { [name: string]: ComponentHealth }
+};
+
+export interface HealthCheckConfig {
+    /**
+     * How long a single component check may take before the component is
+     * reported down.
+     */
+    timeoutMs: number;
+    /**
+     * Envelopes waiting for an upstream above which its queue is reported
+     * degraded. A degraded component does not fail readiness.
+     */
+    maxQueueBacklog: number;
+}
+
+export const defaultHealthCheckConfig: HealthCheckConfig = {
+    timeoutMs: 2000,
+    maxQueueBacklog: 10000
+};
+
+/**
+ * Answers liveness and readiness probes. Liveness only shows that the
+ * process is serving requests. Readiness checks every component and fails
+ * when any of them is down.
+ */
+export class HealthCheck {
+    private readonly config: HealthCheckConfig;
+    private shuttingDown = false;
+
+    constructor(
+        private readonly components: HealthComponent[],
+        config: Partial<HealthCheckConfig> = {}
+    ) {
+        this.config = { ...defaultHealthCheckConfig, ...config };
+    }
+
+    get livenessHandler(): Handler {
+        return (req: Request, res: Response) => {
+            res.status(200).json({ status: "up" });
+        };
+    }
+
+    get readinessHandler(): Handler {
+        return (req: Request, res: Response) => {
+            this.checkReadiness()
+                .then(report => {
+                    res.status(report.status === "ready" ? 200 : 503).json(report);
+                })
+                .catch(error => {
+                    res.status(503).json({
+                        status: "not_ready",
+                        components: {},
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+                });
+        };
+    }
+
+    /**
+     * Report not ready from now on, so that the orchestrator stops routing
+     * traffic here while the server drains.
+     */
+    markShuttingDown() {
+        this.shuttingDown = true;
+    }
+
+    async checkReadiness(): Promise<ReadinessReport> {
+        if (this.shuttingDown) {
+            return { status: "shutting_down", components: {} };
+        }
+        const results = await Promise.all(this.components.map(component => this.checkComponent(component)));
+        const components: { [name: string]: ComponentHealth } = {};
+        this.components.forEach((component, i) => {
+            components[component.name] = results[i];
+        });
+        const ready = results.every(result => result.status !== "down");
+        return { status: ready ? "ready" : "not_ready", components };
+    }
+
+    private async checkComponent(component: HealthComponent): Promise<ComponentHealth> {
+        try {
+            return await withTimeout(
+                component.check(),
+                this.config.timeoutMs,
+                `Health check timed out after ${this.config.timeoutMs} ms`);
+        }
+        catch (error) {
+            return {
+                status: component.optional ? "degraded" : "down",
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+}
+
+/**
+ * Connects to Postgres and verifies that the schema holds the tables that
+ * the store or keystore uses. With a migrator, also verifies that the
+ * schema is not behind this version, as a server made by
+ * JinagaServer.create does not check it at startup.
+ */
+export class PostgresSchemaCheck implements HealthComponent {
+    constructor(
+        readonly name: string,
+        private readonly pool: Pool,
+        private readonly schema: string,
+        private readonly tables: string[],
+        private readonly migrator: SchemaMigrator | null = null
+    ) { }
+
+    async check(): Promise<ComponentHealth> {
+        const missingTables = await this.findMissingTables();
+        if (missingTables.length > 0) {
+            return { status: "down", schema: this.schema, missingTables };
+        }
+        if (this.migrator) {
+            try {
+                await this.migrator.verify();
+            }
+            catch (error) {
+                return {
+                    status: "down",
+                    schema: this.schema,
+                    error: error instanceof Error ? error.message : String(error)
+                };
+            }
+        }
+        return { status: "up", schema: this.schema };
+    }
+
+    private async findMissingTables(): Promise<string[]> {
+        const client = await this.pool.connect();
+        try {
+            const { rows } = await client.query(
+                `SELECT t.name FROM unnest($1::text[]) AS t(name)
+                WHERE to_regclass(quote_ident($2) || '.' || quote_ident(t.name)) IS NULL`,
+                [this.tables, this.schema]);
+            return rows.map(row => row.name);
+        }
+        finally {
+            client.release();
+        }
+    }
+}
+
+/**
+ * Reports the number of envelopes waiting to be sent to an upstream.
+ */
+export class QueueBacklogCheck implements HealthComponent {
+    constructor(
+        readonly name: string,
+        private readonly queue: { backlog(): Promise<number> },
+        private readonly maxBacklog: number
+    ) { }
+
+    async check(): Promise<ComponentHealth> {
+        const backlog = await this.queue.backlog();
+        return {
+            status: backlog > this.maxBacklog ? "degraded" : "up",
+            backlog
+        };
+    }
+}
+
+/**
+ * Verifies that an upstream replicator answers HTTP requests. Any response,
+ * whatever its status, shows that the upstream is reachable. Saves to an
+ * unreachable upstream wait in the queue, and feeds fail over to another,
+ * so an unreachable upstream degrades the server without failing readiness.
+ */
+export class UpstreamCheck implements HealthComponent {
+    readonly optional = true;
+
+    constructor(
+        readonly name: string,
+        private readonly connection: { getAcceptedContentTypes(path: string): Promise<string[]> }
+    ) { }
+
+    async check(): Promise<ComponentHealth> {
+        await this.connection.getAcceptedContentTypes("/save");
+        return { status: "up" };
+    }
+}
@@ -0,0 +1,224 @@
+import { FactReference, FeedResponse } from "jinaga";
+import { IncomingMessage } from "http";
+import { Duplex } from "stream";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+
+import { defaultLogger, Logger } from "../logger";
+import { describeError, HttpRouter, RequestUser } from "./router";
+import { Stream } from "./stream";
+
+/**
+ * Identify the user behind a WebSocket upgrade request. Resolve to null for
+ * an anonymous connection, or reject to refuse the upgrade with 401.
+ */
+export type WebSocketAuthenticator = (request: IncomingMessage) => Promise<RequestUser | null>;
+
+/** Messages a client sends over the feed socket. */
+export type FeedSocketRequest =
+    | { type: "subscribe", feed: string, bookmark?: string }
+    | { type: "unsubscribe", feed: string };
+
+/** Messages the server sends over the feed socket. */
+export type FeedSocketMessage =
+    | { type: "feed", feed: string, references: FactReference[], bookmark: string }
+    | { type: "closed", feed: string }
+    | { type: "error", feed?: string, status: number, message: string };
+
+interface Subscription {
+    stream: Stream<FeedResponse> | null;
+    cancelled: boolean;
+}
+
+interface Connection {
+    socket: WebSocket;
+    user: RequestUser | null;
+    subscriptions: Map<string, Subscription>;
+}
+
+/**
+ * Multiplexes feed subscriptions over a single WebSocket.
+ *
+ * Each subscription is served by the same FeedStreamSession as a streamed
+ * GET /feeds/:hash, so it carries its own bookmark and goes through the same
+ * distribution checks. A client subscribes with the feed hash returned by
+ * POST /feeds and the bookmark to resume from, and receives one "feed"
+ * message per page, tagged with the hash. Subscribing again to the same hash
+ * replaces the session. When the server ends a session on its own, the client
+ * is told with a "closed" message and may resubscribe from its last bookmark.
+ */
+export class FeedWebSocketHandler {
+    private readonly server = new WebSocketServer({ noServer: true });
+    private readonly connections = new Set<Connection>();
+    private closing = false;
+
+    constructor(
+        private readonly router: HttpRouter,
+        private readonly authenticate: WebSocketAuthenticator = () => Promise.resolve(null),
+        private readonly logger: Logger = defaultLogger
+    ) { }
+
+    /**
+     * Complete a WebSocket upgrade. Attach it to the HTTP server's "upgrade"
+     * event for the path where the socket should be served.
+     */
+    handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+        if (this.closing) {
+            socket.write("HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\n\r\n");
+            socket.destroy();
+            return;
+        }
+        this.authenticate(request)
+            .then(user => {
+                this.server.handleUpgrade(request, socket, head, ws => this.handleConnection(ws, user));
+            })
+            .catch(error => {
+                this.logger.warn("WebSocket authentication failed", { error });
+                socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+                socket.destroy();
+            });
+    }
+
+    /**
+     * Refuse new upgrades, close every open socket with 1001 (going away)
+     * and end their sessions.
+     */
+    close(): Promise<void> {
+        this.closing = true;
+        for (const connection of this.connections) {
+            connection.socket.close(1001, "Server shutting down");
+            this.closeAll(connection);
+        }
+        this.connections.clear();
+        return new Promise<void>((resolve, reject) => {
+            this.server.close(error => error ? reject(error) : resolve());
+        });
+    }
+
+    private handleConnection(socket: WebSocket, user: RequestUser | null) {
+        const connection: Connection = {
+            socket,
+            user,
+            subscriptions: new Map<string, Subscription>()
+        };
+        this.connections.add(connection);
+
+        socket.on("message", (data: RawData) => this.handleMessage(connection, data));
+        socket.on("close", () => {
+            this.connections.delete(connection);
+            this.closeAll(connection);
+        });
+        socket.on("error", error => {
+            this.logger.warn("WebSocket error", { user: user?.id ?? null, error });
+        });
+    }
+
+    private handleMessage(connection: Connection, data: RawData) {
+        const request = parseRequest(data);
+        if (!request) {
+            send(connection, {
+                type: "error",
+                status: 400,
+                message: "Expected a JSON message with a type of subscribe or unsubscribe and a feed hash."
+            });
+            return;
+        }
+        if (request.type === "subscribe") {
+            this.subscribe(connection, request.feed, request.bookmark ?? "");
+        }
+        else {
+            this.unsubscribe(connection, request.feed);
+        }
+    }
+
+    private async subscribe(connection: Connection, feed: string, bookmark: string) {
+        this.unsubscribe(connection, feed);
+        const subscription: Subscription = { stream: null, cancelled: false };
+        connection.subscriptions.set(feed, subscription);
+
+        try {
+            const stream = await this.router.openFeedStream(connection.user, feed, bookmark);
+            if (subscription.cancelled) {
+                // Unsubscribed or disconnected while the session was opening.
+                stream.close();
+                return;
+            }
+            subscription.stream = stream;
+            stream
+                .next(response => send(connection, {
+                    type: "feed",
+                    feed,
+                    references: response.references,
+                    bookmark: response.bookmark
+                }))
+                .done(() => {
+                    if (subscription.cancelled) {
+                        return;
+                    }
+                    subscription.cancelled = true;
+                    if (connection.subscriptions.get(feed) === subscription) {
+                        connection.subscriptions.delete(feed);
+                    }
+                    send(connection, { type: "closed", feed });
+                });
+        }
+        catch (error) {
+            if (connection.subscriptions.get(feed) === subscription) {
+                connection.subscriptions.delete(feed);
+            }
+            const { status, body } = describeError(error, `websocket /feeds/${feed}`, this.logger);
+            send(connection, { type: "error", feed, status, message: body });
+        }
+    }
+
+    private unsubscribe(connection: Connection, feed: string) {
+        const subscription = connection.subscriptions.get(feed);
+        if (subscription) {
+            connection.subscriptions.delete(feed);
+            cancel(subscription);
+        }
+    }
+
+    private closeAll(connection: Connection) {
+        for (const subscription of connection.subscriptions.values()) {
+            cancel(subscription);
+        }
+        connection.subscriptions.clear();
+    }
+}
+
+function cancel(subscription: Subscription) {
+    // Mark first, so that closing the stream is not reported as "closed".
+    subscription.cancelled = true;
+    if (subscription.stream) {
+        subscription.stream.close();
+    }
+}
+
+function send(connection: Connection, message: FeedSocketMessage) {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+        connection.socket.send(JSON.stringify(message));
+    }
+}
+
+function parseRequest(data: RawData): FeedSocketRequest | null {
+    let message: any;
+    try {
+        message = JSON.parse(data.toString());
+    }
+    catch {
+        return null;
+    }
+    if (!message || typeof message !== "object" || typeof message.feed !== "string" || !message.feed) {
+        return null;
+    }
+    if (message.type === "subscribe") {
+        if (message.bookmark !== undefined && typeof message.bookmark !== "string") {
+            return null;
+        }
+        return { type: "subscribe", feed: message.feed, bookmark: message.bookmark };
+    }
+    if (message.type === "unsubscribe") {
+        return { type: "unsubscribe", feed: message.feed };
+    }
+    return null;
+}
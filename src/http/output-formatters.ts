@@ -14,6 +14,12 @@ export async function outputReadResultsStreaming(
     acceptType: string,
     csvMetadata?: CsvMetadata
 ): Promise<void> {
+    // If the client goes away, stop reading and release the connection
+    // behind the stream rather than reading to the end.
+    res.once("close", () => {
+        result.close().catch(() => { });
+    });
+
     switch (acceptType) {
         case "application/x-ndjson":
             // NDJSON format - stream one JSON object per line
@@ -52,7 +58,9 @@ export async function streamAsNDJSON(stream: ResultStream<any>, res: Response):
     try {
         let item;
         while ((item = await stream.next()) !== null) {
-            res.write(JSON.stringify(item) + '\n');
+            if (!res.write(JSON.stringify(item) + '\n')) {
+                await drained(res, res);
+            }
         }
         res.end();
     } catch (error) {
@@ -175,7 +183,9 @@ export async function streamAsCSVWithStringify(
             }
             
             // Write row to stringifier
-            stringifier.write(row);
+            if (!stringifier.write(row)) {
+                await drained(stringifier, res);
+            }
         }
 
         // Signal end of data
@@ -185,7 +195,6 @@ export async function streamAsCSVWithStringify(
         await finishedAsync(stringifier);
 
     } catch (error) {
-        console.error('Error in CSV streaming:', error);
         if (!res.headersSent) {
             res.status(500).send('Error generating CSV');
         }
@@ -194,3 +203,23 @@ export async function streamAsCSVWithStringify(
         await stream.close();
     }
 }
+
+/**
+ * Wait until a writable that refused a write has drained, so that a slow
+ * client does not cause the results to buffer in memory. Gives up if the
+ * response closes first.
+ */
+function drained(writable: NodeJS.EventEmitter, res: Response): Promise<void> {
+    if (res.destroyed) {
+        return Promise.resolve();
+    }
+    return new Promise(resolve => {
+        const done = () => {
+            writable.off('drain', done);
+            res.off('close', done);
+            resolve();
+        };
+        writable.once('drain', done);
+        res.once('close', done);
+    });
+}
@@ -29,75 +29,172 @@ import {
     Specification,
     SpecificationParser,
     Trace,
-    UserIdentity,
-    verifyEnvelopes
+    UserIdentity
 } from "jinaga";
 import { DistributionIntersectionBranch, FeedResult, SubscriptionAuthorizer } from "../authorization/authorization-keystore";
-import { FeedStreamSession, FeedStreamSessionConfig } from "../feeds/feed-stream-session";
+import { FeedDefinition, FeedDefinitionStore, MemoryFeedDefinitionStore } from "../feeds/feed-definition-store";
+import { defaultFeedStreamSessionConfig, FeedStreamSession, FeedStreamSessionConfig } from "../feeds/feed-stream-session";
+import { defaultLogger, Logger, withFields } from "../logger";
+import { ServerMetrics } from "../metrics/server-metrics";
+import { FeedPage } from "../paged-feed-storage";
+import {
+    describePurgeConditions,
+    parsePurgeRestoreMessage,
+    parsePurgeRootMessage,
+    PurgeAdministration,
+    PurgeConditionDescription,
+    PurgeRestoreMessage,
+    PurgeRootMessage,
+    PurgeTarget
+} from "../purge/purge-administration";
+import { expirePurgeArchive, PurgeArchive, PurgeRestoreResult } from "../purge/purge-archive";
 import { CsvMetadata } from "./csv-metadata";
 import { validateSpecificationForCsv } from "./csv-validator";
 import { createLineReader } from "./line-reader";
 import { outputReadResultsStreaming } from "./output-formatters";
-import { arrayToResultStream, ResultStream } from "./result-stream";
+import { AsyncIterableResultStream, ResultStream } from "./result-stream";
+import { InvalidSignature, SignatureVerificationMode, verifySignatures } from "./signature-verification";
 import { Stream } from "./stream";
 
+interface StreamFormat<U> {
+    contentType: string;
+    frame(data: U): string;
+    /** Written while idle to keep intermediaries from timing out the connection. */
+    heartbeat: string;
+    /** Written when the server ends the stream, carrying the bookmark to resume from. */
+    end(data: U): string;
+}
+
+interface StreamOptions<U> {
+    /** Identifies a frame; for feeds this is the bookmark. */
+    eventId(data: U): string;
+    /** The frame that ends a stream, given the last event id delivered. */
+    endOfStream(lastEventId: string): U;
+    lifetimeMs: number;
+    heartbeatIntervalMs: number;
+}
+
+/** The largest page a client may request from GET /feeds/:hash unless configured otherwise. */
+export const defaultMaxFeedPageSize = 1000;
+
+const FEED_STREAM_CONTENT_TYPE = "application/x-jinaga-feed-stream";
+const EVENT_STREAM_CONTENT_TYPE = "text/event-stream";
+
+// Clients skip blank lines between JSON frames, so a bare newline is a
+// heartbeat they can ignore.
+function jinagaStreamFormat<U>(): StreamFormat<U> {
+    const frame = (data: U) => JSON.stringify(data) + "\n\n";
+    return {
+        contentType: FEED_STREAM_CONTENT_TYPE,
+        frame,
+        heartbeat: "\n",
+        end: frame
+    };
+}
+
+// Server-Sent Events, consumable by a browser EventSource. The event id is
+// echoed back by the client in Last-Event-ID when it reconnects. Heartbeats
+// are comment lines, which EventSource discards.
+function eventStreamFormat<U>(eventId: (data: U) => string): StreamFormat<U> {
+    return {
+        contentType: EVENT_STREAM_CONTENT_TYPE,
+        frame: data => `id: ${eventId(data)}\ndata: ${JSON.stringify(data)}\n\n`,
+        heartbeat: ": heartbeat\n\n",
+        end: data => `event: end\nid: ${eventId(data)}\ndata: ${JSON.stringify(data)}\n\n`
+    };
+}
+
+function selectStreamFormat<U>(accept: string | undefined, eventId: (data: U) => string): StreamFormat<U> | null {
+    if (!accept) {
+        return null;
+    }
+    if (accept.indexOf(FEED_STREAM_CONTENT_TYPE) >= 0) {
+        return jinagaStreamFormat<U>();
+    }
+    if (accept.indexOf(EVENT_STREAM_CONTENT_TYPE) >= 0) {
+        return eventStreamFormat(eventId);
+    }
+    return null;
+}
+
 function getOrStream<U>(
     getMethod: ((req: RequestUser, params: { [key: string]: string }, query: qs.ParsedQs) => Promise<U | null>),
-    streamMethod: ((req: RequestUser, params: { [key: string]: string }, query: qs.ParsedQs) => Promise<Stream<U> | null>)
+    streamMethod: ((req: RequestUser, params: { [key: string]: string }, query: qs.ParsedQs) => Promise<Stream<U> | null>),
+    options: StreamOptions<U>,
+    logger: Logger
 ): Handler {
     return (req, res, next) => {
         const connectionId = Math.random().toString(36).substring(2, 10);
         const user = <RequestUser>(req as any).user;
         const accept = req.headers["accept"];
+        const log = withFields(logger, {
+            connectionId,
+            feedHash: req.params["hash"],
+            user: user?.id ?? null
+        });
         
-        console.log(`[HttpConnection:${connectionId}] New request - User: ${user?.id || 'anonymous'}, Accept: ${accept}, URL: ${req.url}`);
+        log.debug("New request", { accept, url: req.url });
         
-        if (accept && accept.indexOf("application/x-jinaga-feed-stream") >= 0) {
-            console.log(`[HttpConnection:${connectionId}] STREAMING request detected`);
+        const format = selectStreamFormat(accept, options.eventId);
+        if (format) {
+            log.debug("Streaming request", { format: format.contentType });
             
-            streamMethod(user, req.params, req.query)
+            // An EventSource reconnects with the id of the last event it
+            // received. That id is the bookmark, so resume from it.
+            const lastEventId = req.get("Last-Event-ID");
+            const query = format.contentType === EVENT_STREAM_CONTENT_TYPE && lastEventId
+                ? { ...req.query, b: lastEventId }
+                : req.query;
+
+            streamMethod(user, req.params, query)
                 .then(response => {
                     if (!response) {
-                        console.log(`[HttpConnection:${connectionId}] Stream method returned null - sending 404`);
+                        log.debug("Stream method returned null; sending 404");
                         sendRouteMiss(res);
                         next();
                     }
                     else {
-                        console.log(`[HttpConnection:${connectionId}] Setting up streaming response`);
-                        
-                        res.type("application/x-jinaga-feed-stream");
+                        res.type(format.contentType);
                         res.set("Connection", "keep-alive");
                         res.set("Cache-Control", "no-cache");
                         res.set("Access-Control-Allow-Origin", "*");
                         res.flushHeaders();
                         
-                        console.log(`[HttpConnection:${connectionId}] Headers flushed - setting up event handlers`);
-                        
                         let clientDisconnected = false;
                         let timeoutTriggered = false;
                         let streamClosed = false;
+                        let lastDelivered = query["b"] as string ?? "";
                         
                         // Client disconnect handler
                         req.on("close", () => {
-                            console.log(`[HttpConnection:${connectionId}] CLIENT DISCONNECTED`);
                             clientDisconnected = true;
                             if (!streamClosed) {
-                                console.log(`[HttpConnection:${connectionId}] Closing stream due to client disconnect`);
+                                log.debug("Client disconnected; closing stream");
                                 response.close();
                                 streamClosed = true;
                             }
                         });
                         
-                        // Timeout handler
-                        const timeout = setTimeout(() => {
-                            console.log(`[HttpConnection:${connectionId}] TIMEOUT TRIGGERED (5 minutes)`);
-                            timeoutTriggered = true;
-                            if (!streamClosed) {
-                                console.log(`[HttpConnection:${connectionId}] Closing stream due to timeout`);
-                                response.close();
-                                streamClosed = true;
-                            }
-                        }, 5 * 60 * 1000);
+                        // Lifetime handler
+                        const timeout = options.lifetimeMs > 0
+                            ? setTimeout(() => {
+                                timeoutTriggered = true;
+                                if (!streamClosed) {
+                                    log.debug("Stream lifetime elapsed; closing stream", { lifetimeMs: options.lifetimeMs });
+                                    response.close();
+                                    streamClosed = true;
+                                }
+                            }, options.lifetimeMs)
+                            : null;
+                        
+                        // Heartbeat handler
+                        const heartbeat = options.heartbeatIntervalMs > 0
+                            ? setInterval(() => {
+                                if (!clientDisconnected) {
+                                    res.write(format.heartbeat);
+                                }
+                            }, options.heartbeatIntervalMs)
+                            : null;
                         
                         let messageCount = 0;
                         
@@ -107,75 +204,75 @@ function getOrStream<U>(
                                 const writeStart = Date.now();
                                 
                                 if (clientDisconnected) {
-                                    console.warn(`[HttpConnection:${connectionId}] Attempted to write to disconnected client - Message #${messageCount}`);
+                                    log.debug("Dropped message for disconnected client", { messageCount });
                                     return;
                                 }
                                 
                                 try {
-                                    const jsonData = JSON.stringify(data) + "\n\n";
+                                    const jsonData = format.frame(data);
                                     res.write(jsonData);
+                                    lastDelivered = options.eventId(data);
                                     const writeDuration = Date.now() - writeStart;
                                     
-                                    console.log(`[HttpConnection:${connectionId}] Message #${messageCount} sent - Size: ${jsonData.length} bytes, Duration: ${writeDuration}ms`);
+                                    log.debug("Message sent", { messageCount, bytes: jsonData.length, durationMs: writeDuration });
                                     
                                     if (writeDuration > 50) {
-                                        console.warn(`[HttpConnection:${connectionId}] SLOW write operation - Duration: ${writeDuration}ms`);
+                                        log.warn("Slow stream write", { messageCount, durationMs: writeDuration });
                                     }
                                 } catch (error) {
-                                    console.error(`[HttpConnection:${connectionId}] ERROR writing message #${messageCount}: ${error}`);
+                                    log.error("Error writing stream message", { messageCount, error });
                                 }
                             })
                             .done(() => {
-                                console.log(`[HttpConnection:${connectionId}] STREAM DONE - Messages sent: ${messageCount}, Client disconnected: ${clientDisconnected}, Timeout triggered: ${timeoutTriggered}`);
+                                log.debug("Stream done", { messageCount, clientDisconnected, timeoutTriggered });
                                 
-                                clearTimeout(timeout);
+                                if (timeout) {
+                                    clearTimeout(timeout);
+                                }
+                                if (heartbeat) {
+                                    clearInterval(heartbeat);
+                                }
                                 streamClosed = true;
                                 
                                 try {
                                     if (!clientDisconnected) {
-                                        console.log(`[HttpConnection:${connectionId}] Ending socket connection`);
+                                        // The server is ending the stream. Tell the client
+                                        // where to reconnect from before hanging up.
+                                        res.write(format.end(options.endOfStream(lastDelivered)));
                                         res.socket?.end();
-                                    } else {
-                                        console.log(`[HttpConnection:${connectionId}] Client already disconnected - skipping socket end`);
                                     }
                                 } catch (error) {
-                                    console.error(`[HttpConnection:${connectionId}] ERROR ending socket: ${error}`);
+                                    log.error("Error ending stream", { error });
                                 }
                             });
-                        
-                        console.log(`[HttpConnection:${connectionId}] Stream handlers configured`);
                     }
                 })
                 .catch(error => {
-                    console.error(`[HttpConnection:${connectionId}] ERROR in stream method: ${error}`);
-                    handleError(error, req, res, next);
+                    handleError(error, req, res, next, logger);
                 });
         }
         else {
-            console.log(`[HttpConnection:${connectionId}] Regular GET request`);
             getMethod(user, req.params, req.query)
                 .then(response => {
                     if (!response) {
-                        console.log(`[HttpConnection:${connectionId}] Get method returned null - sending 404`);
+                        log.debug("Get method returned null; sending 404");
                         sendRouteMiss(res);
                         next();
                     }
                     else {
-                        console.log(`[HttpConnection:${connectionId}] Sending JSON response`);
                         res.type("json");
                         res.send(JSON.stringify(response));
                         next();
                     }
                 })
                 .catch(error => {
-                    console.error(`[HttpConnection:${connectionId}] ERROR in get method: ${error}`);
-                    handleError(error, req, res, next);
+                    handleError(error, req, res, next, logger);
                 });
         }
     };
 }
 
-function getAuthenticate<U>(method: ((req: RequestUser, params?: { [key: string]: string }) => Promise<U>)): Handler {
+function getAuthenticate<U>(method: ((req: RequestUser, params?: { [key: string]: string }) => Promise<U>), logger: Logger): Handler {
     return (req, res, next) => {
         const user = <RequestUser>(req as any).user;
         if (!user) {
@@ -188,7 +285,7 @@ function getAuthenticate<U>(method: ((req: RequestUser, params?: { [key: string]
                     res.send(JSON.stringify(response));
                     next();
                 })
-                .catch(error => handleError(error, req, res, next));
+                .catch(error => handleError(error, req, res, next, logger));
         }
     };
 }
@@ -196,17 +293,18 @@ function getAuthenticate<U>(method: ((req: RequestUser, params?: { [key: string]
 function post<T, U>(
     parse: (input: any) => T,
     method: (user: RequestUser, message: T, params?: { [key: string]: string }) => Promise<U>,
-    output: (result: U, res: Response, accepts: (type: string) => string | false) => void
+    output: (result: U, res: Response, accepts: (type: string) => string | false) => void,
+    logger: Logger
 ): Handler {
     return (req, res, next) => {
         const user = <RequestUser>(req as any).user;
-        const parsed = parseRequestInput(() => parse(req.body), req, res, next);
+        const parsed = parseRequestInput(() => parse(req.body), req, res, next, logger);
         if (!parsed.ok) {
             return;
         }
         const message = parsed.value;
         if (!message) {
-            handleError(new Invalid(`${MISSING_BODY} ${describeContentType(req)}`), req, res, next);
+            handleError(new Invalid(`${MISSING_BODY} ${describeContentType(req)}`), req, res, next, logger);
             return;
         }
         method(user, message, req.params)
@@ -220,17 +318,18 @@ function post<T, U>(
                     next();
                 }
             })
-        .catch(error => handleError(error, req, res, next));
+        .catch(error => handleError(error, req, res, next, logger));
     };
 }
 
 function postCreate<T>(
     parse: (request: Request) => T,
-    method: (user: RequestUser, message: T) => Promise<void>
+    method: (user: RequestUser, message: T) => Promise<void>,
+    logger: Logger
 ): Handler {
     return (req, res, next) => {
         const user = <RequestUser>(req as any).user;
-        const parsed = parseRequestInput(() => parse(req), req, res, next);
+        const parsed = parseRequestInput(() => parse(req), req, res, next, logger);
         if (!parsed.ok) {
             return;
         }
@@ -239,14 +338,14 @@ function postCreate<T>(
                 res.sendStatus(201);
                 next();
             })
-            .catch(error => handleError(error, req, res, next));
+            .catch(error => handleError(error, req, res, next, logger));
     };
 }
 
-function postStringCreate(method: (user: RequestUser, message: string) => Promise<void>): Handler {
+function postStringCreate(method: (user: RequestUser, message: string) => Promise<void>, logger: Logger): Handler {
     return (req, res, next) => {
         const user = <RequestUser>(req as any).user;
-        const parsed = parseRequestInput(() => parseTextBody(req), req, res, next);
+        const parsed = parseRequestInput(() => parseTextBody(req), req, res, next, logger);
         if (!parsed.ok) {
             return;
         }
@@ -255,19 +354,20 @@ function postStringCreate(method: (user: RequestUser, message: string) => Promis
                 res.sendStatus(201);
                 next();
             })
-            .catch(error => handleError(error, req, res, next));
+            .catch(error => handleError(error, req, res, next, logger));
     };
 }
 
 function postReadWithStreaming(
-    method: (user: RequestUser, message: string, acceptType: string) => Promise<{
+    method: (user: RequestUser, message: string, acceptType: string, query: qs.ParsedQs) => Promise<{
         resultStream: ResultStream<any>,
         csvMetadata?: CsvMetadata
-    }>
+    }>,
+    logger: Logger
 ): Handler {
     return (req, res, next) => {
         const user = <RequestUser>(req as any).user;
-        const parsed = parseRequestInput(() => parseTextBody(req), req, res, next);
+        const parsed = parseRequestInput(() => parseTextBody(req), req, res, next, logger);
         if (!parsed.ok) {
             return;
         }
@@ -282,15 +382,56 @@ function postReadWithStreaming(
             acceptType = preferredType ? String(preferredType) : 'text/plain';
         }
 
-        method(user, parsed.value, acceptType)
+        method(user, parsed.value, acceptType, req.query)
             .then(({resultStream, csvMetadata}) => {
-                outputReadResults(resultStream, res, acceptType, csvMetadata);
+                outputReadResults(resultStream, res, acceptType, logger, csvMetadata);
                 next();
             })
-            .catch(error => handleError(error, req, res, next));
+            .catch(error => handleError(error, req, res, next, logger));
     };
 }
 
+/**
+ * Read the page bounds of a feed request: "limit" is the page size, capped
+ * at the server's maximum, and "until" is the inclusive upper-bound
+ * bookmark.
+ */
+function parseFeedPage(query: qs.ParsedQs, maxPageSize: number): FeedPage {
+    const page: FeedPage = {};
+    const limit = query["limit"];
+    if (limit !== undefined) {
+        if (typeof limit !== "string" || !/^[0-9]+$/.test(limit) || parseInt(limit) < 1) {
+            throw new Invalid(`The limit parameter must be a positive integer.`);
+        }
+        page.limit = Math.min(parseInt(limit), maxPageSize);
+    }
+    const until = query["until"];
+    if (until !== undefined) {
+        if (typeof until !== "string" || until === "") {
+            throw new Invalid(`The until parameter must be a bookmark.`);
+        }
+        page.upperBookmark = until;
+    }
+    return page;
+}
+
+/**
+ * Read the instant of an "as of" read. It must be an ISO 8601 timestamp
+ * that names its time zone, so that every server reads the same instant.
+ */
+function parseAsOf(query: qs.ParsedQs): Date | undefined {
+    const asOf = query["asOf"];
+    if (asOf === undefined) {
+        return undefined;
+    }
+    if (typeof asOf !== "string" ||
+        !/^\d{4}-\d{2}-\d{2}T[0-9:.]+(Z|[+-]\d{2}:\d{2})$/.test(asOf) ||
+        isNaN(Date.parse(asOf))) {
+        throw new Invalid(`The asOf parameter must be an ISO 8601 timestamp with a time zone, such as 2024-01-31T12:00:00Z.`);
+    }
+    return new Date(asOf);
+}
+
 function subscriptionOwnerKey(userIdentity: UserIdentity | null): string | null {
     return userIdentity ? `${userIdentity.provider}|${userIdentity.id}` : null;
 }
@@ -351,16 +492,22 @@ function outputFeeds(result: FeedsResponse, res: Response, accepts: (type: strin
     res.send(JSON.stringify(result));
 }
 
+function outputJson(result: unknown, res: Response) {
+    res.type("json");
+    res.send(JSON.stringify(result));
+}
+
 function outputReadResults(
     result: ResultStream<any>, 
     res: Response, 
     acceptType: string,
+    logger: Logger,
     csvMetadata?: CsvMetadata
 ) {
     // Use streaming output formatter
     outputReadResultsStreaming(result, res, acceptType, csvMetadata)
         .catch(error => {
-            console.error('Error in outputReadResults:', error);
+            logger.error("Error writing read results", { error });
             if (!res.headersSent) {
                 // Without an explicit type, res.send of a string makes Express
                 // infer text/html and label an error body as markup.
@@ -369,6 +516,13 @@ function outputReadResults(
         });
 }
 
+/**
+ * A frame of a streamed feed. The last frame the server sends before it ends
+ * the stream has no references and sets `end`; the client should reconnect
+ * from its bookmark. Clients that ignore `end` see an empty page.
+ */
+export type FeedStreamFrame = FeedResponse & { end?: true };
+
 export interface RequestUser {
     provider: string;
     id: string;
@@ -377,52 +531,120 @@ export interface RequestUser {
 
 export class HttpRouter {
     handler: Handler;
-    // Map from feed hash → owning user key, for feeds the server cleared
-    // via intersection. The cached spec self-filters by the lifted auth
-    // condition (the requesting user's fact is baked into start), so it
-    // is safe to skip the per-query distribution check — but ONLY for
+    // Registered feeds, with the owning user key of each feed the server
+    // cleared via intersection. The cached spec self-filters by the lifted
+    // auth condition (the requesting user's fact is baked into start), so
+    // it is safe to skip the per-query distribution check — but ONLY for
     // the same user who originally requested the subscription. Another
     // authenticated user who somehow obtained the hash must go through
     // the normal authorization.feed path, which will deny their request
     // since the intersected spec is not authorizable in its own right.
-    private intersectedFeedOwners = new Map<string, string | null>();
+    private feedDefinitions: FeedDefinitionStore;
+
+    // Graceful shutdown: once draining, new requests and feed streams are
+    // refused, and drain() resolves when the requests already in flight
+    // have finished.
+    private draining = false;
+    private inFlight = 0;
+    private idleWaiters: (() => void)[] = [];
+    private openStreams = new Set<Stream<FeedResponse>>();
 
     constructor(
         private factManager: FactManager,
         private authorization: Authorization & SubscriptionAuthorizer,
-        private feedCache: FeedCache,
+        feedCache: FeedCache | FeedDefinitionStore,
         private allowedOrigin: string | string[] | ((origin: string, callback: (err: Error | null, allow?: boolean) => void) => void),
-        private feedStreamConfig: Partial<FeedStreamSessionConfig> = {}
+        private feedStreamConfig: Partial<FeedStreamSessionConfig> = {},
+        private logger: Logger = defaultLogger,
+        private metrics: ServerMetrics | null = null,
+        private maxFeedPageSize: number = defaultMaxFeedPageSize,
+        private signatureVerification: SignatureVerificationMode = "strict",
+        private purgeAdministration: PurgeAdministration | null = null
     ) {
+        this.feedDefinitions = feedCache instanceof FeedCache
+            ? new MemoryFeedDefinitionStore(feedCache)
+            : feedCache;
         const router = Router();
+        router.use((req, res, next) => this.admit(req, res, next));
+        if (metrics) {
+            router.use(metrics.requestMiddleware);
+        }
         const applyAllowOrigin = this.applyAllowOrigin.bind(this);
-        router.get('/login', applyAllowOrigin, getAuthenticate(user => this.login(user)));
+        router.get('/login', applyAllowOrigin, getAuthenticate(user => this.login(user), logger));
         router.post('/load', applyAllowOrigin, post(
             parseLoadMessage,
             (user, loadMessage) => this.load(user, loadMessage),
-            outputGraph
+            outputGraph,
+            logger
         ));
         router.post('/save', applyAllowOrigin, postCreate(
             inputSaveMessage,
-            (user, graphSource) => this.save(user, graphSource)
+            (user, graphSource) => this.save(user, graphSource),
+            logger
         ));
 
-        router.post('/read', applyAllowOrigin, postReadWithStreaming((user, input: string, acceptType: string) =>
+        router.post('/read', applyAllowOrigin, postReadWithStreaming((user, input: string, acceptType: string, query) =>
             this.readWithStreaming(
                 user,
                 input,
-                acceptType === 'text/csv' ? preProcessForCsv : preProcessForOther
-            )
+                acceptType === 'text/csv' ? preProcessForCsv : preProcessForOther,
+                query
+            ),
+            logger
         ));
-        router.post('/write', applyAllowOrigin, postStringCreate((user, input: string) => this.write(user, input)));
+        router.post('/write', applyAllowOrigin, postStringCreate((user, input: string) => this.write(user, input), logger));
         router.post('/feeds', applyAllowOrigin, post(
             parseString,
             (user, input: string, accepts) => this.feeds(user, input),
-            outputFeeds
+            outputFeeds,
+            logger
         ));
-        router.get('/feeds/:hash', applyAllowOrigin, getOrStream<FeedResponse>(
+        const streamConfig = { ...defaultFeedStreamSessionConfig, ...feedStreamConfig };
+        router.get('/feeds/:hash', applyAllowOrigin, getOrStream<FeedStreamFrame>(
             (user, params, query) => this.feed(user, params, query),
-            (user, params, query) => this.streamFeed(user, params, query)));
+            (user, params, query) => this.streamFeed(user, params, query),
+            {
+                eventId: response => response.bookmark,
+                endOfStream: bookmark => ({ references: [], bookmark, end: true }),
+                lifetimeMs: streamConfig.streamLifetimeMs,
+                heartbeatIntervalMs: streamConfig.heartbeatIntervalMs
+            },
+            logger));
+        if (purgeAdministration) {
+            const requireAdministrator = this.requireAdministrator.bind(this);
+            router.get('/admin/purge/conditions', applyAllowOrigin, requireAdministrator, getAuthenticate(
+                () => this.listPurgeConditions(),
+                logger
+            ));
+            router.post('/admin/purge/preview', applyAllowOrigin, requireAdministrator, post(
+                parsePurgeRootMessage,
+                (user, message) => this.previewPurge(message),
+                outputJson,
+                logger
+            ));
+            router.post('/admin/purge', applyAllowOrigin, requireAdministrator, post(
+                parsePurgeRootMessage,
+                (user, message) => this.purge(user, message),
+                outputJson,
+                logger
+            ));
+            const archive = purgeAdministration.archive;
+            if (archive) {
+                router.post('/admin/purge/restore', applyAllowOrigin, requireAdministrator, post(
+                    parsePurgeRestoreMessage,
+                    (user, message) => this.restorePurge(user, archive, message),
+                    outputJson,
+                    logger
+                ));
+                // The retention period is configured, so the request has no body.
+                router.post('/admin/purge/expire', applyAllowOrigin, requireAdministrator, post(
+                    () => ({}),
+                    (user) => this.expirePurgeArchive(user, archive),
+                    outputJson,
+                    logger
+                ));
+            }
+        }
 
         // Respond to OPTIONS requests to describe the methods and content types
         // that are supported.
@@ -447,6 +669,25 @@ export class HttpRouter {
         this.setOptions(router, '/feeds/:hash')
             .intendedForGet()
             .returningContent();
+        if (purgeAdministration) {
+            this.setOptions(router, '/admin/purge/conditions')
+                .intendedForGet()
+                .returningContent();
+            this.setOptions(router, '/admin/purge/preview')
+                .intendedForPost('application/json')
+                .returningContent();
+            this.setOptions(router, '/admin/purge')
+                .intendedForPost('application/json')
+                .returningContent();
+            if (purgeAdministration.archive) {
+                this.setOptions(router, '/admin/purge/restore')
+                    .intendedForPost('application/json')
+                    .returningContent();
+                this.setOptions(router, '/admin/purge/expire')
+                    .intendedForPost('application/json')
+                    .returningContent();
+            }
+        }
 
         this.handler = router;
     }
@@ -482,13 +723,10 @@ export class HttpRouter {
             // and a fact whose rule needs a predecessor from an earlier chunk
             // would fail with "The fact <type>:<hash> is not defined." (issue #175).
             const allEnvelopes: FactEnvelope[] = [];
-            await graphSource.read(async (envelopes) => {
-                if (!verifyEnvelopes(envelopes)) {
-                    throw new Forbidden("The signatures on the facts are invalid.");
-                }
-                allEnvelopes.push(...envelopes);
-            });
             try {
+                await graphSource.read(async (envelopes) => {
+                    allEnvelopes.push(...verifySignatures(envelopes, this.signatureVerification, this.logger));
+                });
                 await this.authorization.save(userIdentity, allEnvelopes);
             } catch (error) {
                 throw toSaveAuthorizationError(error, allEnvelopes);
@@ -501,16 +739,19 @@ export class HttpRouter {
      * Uses readStream if available on the authorization object, otherwise falls back to read().
      * 
      * When CSV format is requested, validates that the specification contains only flat projections.
+     * With an asOf query parameter, reads the graph as it stood at that instant.
      */
     private async readWithStreaming(
         user: RequestUser | null, 
         input: string,
-        preProcess: (specification: Specification) => CsvMetadata | undefined
+        preProcess: (specification: Specification) => CsvMetadata | undefined,
+        query: qs.ParsedQs
     ): Promise<{
         resultStream: ResultStream<any>,
         csvMetadata?: CsvMetadata
     }> {
         return Trace.dependency("readWithStreaming", "", async () => {
+            const asOf = parseAsOf(query);
             const knownFacts = await this.getKnownFacts(user);
             const parser = new SpecificationParser(input);
             parser.skipWhitespace();
@@ -527,10 +768,8 @@ export class HttpRouter {
 
             const userIdentity = serializeUserIdentity(user);
             const start = this.selectStart(specification, declaration);
-            const results = await this.authorization.read(userIdentity, start, specification);
-            const extracted = extractResults(results);
-            Trace.counter("facts_read", extracted.count);
-            const resultStream = arrayToResultStream(extracted.result);
+            const results = await this.authorization.readStream(userIdentity, start, specification, asOf);
+            const resultStream = new AsyncIterableResultStream(extractEachResult(results));
 
             return {
                 resultStream,
@@ -562,6 +801,7 @@ export class HttpRouter {
                     signatures: []
                 }));
             try {
+                verifySignatures(envelopes, this.signatureVerification, this.logger);
                 await this.authorization.save(userIdentity, envelopes);
             } catch (error) {
                 // /write reaches the same authorization path as /save, so it
@@ -628,7 +868,10 @@ export class HttpRouter {
                 // not-authenticated) in CI and dashboards without grepping
                 // logs. The human-readable line is retained for correlation.
                 Trace.metric("distribution.unmatched", { [intersectResult.code]: 1 });
-                Trace.warn(`/feeds accepting spec without applicable distribution rule (${intersectResult.code}): ${intersectResult.reason}`);
+                this.logger.warn(`/feeds accepting spec without applicable distribution rule: ${intersectResult.reason}`, {
+                    code: intersectResult.code,
+                    user: user?.id ?? null
+                });
                 branches = [{ start, specification }];
                 intersected = false;
             } else {
@@ -680,7 +923,7 @@ export class HttpRouter {
                     [g.label.name]: branch.start[index]
                 }), {} as ReferencesByName);
                 const branchFeeds = buildFeeds(branch.specification);
-                const branchHashes = this.feedCache.addFeeds(branchFeeds, branchNamedStart);
+                const branchHashes = await this.feedDefinitions.addFeeds(branchFeeds, branchNamedStart);
                 feedHashes.push(...branchHashes);
                 for (const hash of branchHashes) {
                     decisions.push({
@@ -698,7 +941,7 @@ export class HttpRouter {
                         // owner's user fact in its start — to fetch
                         // facts authorized for that owner.
                         //
-                        // The map allows only one owner per hash, which
+                        // The store allows only one owner per hash, which
                         // relies on the invariant that intersected specs
                         // bind the requesting user's fact into start —
                         // making the hash user-specific. If two distinct
@@ -706,11 +949,14 @@ export class HttpRouter {
                         // invariant has broken in intersectForSubscribe;
                         // warn so we notice instead of silently
                         // overwriting.
-                        const existing = this.intersectedFeedOwners.get(hash);
+                        const existing = await this.feedDefinitions.bindOwner(hash, ownerKey);
                         if (existing !== undefined && existing !== ownerKey) {
-                            Trace.warn(`Intersected feed hash ${hash} re-bound from owner ${existing} to ${ownerKey}; intersection invariant may be broken`);
+                            this.logger.warn("Intersected feed hash re-bound to a different owner; intersection invariant may be broken", {
+                                feedHash: hash,
+                                previousOwner: existing,
+                                owner: ownerKey
+                            });
                         }
-                        this.intersectedFeedOwners.set(hash, ownerKey);
                     }
                 }
             }
@@ -725,21 +971,25 @@ export class HttpRouter {
     private async queryFeed(
         feedHash: string,
         userIdentity: UserIdentity | null,
-        specification: Specification,
+        feedDefinition: FeedDefinition,
         start: FactReference[],
-        bookmark: string
+        bookmark: string,
+        page: FeedPage
     ): Promise<FeedResult> {
-        const cachedOwner = this.intersectedFeedOwners.get(feedHash);
+        const specification = feedDefinition.feed;
         const requesterOwner = subscriptionOwnerKey(userIdentity);
-        if (cachedOwner !== undefined && cachedOwner === requesterOwner) {
-            const feed = await this.authorization.feedPreVerified(userIdentity, specification, start, bookmark);
-            return { type: "success", feed };
+        if (feedDefinition.owner !== undefined) {
+            if (feedDefinition.owner === requesterOwner) {
+                const feed = await this.authorization.feedPreVerified(userIdentity, specification, start, bookmark, page);
+                return { type: "success", feed };
+            }
+            this.logger.debug("Intersected feed read by a user other than its owner", { feedHash });
         }
         // For everyone else (different user, anonymous mismatch, or a
         // non-intersected hash) go through the normal distribution-checked
         // path. A "denied" result means the streaming / polling caller
         // serves an empty page and keeps the subscription alive.
-        return await this.authorization.feedWithDistribution(userIdentity, specification, start, bookmark);
+        return await this.authorization.feedWithDistribution(userIdentity, specification, start, bookmark, page);
     }
 
     private feed(user: RequestUser | null, params: { [key: string]: string }, query: qs.ParsedQs): Promise<FeedResponse | null> {
@@ -750,7 +1000,7 @@ export class HttpRouter {
                 return null;
             }
 
-            const feedDefinition = await this.feedCache.getFeed(feedHash);
+            const feedDefinition = await this.feedDefinitions.getFeed(feedHash);
             if (!feedDefinition) {
                 // Known route, but the feed hash is unknown or expired. Signal
                 // this distinctly (issue #168 S4) so the client can re-register
@@ -759,10 +1009,11 @@ export class HttpRouter {
             }
 
             const bookmark = query["b"] as string ?? "";
+            const page = parseFeedPage(query, this.maxFeedPageSize);
 
             const userIdentity = serializeUserIdentity(user);
             const start = feedDefinition.feed.given.map(g => feedDefinition.namedStart[g.label.name]);
-            const result = await this.queryFeed(feedHash, userIdentity, feedDefinition.feed, start, bookmark);
+            const result = await this.queryFeed(feedHash, userIdentity, feedDefinition, start, bookmark, page);
             if (result.type === "denied") {
                 // The subscription has been accepted; treat poll-time
                 // distribution failures as an empty page so the client
@@ -782,16 +1033,133 @@ export class HttpRouter {
         });
     }
 
-    private async streamFeed(user: RequestUser | null, params: { [key: string]: string }, query: qs.ParsedQs): Promise<Stream<FeedResponse> | null> {
-        const connectionId = Math.random().toString(36).substring(2, 10);
+    // Admin routes are open only to authenticated users whom the configured
+    // check accepts.
+    private requireAdministrator(req: Request, res: Response, next: NextFunction) {
+        const user = <RequestUser>(req as any).user;
+        if (!user) {
+            res.sendStatus(401);
+            return;
+        }
+        Promise.resolve(this.purgeAdministration!.isAdministrator(user))
+            .then(allowed => {
+                if (allowed) {
+                    next();
+                }
+                else {
+                    sendError(new Forbidden("Administrator access is required."), req, res, this.logger);
+                }
+            })
+            .catch(error => sendError(error, req, res, this.logger));
+    }
+
+    private async listPurgeConditions(): Promise<{ conditions: PurgeConditionDescription[] }> {
+        return { conditions: describePurgeConditions(this.purgeAdministration!.conditions) };
+    }
+
+    private async previewPurge(message: PurgeRootMessage): Promise<{ facts: PurgeTarget[] }> {
+        const facts = await this.purgeAdministration!.store.previewPurgeDescendants(message.purgeRoot, message.triggers);
+        return { facts };
+    }
+
+    private async purge(user: RequestUser, message: PurgeRootMessage): Promise<{ deleted: number[] }> {
+        const deleted = await this.purgeAdministration!.store.purgeDescendantIds(message.purgeRoot, message.triggers);
+        this.logger.info("Purged descendants", {
+            user: user.id,
+            purgeRoot: `${message.purgeRoot.type}:${message.purgeRoot.hash}`,
+            deleted: deleted.length
+        });
+        return { deleted };
+    }
+
+    private async restorePurge(user: RequestUser, archive: PurgeArchive, message: PurgeRestoreMessage): Promise<PurgeRestoreResult> {
+        const result = await archive.store.restoreArchive(message.purgeRoot);
+        const details = {
+            user: user.id,
+            purgeRoot: `${message.purgeRoot.type}:${message.purgeRoot.hash}`,
+            restored: result.restored.length,
+            unrestored: result.unrestored.length
+        };
+        if (result.unrestored.length > 0) {
+            this.logger.warn("Restored archived facts without some of their edges or ancestors", details);
+        }
+        else {
+            this.logger.info("Restored archived facts", details);
+        }
+        return result;
+    }
+
+    private async expirePurgeArchive(user: RequestUser, archive: PurgeArchive): Promise<{ expired: number }> {
+        const expired = await expirePurgeArchive(archive);
+        this.logger.info("Expired archived facts", { user: user.id, expired });
+        return { expired };
+    }
+
+    /**
+     * Stop accepting requests and end every open feed stream. Each stream
+     * receives its end frame, so clients reconnect elsewhere from their last
+     * bookmark. Resolves when the requests already in flight have finished.
+     */
+    async drain(): Promise<void> {
+        this.draining = true;
+        this.logger.info("Draining", { inFlight: this.inFlight, openStreams: this.openStreams.size });
+        for (const stream of [...this.openStreams]) {
+            stream.close();
+        }
+        if (this.inFlight > 0) {
+            await new Promise<void>(resolve => this.idleWaiters.push(resolve));
+        }
+    }
+
+    private admit(req: Request, res: Response, next: NextFunction) {
+        if (this.draining) {
+            // Not handleError: that continues the chain to the routes.
+            res.set("Connection", "close");
+            res.type("text");
+            res.status(503).send("shutting_down");
+            return;
+        }
+        this.inFlight++;
+        res.on("close", () => {
+            this.inFlight--;
+            if (this.inFlight === 0) {
+                const waiters = this.idleWaiters;
+                this.idleWaiters = [];
+                waiters.forEach(resolve => resolve());
+            }
+        });
+        next();
+    }
 
+    private async streamFeed(user: RequestUser | null, params: { [key: string]: string }, query: qs.ParsedQs): Promise<Stream<FeedResponse> | null> {
         const feedHash = params["hash"];
         if (!feedHash) {
             // No hash in the route at all — a wrong URL, not a feed lookup.
             return null;
         }
 
-        const feedDefinition = await this.feedCache.getFeed(feedHash);
+        const bookmark = query["b"] as string ?? "";
+        const page = parseFeedPage(query, this.maxFeedPageSize);
+        if (page.upperBookmark !== undefined) {
+            // A stream follows the feed as it grows, so it has no end to bound.
+            throw new Invalid("The until parameter is not supported on a feed stream.");
+        }
+        return await this.openFeedStream(user, feedHash, bookmark, page.limit);
+    }
+
+    /**
+     * Start a streaming session for a registered feed, resuming from the
+     * given bookmark. The session runs until the returned stream is closed.
+     * Throws FeedNotFound if the hash is unknown or has expired, and
+     * ShuttingDown once the router is draining.
+     */
+    async openFeedStream(user: RequestUser | null, feedHash: string, bookmark: string, pageSize?: number): Promise<Stream<FeedResponse>> {
+        if (this.draining) {
+            throw new ShuttingDown();
+        }
+        const connectionId = Math.random().toString(36).substring(2, 10);
+
+        const feedDefinition = await this.feedDefinitions.getFeed(feedHash);
         if (!feedDefinition) {
             // Known route, but the feed hash is unknown or expired. Signal
             // this distinctly (issue #168 S4) so the client can re-register
@@ -799,13 +1167,12 @@ export class HttpRouter {
             throw new FeedNotFound(feedHash);
         }
 
-        const bookmark = query["b"] as string ?? "";
-
         const userIdentity = serializeUserIdentity(user);
         const start = feedDefinition.feed.given.map(g => feedDefinition.namedStart[g.label.name]);
         const givenHash = computeObjectHash(feedDefinition.namedStart);
 
-        const stream = new Stream<FeedResponse>();
+        const log = withFields(this.logger, { feedHash, user: user?.id ?? null });
+        const stream = new Stream<FeedResponse>(log);
 
         // The session serializes every fetch and stream operation through a
         // single bookmark-driven query cycle. Inverse and anchor observers
@@ -814,7 +1181,7 @@ export class HttpRouter {
         // listener callbacks and bookmark mutation, guarantees tuple
         // completeness, and ensures no update is lost between pages.
         const session = new FeedStreamSession(
-            (b: string) => this.queryFeed(feedHash, userIdentity, feedDefinition.feed, start, b),
+            (b: string) => this.queryFeed(feedHash, userIdentity, feedDefinition, start, b, { limit: pageSize }),
             this.factManager,
             feedDefinition,
             start,
@@ -822,10 +1189,18 @@ export class HttpRouter {
             stream,
             bookmark,
             connectionId,
-            this.feedStreamConfig
+            this.feedStreamConfig,
+            log
         );
 
         stream.done(() => session.dispose());
+        this.openStreams.add(stream);
+        stream.done(() => this.openStreams.delete(stream));
+        if (this.metrics) {
+            const metrics = this.metrics;
+            metrics.feedStreamOpened();
+            stream.done(() => metrics.feedStreamClosed());
+        }
         session.start();
 
         return stream;
@@ -965,6 +1340,35 @@ function parseString(input: any): string {
     return input;
 }
 
+// Extract each result as it is read, and count the facts once the read
+// finishes or is abandoned.
+async function* extractEachResult(results: AsyncIterable<ProjectedResult>): AsyncIterable<any> {
+    // Iterate by hand rather than with for-await: compiled for ES6, for-await
+    // does not return the source when this generator is closed early, and the
+    // source must be returned to release its database connection.
+    const iterator = results[Symbol.asyncIterator]();
+    let count = 0;
+    let exhausted = false;
+    try {
+        while (true) {
+            const next = await iterator.next();
+            if (next.done) {
+                exhausted = true;
+                break;
+            }
+            const extracted = extractResults([next.value]);
+            count += extracted.count;
+            yield extracted.result[0];
+        }
+    }
+    finally {
+        if (!exhausted && iterator.return) {
+            await iterator.return();
+        }
+        Trace.counter("facts_read", count);
+    }
+}
+
 function extractResults(obj: any): { result: any, count: number } {
     if (Array.isArray(obj)) {
         const projectedResults: ProjectedResult[] = obj;
@@ -1002,6 +1406,15 @@ export class FeedNotFound extends Error {
     }
 }
 
+// Raised for work that arrives after the router has begun to drain.
+// handleError maps this to a 503 so the client retries on another server.
+export class ShuttingDown extends Error {
+    constructor() {
+        super("Server is shutting down");
+        this.name = "ShuttingDown";
+    }
+}
+
 // Both message shapes below are matched by prose, because jinaga reports a
 // missing predecessor as a plain Error. That is fragile: an upstream wording
 // change silently turns these back into 500s (issue #182 finding 5). The
@@ -1059,6 +1472,11 @@ function toSaveAuthorizationError(error: any, envelopes: FactEnvelope[]): any {
         );
     }
 
+    if (error instanceof InvalidSignature) {
+        Trace.warn(`Save rejected: ${error.message} Among ${describeBatch()}.`);
+        return new Invalid(error.message);
+    }
+
     const notDefined = FACT_NOT_DEFINED_PATTERN.exec(error.message);
     if (notDefined) {
         const [, factType, factHash] = notDefined;
@@ -1128,12 +1546,13 @@ function parseRequestInput<T>(
     parse: () => T,
     req: Request,
     res: Response,
-    next: NextFunction
+    next: NextFunction,
+    logger: Logger
 ): { ok: true, value: T } | { ok: false } {
     try {
         return { ok: true, value: parse() };
     } catch (error) {
-        handleError(toInvalidInput(error), req, res, next);
+        handleError(toInvalidInput(error), req, res, next, logger);
         return { ok: false };
     }
 }
@@ -1165,33 +1584,47 @@ function sanitizeErrorBody(message: string): string {
     return message.replace(/[&<>]/g, character => HTML_META_CHARACTERS[character]);
 }
 
-function handleError(error: any, req: Request, res: Response, next: NextFunction) {
-    const requestPath = req.path;
+function handleError(error: any, req: Request, res: Response, next: NextFunction, logger: Logger) {
+    sendError(error, req, res, logger);
+    next();
+}
+
+// Middleware that refuses a request answers with this and does not call next,
+// so that the route handler never runs.
+function sendError(error: any, req: Request, res: Response, logger: Logger) {
     // Error bodies are plain text built partly from client-supplied input, so
     // stop a browser from sniffing one as markup.
     res.set("X-Content-Type-Options", "nosniff");
+    const { status, body } = describeError(error, req.path, logger);
+    res.type("text");
+    res.status(status).send(body);
+}
+
+/**
+ * Classify an error into the status and body reported to the client, and
+ * trace it. Shared by the HTTP routes and the feed WebSocket.
+ */
+export function describeError(error: any, requestPath: string, logger: Logger): { status: number, body: string } {
     if (error instanceof FeedNotFound) {
-        Trace.warn(`Feed not found: ${error.feedHash} (Path: ${requestPath})`);
-        res.type("text");
-        res.status(404).send("feed_not_found");
+        logger.warn("Feed not found", { feedHash: error.feedHash, path: requestPath });
+        return { status: 404, body: "feed_not_found" };
+    } else if (error instanceof ShuttingDown) {
+        logger.debug("Rejected while shutting down", { path: requestPath });
+        return { status: 503, body: "shutting_down" };
     } else if (error instanceof Forbidden) {
-        Trace.warn(`Forbidden: ${error.message} (Path: ${requestPath})`);
-        res.type("text");
-        res.status(403).send(sanitizeErrorBody(error.message));
+        logger.warn(`Forbidden: ${error.message}`, { path: requestPath });
+        return { status: 403, body: sanitizeErrorBody(error.message) };
     } else if (error instanceof Invalid) {
-        Trace.warn(`Invalid: ${error.message} (Path: ${requestPath})`);
-        res.type("text");
-        res.status(400).send(sanitizeErrorBody(error.message));
+        logger.warn(`Invalid: ${error.message}`, { path: requestPath });
+        return { status: 400, body: sanitizeErrorBody(error.message) };
     } else {
         // Classification above is an allow-list, so anything reaching here is
         // unclassified — including genuine internal failures whose message can
         // name internal hosts or credentials. Keep the detail in the trace and
         // send a generic body to the caller (issue #182 finding 4).
-        Trace.error(`Error: ${error.message} (Path: ${requestPath})`);
-        res.type("text");
-        res.status(500).send("Internal server error");
+        logger.error(`Error: ${error.message}`, { path: requestPath, error });
+        return { status: 500, body: "Internal server error" };
     }
-    next();
 }
 
 interface OptionsConfiguration {
@@ -0,0 +1,54 @@
+import { FactEnvelope, FactSignature, verifyEnvelopes } from "jinaga";
+
+import { Logger } from "../logger";
+
+/**
+ * How /save and /write treat a signature that does not verify. "strict"
+ * rejects the request. "permissive" saves the fact without that signature.
+ * A fact whose hash does not match its content is rejected either way.
+ */
+export type SignatureVerificationMode = "strict" | "permissive";
+
+export class InvalidSignature extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InvalidSignature";
+    }
+}
+
+/**
+ * Check each fact against its hash, and each signature against its public
+ * key and the fact. Returns the envelopes to save: in permissive mode,
+ * without the signatures that did not verify.
+ */
+export function verifySignatures(envelopes: FactEnvelope[], mode: SignatureVerificationMode, logger: Logger): FactEnvelope[] {
+    return envelopes.map(envelope => {
+        const fact = envelope.fact;
+        if (!verifyEnvelopes([{ fact, signatures: [] }])) {
+            throw new InvalidSignature(`The hash of the fact ${fact.type}:${fact.hash} does not match its content.`);
+        }
+        const valid = envelope.signatures.filter(signature => verifySignature(envelope, signature));
+        if (valid.length === envelope.signatures.length) {
+            return envelope;
+        }
+        if (mode === "strict") {
+            throw new InvalidSignature(`A signature on the fact ${fact.type}:${fact.hash} is invalid for its public key.`);
+        }
+        logger.warn("Dropping invalid signatures", {
+            factType: fact.type,
+            factHash: fact.hash,
+            dropped: envelope.signatures.length - valid.length
+        });
+        return { fact, signatures: valid };
+    });
+}
+
+export function verifySignature(envelope: FactEnvelope, signature: FactSignature): boolean {
+    try {
+        return verifyEnvelopes([{ fact: envelope.fact, signatures: [signature] }]);
+    }
+    catch {
+        // The public key is not a PEM that can be parsed.
+        return false;
+    }
+}
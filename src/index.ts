@@ -1,13 +1,44 @@
 export { AuthenticationDevice } from "./authentication/authentication-device";
 export { AuthenticationSession } from "./authentication/authentication-session";
 export { AuthorizationKeystore } from "./authorization/authorization-keystore";
-export { DistributedFactCache } from "./authorization/distributed-fact-cache";
+export { defaultDistributedFactCacheConfig, DistributedFactCache, DistributedFactCacheConfig, DistributedFactRegistry, MemoryDistributedFactCache, toDistributedFactRegistry } from "./authorization/distributed-fact-cache";
+export { findRevokedKeys, identityFact, IdentityType, keyRevocationFact, keyRotationFact } from "./authorization/key-revocation";
+export { FeedDefinition, FeedDefinitionStore, MemoryFeedDefinitionStore } from "./feeds/feed-definition-store";
 export { FeedStreamSession, FeedStreamSessionConfig, defaultFeedStreamSessionConfig } from "./feeds/feed-stream-session";
+export { defaultImportBatchSize, exportGraph, GraphExportStorage, GraphImportResult, importGraph } from "./graph-transfer";
+export { ComponentHealth, ComponentStatus, defaultHealthCheckConfig, distributedFactTables, feedDefinitionTables, HealthCheck, HealthCheckConfig, HealthComponent, PostgresSchemaCheck, QueueBacklogCheck, ReadinessReport, UpstreamCheck } from "./health/health-check";
+export { FeedSocketMessage, FeedSocketRequest, FeedWebSocketHandler, WebSocketAuthenticator } from "./http/feed-websocket-handler";
 export { createLineReader } from "./http/line-reader";
-export { FeedNotFound, HttpRouter, RequestUser } from "./http/router";
+export { defaultMaxFeedPageSize, FeedNotFound, FeedStreamFrame, HttpRouter, RequestUser, ShuttingDown } from "./http/router";
+export { InvalidSignature, SignatureVerificationMode, verifySignatures } from "./http/signature-verification";
 export { Stream } from "./http/stream";
-export { JinagaServer, JinagaServerConfig, JinagaServerInstance, tracePool } from "./jinaga-server";
-export { Keystore } from "./keystore";
+export { JinagaServer, JinagaServerConfig, JinagaServerInstance, prepareDatabase, SessionOptions, tracePool } from "./jinaga-server";
+export { KeyPairRotation, Keystore } from "./keystore";
+export { DecryptedPrivateKey, isEncryptedPrivateKey, MasterKey, MasterKeyConfig, MasterKeyProvider, PrivateKeyEncryption, StaticMasterKeyProvider } from "./keystore-encryption";
+export { defaultLogger, LogFields, Logger, LogLevel, TraceLogger, withFields } from "./logger";
 export { MemoryKeystore } from "./memory/memory-keystore";
+export { Counter, Gauge, Histogram, Labels, MetricsRegistry } from "./metrics/metrics-registry";
+export { ServerMetrics } from "./metrics/server-metrics";
+export { feedPage, FeedPage, PagedFeedStorage } from "./paged-feed-storage";
+export { FactNotificationConfig, factNotificationChannel, PostgresFactListener } from "./postgres/fact-notifications";
+export { keystoreMigrations, latestVersion, Migration, MigrationSet, storeMigrations } from "./postgres/migrations";
+export { PostgresDistributedFactCache } from "./postgres/postgres-distributed-fact-cache";
+export { defaultFeedDefinitionTtlMs, PostgresFeedDefinitionStore } from "./postgres/postgres-feed-definition-store";
 export { PostgresKeystore } from "./postgres/postgres-keystore";
-export { PostgresStore } from "./postgres/postgres-store";
\ No newline at end of file
+export { PostgresQueue } from "./postgres/postgres-queue";
+export { PostgresStore } from "./postgres/postgres-store";
+export { PostgresStoreAsOf } from "./postgres/postgres-store-as-of";
+export { SchemaMigrator } from "./postgres/schema-migrator";
+export { AdministratorCheck, describePurgeConditions, isPurgeRootStorage, parsePurgeRestoreMessage, parsePurgeRootMessage, PurgeAdministration, PurgeConditionDescription, PurgeRestoreMessage, PurgeRootMessage, PurgeRootStorage, PurgeTarget } from "./purge/purge-administration";
+export { expirePurgeArchive, isPurgeArchiveStorage, PurgeArchive, PurgeArchiveConfig, PurgeArchiveStorage, PurgeRestoreResult, UnrestoredLink } from "./purge/purge-archive";
+export { defaultPurgeScheduleConfig, isPurgeStorage, PurgeConditionResult, purgeConditionName, PurgePreview, PurgeScheduleConfig, PurgeScheduler, PurgeStorage } from "./purge/purge-scheduler";
+export { InvalidToken, JwtAuthentication, JwtAuthenticationConfig } from "./replicator/jwt-authentication";
+export { createReplicator, prepareReplicatorDatabase, Replicator, replicatorServerConfig, runReplicator } from "./replicator/replicator";
+export { defaultReplicatorConfig, loadReplicatorConfig, parseReplicatorArguments, ReplicatorArguments, ReplicatorConfig, replicatorUsage } from "./replicator/replicator-config";
+export { loadRulesFile, parseRules, ReplicatorRules, rulesConfig } from "./replicator/rules-file";
+export { readStream, StreamingStorage } from "./streaming-storage";
+export { isTimeTravelStorage, storeAsOf, TimeTravelStorage } from "./time-travel-storage";
+export { FailoverNetwork, UpstreamNetwork } from "./upstream/failover-network";
+export { FanOutFork } from "./upstream/fan-out-fork";
+export { SigningFork } from "./upstream/signing-fork";
+export { createUpstreamAuthenticationProvider, UpstreamAuthenticationConfig } from "./upstream/upstream-authentication";
\ No newline at end of file
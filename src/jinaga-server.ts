@@ -1,4 +1,5 @@
 import { Handler, Request } from "express";
+import { IncomingMessage } from "http";
 import {
     AuthenticationNoOp,
     Authorization,
@@ -8,7 +9,7 @@ import {
     FactFeed,
     FactManager,
     FactReference,
-    FeedCache,
+    factReferenceEquals,
     FetchConnection,
     Fork,
     HttpNetwork,
@@ -21,6 +22,7 @@ import {
     ObservableSourceImpl,
     PassThroughFork,
     PersistentFork,
+    ProjectedResult,
     PurgeConditions,
     ReferencesByName,
     Specification,
@@ -33,16 +35,55 @@ import {
     WebClient
 } from "jinaga";
 import { Pool } from "pg";
+import { Duplex } from "stream";
 
 import { AuthenticationDevice } from "./authentication/authentication-device";
 import { AuthenticationSession } from "./authentication/authentication-session";
-import { AuthorizationKeystore, DistributionBranchesResult, FeedResult, SubscriptionAuthorizer } from "./authorization/authorization-keystore";
+import { AuthorizationKeystore, DistributionBranchesResult, FeedResult, refuseNoncompliantSpecification, SubscriptionAuthorizer } from "./authorization/authorization-keystore";
+import { DistributedFactCache, DistributedFactRegistry, MemoryDistributedFactCache, toDistributedFactRegistry } from "./authorization/distributed-fact-cache";
+import { FeedDefinitionStore, MemoryFeedDefinitionStore } from "./feeds/feed-definition-store";
 import { FeedStreamSessionConfig } from "./feeds/feed-stream-session";
+import { exportGraph, GraphImportResult, importGraph } from "./graph-transfer";
+import {
+    defaultHealthCheckConfig,
+    distributedFactTables,
+    feedDefinitionTables,
+    HealthCheck,
+    HealthCheckConfig,
+    HealthComponent,
+    keystoreTables,
+    PostgresSchemaCheck,
+    QueueBacklogCheck,
+    storeTables,
+    UpstreamCheck
+} from "./health/health-check";
+import { FeedWebSocketHandler, WebSocketAuthenticator } from "./http/feed-websocket-handler";
+import { createLineReader } from "./http/line-reader";
 import { HttpRouter, RequestUser } from "./http/router";
+import { SignatureVerificationMode } from "./http/signature-verification";
 import { Keystore } from "./keystore";
+import { MasterKeyConfig, MasterKeyProvider, StaticMasterKeyProvider } from "./keystore-encryption";
+import { defaultLogger, Logger } from "./logger";
+import { ServerMetrics, unwrapMetricsTracer } from "./metrics/server-metrics";
+import { feedPage, FeedPage } from "./paged-feed-storage";
+import { FactNotificationConfig, factNotificationChannel, PostgresFactListener } from "./postgres/fact-notifications";
+import { keystoreMigrations, MigrationSet, storeMigrations } from "./postgres/migrations";
+import { PostgresDistributedFactCache } from "./postgres/postgres-distributed-fact-cache";
+import { PostgresFeedDefinitionStore } from "./postgres/postgres-feed-definition-store";
 import { PostgresKeystore } from "./postgres/postgres-keystore";
 import { PostgresQueue } from "./postgres/postgres-queue";
 import { PostgresStore } from "./postgres/postgres-store";
+import { SchemaMigrator } from "./postgres/schema-migrator";
+import { AdministratorCheck, isPurgeRootStorage, PurgeAdministration } from "./purge/purge-administration";
+import { isPurgeArchiveStorage, PurgeArchive, PurgeArchiveConfig } from "./purge/purge-archive";
+import { isPurgeStorage, PurgeScheduleConfig, PurgeScheduler } from "./purge/purge-scheduler";
+import { readStream } from "./streaming-storage";
+import { storeAsOf } from "./time-travel-storage";
+import { FailoverNetwork } from "./upstream/failover-network";
+import { FanOutFork } from "./upstream/fan-out-fork";
+import { SigningFork } from "./upstream/signing-fork";
+import { createUpstreamAuthenticationProvider, UpstreamAuthenticationConfig } from "./upstream/upstream-authentication";
+import { withTimeout } from "./util/promise";
 
 
 export type JinagaServerConfig = {
@@ -50,58 +91,279 @@ export type JinagaServerConfig = {
     pgStoreSchema?: string,
     pgKeystore?: string | Pool,
     pgKeystoreSchema?: string,
+    /**
+     * Master keys that encrypt the private keys stored in pgKeystore,
+     * either as base64-encoded 32-byte keys or from a MasterKeyProvider.
+     * Plaintext private keys are encrypted as they are read. To rotate,
+     * add a new key, make it current, and keep the old one until every
+     * private key has been rewrapped.
+     */
+    keystoreMasterKeys?: MasterKeyConfig | MasterKeyProvider,
+    /**
+     * Have JinagaServer.start create and upgrade the tables of pgStore and
+     * pgKeystore in their schemas. Without it, start refuses to create the
+     * server while either schema is behind this version. JinagaServer.create
+     * prepares nothing, and throws when this is set.
+     */
+    migrateSchema?: boolean,
+    /**
+     * Replicators that this server synchronizes with. Saved facts are pushed
+     * to every upstream. Feeds and loads go to the first reachable upstream,
+     * failing over in the order listed.
+     */
     upstreamReplicators?: string[],
+    /**
+     * Credentials presented to the upstream replicators. When omitted,
+     * requests to upstreams are anonymous.
+     */
+    upstreamAuthentication?: UpstreamAuthenticationConfig,
     httpTimeoutSeconds?: number,
     queueProcessingDelayMs?: number,
     model?: Model,
     authorization?: (a: AuthorizationRules) => AuthorizationRules,
     distribution?: (d: DistributionRules) => DistributionRules,
     purgeConditions?: (p: PurgeConditions) => PurgeConditions,
+    /**
+     * Run the purge conditions against pgStore on an interval, in bounded
+     * batches. With dryRun, each run only counts and logs what it would
+     * delete. See PurgeScheduleConfig for the settings and defaults. When
+     * omitted, purges run only when a client asks for them.
+     */
+    purgeSchedule?: Partial<PurgeScheduleConfig>,
+    /**
+     * Move purged facts, with their edges, ancestors and signatures, into
+     * archive tables instead of deleting them. Scheduled purges expire the
+     * rows archived longer than retentionMs ago, and the admin routes add
+     * POST /admin/purge/restore and /admin/purge/expire. Requires pgStore.
+     */
+    purgeArchive?: PurgeArchiveConfig,
+    /**
+     * Decides which authenticated users may use the admin routes:
+     * GET /admin/purge/conditions, and POST /admin/purge/preview and
+     * /admin/purge to inspect and run the purge of one purge root. The
+     * routes are served only when this is set. Requires pgStore.
+     */
+    isAdministrator?: AdministratorCheck,
     origin?: string | string[] | ((origin: string, callback: (err: Error | null, allow?: boolean) => void) => void),
     /**
-     * Tuning for the per-connection feed streaming session
-     * (/feeds/:hash with Accept: application/x-jinaga-feed-stream).
+     * Tuning for streamed feeds (/feeds/:hash with Accept:
+     * application/x-jinaga-feed-stream or text/event-stream): the
+     * per-connection session, the stream lifetime, and heartbeats.
      * See FeedStreamSessionConfig for the available limits and defaults.
      */
-    feedStream?: Partial<FeedStreamSessionConfig>
+    feedStream?: Partial<FeedStreamSessionConfig>,
+    /**
+     * The largest page a client may request with the limit parameter of
+     * GET /feeds/:hash. Larger requests are served this many tuples.
+     * Defaults to 1000.
+     */
+    maxFeedPageSize?: number,
+    /**
+     * How /save and /write treat a fact signature that does not verify
+     * against its public key. "strict", the default, rejects the request
+     * with 400. "permissive" saves the fact without that signature.
+     */
+    signatureVerification?: SignatureVerificationMode,
+    /**
+     * Where feeds registered through POST /feeds are kept. "memory", the
+     * default, keeps them on this node, so after a restart or on another
+     * node GET /feeds/:hash answers feed_not_found. "postgres" keeps them in
+     * the feed_definition table of the store schema, so that any node
+     * sharing the database can serve any registered hash. Any other
+     * FeedDefinitionStore may be supplied instead.
+     */
+    feedDefinitions?: "memory" | "postgres" | FeedDefinitionStore,
+    /**
+     * How long Postgres keeps a registered feed after it was last
+     * registered. Defaults to 24 hours.
+     */
+    feedDefinitionTtlMs?: number,
+    /**
+     * Where the facts distributed through feeds are remembered, so that
+     * /load serves them to the users who received them. "memory", the
+     * default, remembers them on this node only. "postgres" keeps them in
+     * the distributed_fact table of the store schema, so that a client may
+     * load from any node the facts it received from another. Any other
+     * DistributedFactRegistry, or a DistributedFactCache, may be supplied
+     * instead.
+     */
+    distributedFacts?: "memory" | "postgres" | DistributedFactRegistry | DistributedFactCache,
+    /**
+     * How long after a fact was distributed it may be loaded, in
+     * milliseconds. Defaults to 5 minutes.
+     */
+    distributedFactWindowMs?: number,
+    /**
+     * The most fact references the in-memory cache of distributed facts
+     * holds before it forgets the oldest. Defaults to 100000.
+     */
+    maxDistributedFacts?: number,
+    /**
+     * Announce the facts saved on this node through Postgres NOTIFY, and
+     * listen for the facts saved by other nodes sharing the store, so that
+     * feed streams and specification listeners on every node learn of them.
+     * Each node holds one store connection for listening. Requires pgStore.
+     */
+    clusterNotifications?: boolean,
+    /**
+     * Identifies the user behind a feed WebSocket upgrade. Without it,
+     * WebSocket subscriptions are anonymous.
+     */
+    authenticateWebSocket?: WebSocketAuthenticator,
+    /**
+     * Receives the server's diagnostic logs. Defaults to a TraceLogger at
+     * info level; per-request stream diagnostics are logged at debug.
+     */
+    logger?: Logger,
+    /**
+     * Collect request latency, feed stream, session and Postgres pool
+     * metrics, and serve them from JinagaServerInstance.metricsHandler.
+     */
+    metrics?: boolean,
+    /**
+     * Thresholds for the readiness probe served from
+     * JinagaServerInstance.readinessHandler.
+     */
+    health?: Partial<HealthCheckConfig>,
+    /**
+     * How long close() may spend draining requests and flushing the
+     * upstream queues before it ends the Postgres pools anyway. Defaults to
+     * 10 seconds.
+     */
+    shutdownDeadlineMs?: number
+};
+
+export type SessionOptions = {
+    /**
+     * Query the graph as it stood at this instant: facts learned later are
+     * left out. The session is read-only. Requires pgStore.
+     */
+    asOf?: Date
 };
 
 export type JinagaServerInstance = {
     handler: Handler,
     j: Jinaga,
     factManager: FactManager,
-    withSession: (req: Request, callback: ((j: Jinaga) => Promise<void>)) => Promise<void>,
+    withSession: (req: Request, callback: ((j: Jinaga) => Promise<void>), options?: SessionOptions) => Promise<void>,
+    /**
+     * Serves feed subscriptions multiplexed over a WebSocket. Call from the
+     * HTTP server's "upgrade" event for the path of your choosing.
+     */
+    handleUpgrade: (request: IncomingMessage, socket: Duplex, head: Buffer) => void,
+    /**
+     * Serves the collected metrics in the Prometheus text exposition format.
+     * Present only when metrics are enabled in the configuration.
+     */
+    metricsHandler?: Handler,
+    /**
+     * Responds 200 while the process is serving requests.
+     */
+    livenessHandler: Handler,
+    /**
+     * Checks Postgres connectivity and schema for the store and keystore,
+     * the backlog of each upstream queue, and upstream reachability.
+     * Responds 200 when no component is down and 503 otherwise, with the
+     * status of each component in the JSON body. A store or keystore schema
+     * that is behind this version is reported down. An unreachable upstream
+     * is reported degraded and does not fail readiness.
+     */
+    readinessHandler: Handler,
+    /**
+     * Export every fact in the store, or the given facts and all of their
+     * predecessors, in the application/x-jinaga-graph-v1 format accepted by
+     * /save and importGraph. Predecessors come before their successors.
+     * Exporting every fact requires pgStore.
+     */
+    exportGraph: (start?: FactReference[]) => AsyncIterable<string>,
+    /**
+     * Load a stream in the application/x-jinaga-graph-v1 format, such as an
+     * export from another environment, straight into the store in batched
+     * transactions. Authorization, listeners and upstreams are bypassed.
+     */
+    importGraph: (input: NodeJS.ReadableStream, batchSize?: number) => Promise<GraphImportResult>,
+    /**
+     * Shut down gracefully: report not ready, refuse new requests, send an
+     * end frame to every open feed stream, wait for in-flight requests and
+     * flush the upstream queues, then end the Postgres pools.
+     */
     close: () => Promise<void>
 };
 
+const defaultShutdownDeadlineMs = 10 * 1000;
+
 const localDeviceIdentity = {
     provider: 'jinaga',
     id: 'local'
 };
 
 export class JinagaServer {
+    /**
+     * Prepare the database, then create the server. With migrateSchema,
+     * pending migrations are applied first. Otherwise, rejects if the
+     * store or keystore schema is behind.
+     */
+    static async start(config: JinagaServerConfig): Promise<JinagaServerInstance> {
+        await prepareDatabase(config);
+        return JinagaServer.build(config);
+    }
+
+    /**
+     * Create the server without preparing the database. Throws when
+     * migrateSchema is set, since only start applies the migrations. A
+     * schema that is behind is not refused here; it fails readiness.
+     */
     static create(config: JinagaServerConfig): JinagaServerInstance {
+        if (config.migrateSchema) {
+            throw new Error("JinagaServer.create does not migrate the schema. Use JinagaServer.start, which applies the migrations before creating the server.");
+        }
+        return JinagaServer.build(config);
+    }
+
+    private static build(config: JinagaServerConfig): JinagaServerInstance {
         const syncStatusNotifier = new SyncStatusNotifier();
         const pools: { [uri: string]: Pool } = {};
         const pool = makePool(config, pools);
         const schema = validateSchema(config.pgStoreSchema);
-        const store = createStore(pool, schema);
+        const logger = config.logger || defaultLogger;
+        const metrics = config.metrics ? createMetrics(config, pool, pools) : null;
+        const notifications = createFactNotifications(config, pool, schema);
+        const store = createStore(config, pool, schema, logger, notifications);
         const source = new ObservableSourceImpl(store);
-        const webClient = createWebClient(config, syncStatusNotifier);
-        const fork = createFork(config, webClient, store, pool, schema);
-        const keystore = createKeystore(config, pools);
+        const upstreams = createUpstreams(config, syncStatusNotifier, pool, schema, logger);
+        const keystore = createKeystore(config, pools, logger);
+        const fork = createFork(config, upstreams, store, keystore);
         const authorizationRules = config.authorization ? config.authorization(new AuthorizationRules(config.model)) : null;
         const distributionRules = config.distribution ? config.distribution(new DistributionRules([])) : null;
-        const feedCache = new FeedCache();
+        const feedDefinitions = createFeedDefinitions(config, pool, schema, logger);
+        const distributedFacts = createDistributedFacts(config, pool, schema, logger);
         const authentication = createAuthentication(store, keystore, authorizationRules);
-        const network = createNetwork(webClient);
+        const network = createNetwork(upstreams);
         const purgeConditions = createPurgeConditions(config);
         const factManager = new FactManager(fork, source, store, network, purgeConditions);
-        const authorization = createAuthorization(authorizationRules, distributionRules, factManager, store, keystore);
-        const router = new HttpRouter(factManager, authorization, feedCache, config.origin || '*', config.feedStream || {});
+        const authorization = createAuthorization(authorizationRules, distributionRules, factManager, store, keystore, distributedFacts);
+        const purgeArchive = createPurgeArchive(config, store);
+        const purgeAdministration = createPurgeAdministration(config, store, purgeConditions, purgeArchive);
+        const router = new HttpRouter(factManager, authorization, feedDefinitions, config.origin || '*', config.feedStream || {}, logger, metrics, config.maxFeedPageSize, config.signatureVerification, purgeAdministration);
+        const webSocketHandler = new FeedWebSocketHandler(router, config.authenticateWebSocket, logger);
+        const factListener = pool && notifications
+            ? createFactListener(pool, notifications, store, source, logger)
+            : null;
         const j: Jinaga = new Jinaga(authentication, factManager, syncStatusNotifier);
+        const healthCheck = createHealthCheck(config, pool, schema, pools, upstreams, logger);
+        const purgeScheduler = createPurgeScheduler(config, store, purgeConditions, purgeArchive, logger);
 
         async function close() {
+            const deadline = Date.now() + (config.shutdownDeadlineMs ?? defaultShutdownDeadlineMs);
+            healthCheck.markShuttingDown();
+            await untilDeadline(purgeScheduler?.stop() ?? Promise.resolve(), deadline, "scheduled purge", logger);
+            await untilDeadline(router.drain(), deadline, "in-flight requests", logger);
+            await webSocketHandler.close();
+            await factListener?.close();
+            await untilDeadline(factManager.close(), deadline, "upstream queue", logger);
+            if (metrics) {
+                Trace.configure(unwrapMetricsTracer(Trace.getTracer()));
+            }
             for (const pool of Object.values(pools)) {
                 await pool.end();
             }
@@ -110,14 +372,64 @@ export class JinagaServer {
             handler: router.handler,
             j,
             factManager,
-            withSession: (req, callback) => {
-                return withSession(store, keystore, authorizationRules, purgeConditions, req, callback);
+            withSession: (req, callback, options = {}) => {
+                return withSession(store, keystore, authorizationRules, purgeConditions, req, callback, options);
             },
+            handleUpgrade: (request, socket, head) => webSocketHandler.handleUpgrade(request, socket, head),
+            metricsHandler: metrics?.handler,
+            livenessHandler: healthCheck.livenessHandler,
+            readinessHandler: healthCheck.readinessHandler,
+            exportGraph: start => exportGraph(store, start),
+            importGraph: (input, batchSize) => importGraph(store, createLineReader(input), batchSize),
             close
         }
     }
 }
 
+async function untilDeadline(operation: Promise<void>, deadline: number, waitingFor: string, logger: Logger) {
+    try {
+        await withTimeout(operation, Math.max(0, deadline - Date.now()), `Shutdown deadline passed waiting for ${waitingFor}`);
+    }
+    catch (error) {
+        logger.warn("Shutdown incomplete", { waitingFor, error });
+    }
+}
+
+/**
+ * Migrate the store and keystore schemas when migrateSchema is set, or else
+ * verify that they are up to date.
+ */
+export async function prepareDatabase(config: Pick<JinagaServerConfig, "pgStore" | "pgStoreSchema" | "pgKeystore" | "pgKeystoreSchema" | "migrateSchema" | "logger">): Promise<void> {
+    if (config.pgStore) {
+        await prepareSchema(config.pgStore, validateSchema(config.pgStoreSchema), storeMigrations, config);
+    }
+    if (config.pgKeystore) {
+        await prepareSchema(config.pgKeystore, validateSchema(config.pgKeystoreSchema), keystoreMigrations, config);
+    }
+}
+
+async function prepareSchema(uriOrPool: string | Pool, schema: string, migrations: MigrationSet, config: Pick<JinagaServerConfig, "migrateSchema" | "logger">) {
+    // The server has not created its pools yet. A pool given in the
+    // configuration is the caller's to end.
+    const pool = typeof uriOrPool === "string"
+        ? new Pool({ connectionString: uriOrPool, max: 1 })
+        : uriOrPool;
+    try {
+        const migrator = new SchemaMigrator(pool, schema, migrations, config.logger || defaultLogger);
+        if (config.migrateSchema) {
+            await migrator.migrate();
+        }
+        else {
+            await migrator.verify();
+        }
+    }
+    finally {
+        if (pool !== uriOrPool) {
+            await pool.end();
+        }
+    }
+}
+
 function makePool(config: JinagaServerConfig, pools: { [uri: string]: Pool }): Pool | undefined {
     const uri = config.pgStore;
     if (uri) {
@@ -128,67 +440,165 @@ function makePool(config: JinagaServerConfig, pools: { [uri: string]: Pool }): P
     }
 }
 
-function createStore(pool: Pool | undefined, schema: string): Storage {
+function createMetrics(config: JinagaServerConfig, pool: Pool | undefined, pools: { [uri: string]: Pool }): ServerMetrics {
+    const metrics = new ServerMetrics();
+    if (pool) {
+        metrics.addPool("store", pool);
+    }
+    if (config.pgKeystore) {
+        metrics.addPool("keystore", getPool(config.pgKeystore, pools));
+    }
+
+    // Pool events, facts read and feed stream session telemetry are
+    // reported through Trace.
+    Trace.configure(metrics.tracer(Trace.getTracer()));
+    return metrics;
+}
+
+function createFactNotifications(config: JinagaServerConfig, pool: Pool | undefined, schema: string): FactNotificationConfig | null {
+    if (!config.clusterNotifications) {
+        return null;
+    }
+    if (!pool) {
+        throw new Error("Cluster notifications require pgStore.");
+    }
+    return {
+        channel: factNotificationChannel(schema),
+        origin: Math.random().toString(36).substring(2, 10)
+    };
+}
+
+function createStore(config: JinagaServerConfig, pool: Pool | undefined, schema: string, logger: Logger, notifications: FactNotificationConfig | null): Storage {
     if (pool) {
-        return new PostgresStore(pool, schema);
+        return new PostgresStore(pool, schema, logger, notifications, !!config.purgeArchive);
+    }
+    else if (config.purgeArchive) {
+        throw new Error("Archiving purged facts requires pgStore.");
     }
     else {
         return new MemoryStore();
     }
 }
 
-function createWebClient(
+function createFeedDefinitions(config: JinagaServerConfig, pool: Pool | undefined, schema: string, logger: Logger): FeedDefinitionStore {
+    const feedDefinitions = config.feedDefinitions ?? "memory";
+    if (feedDefinitions === "memory") {
+        return new MemoryFeedDefinitionStore();
+    }
+    else if (feedDefinitions === "postgres") {
+        if (!pool) {
+            throw new Error("Feed definitions can be kept in Postgres only when pgStore is configured.");
+        }
+        return new PostgresFeedDefinitionStore(pool, schema, config.feedDefinitionTtlMs, logger);
+    }
+    else {
+        return feedDefinitions;
+    }
+}
+
+function createDistributedFacts(config: JinagaServerConfig, pool: Pool | undefined, schema: string, logger: Logger): DistributedFactRegistry {
+    const distributedFacts = config.distributedFacts ?? "memory";
+    if (distributedFacts === "memory") {
+        return new MemoryDistributedFactCache({
+            windowMs: config.distributedFactWindowMs,
+            maxEntries: config.maxDistributedFacts
+        });
+    }
+    else if (distributedFacts === "postgres") {
+        if (!pool) {
+            throw new Error("Distributed facts can be kept in Postgres only when pgStore is configured.");
+        }
+        return new PostgresDistributedFactCache(pool, schema, config.distributedFactWindowMs, logger);
+    }
+    else {
+        return toDistributedFactRegistry(distributedFacts);
+    }
+}
+
+// Facts saved by another node are loaded from the shared store and passed
+// to the local observable source, as if they had been saved here.
+function createFactListener(pool: Pool, notifications: FactNotificationConfig, store: Storage, source: ObservableSourceImpl, logger: Logger): PostgresFactListener {
+    const listener = new PostgresFactListener(pool, notifications, async references => {
+        const envelopes = await store.load(references);
+        const saved = envelopes.filter(envelope => references.some(factReferenceEquals(envelope.fact)));
+        await source.notify(saved);
+    }, logger);
+    listener.start();
+    return listener;
+}
+
+type Upstream = {
+    endpoint: string,
+    connection: FetchConnection,
+    webClient: WebClient,
+    queue: PostgresQueue | null
+};
+
+function createUpstreams(
     config: JinagaServerConfig,
-    syncStatusNotifier: SyncStatusNotifier
-): WebClient | null {
-    if (config.upstreamReplicators && config.upstreamReplicators.length > 0) {
-        // TODO: Handle multiple upstream replicators
-        // TODO: Handle authentication
-        const httpEndpoint = config.upstreamReplicators[0];
-        const getHeaders = () => Promise.resolve({});
-        const reauthenticate = () => Promise.resolve(false);
+    syncStatusNotifier: SyncStatusNotifier,
+    pool: Pool | undefined,
+    schema: string,
+    logger: Logger
+): Upstream[] {
+    const endpoints = config.upstreamReplicators || [];
+    return endpoints.map(httpEndpoint => {
+        const authenticationProvider = createUpstreamAuthenticationProvider(config.upstreamAuthentication, httpEndpoint);
+        const getHeaders = () => authenticationProvider.getHeaders();
+        const reauthenticate = () => authenticationProvider.reauthenticate();
         const httpConnection = new FetchConnection(httpEndpoint, getHeaders, reauthenticate);
         const httpTimeoutSeconds = config.httpTimeoutSeconds || 30;
         const webClient = new WebClient(httpConnection, syncStatusNotifier, {
             timeoutSeconds: httpTimeoutSeconds
         });
-        return webClient;
+        const queue = pool ? new PostgresQueue(pool, schema, httpEndpoint, logger) : null;
+        return { endpoint: httpEndpoint, connection: httpConnection, webClient, queue };
+    });
+}
+
+function createFork(
+    config: JinagaServerConfig,
+    upstreams: Upstream[],
+    store: Storage,
+    keystore: Keystore | null
+): Fork {
+    if (upstreams.length === 0) {
+        const fork = new PassThroughFork(store);
+        return fork;
+    }
+
+    const forks = upstreams.map(upstream => createUpstreamFork(config, upstream, store));
+    const fork = forks.length === 1 ? forks[0] : new FanOutFork(forks);
+    if (keystore) {
+        // Vouch for outbound facts with this server's device key.
+        return new SigningFork(fork, keystore, localDeviceIdentity);
     }
     else {
-        return null;
+        return fork;
     }
 }
 
-function createFork(
+function createUpstreamFork(
     config: JinagaServerConfig,
-    webClient: WebClient | null,
-    store: Storage,
-    pool: Pool | undefined,
-    schema: string
+    upstream: Upstream,
+    store: Storage
 ): Fork {
-    if (webClient) {
-        if (pool) {
-            const queue = new PostgresQueue(pool, schema);
-            const fork = new PersistentFork(store, queue, webClient, config.queueProcessingDelayMs || 100);
-            fork.initialize();
-            return fork;
-        }
-        else {
-            const fork = new TransientFork(store, webClient);
-            return fork;
-        }
+    if (upstream.queue) {
+        const fork = new PersistentFork(store, upstream.queue, upstream.webClient, config.queueProcessingDelayMs || 100);
+        fork.initialize();
+        return fork;
     }
     else {
-        const fork = new PassThroughFork(store);
+        const fork = new TransientFork(store, upstream.webClient);
         return fork;
     }
 }
 
-function createKeystore(config: JinagaServerConfig, pools: { [uri: string]: Pool }): Keystore | null {
+function createKeystore(config: JinagaServerConfig, pools: { [uri: string]: Pool }, logger: Logger): Keystore | null {
     const uriOrPool = config.pgKeystore;
     if (uriOrPool) {
         const pool = getPool(uriOrPool, pools);
-        const keystore = new PostgresKeystore(pool, validateSchema(config.pgKeystoreSchema));
+        const keystore = new PostgresKeystore(pool, validateSchema(config.pgKeystoreSchema), logger, createMasterKeys(config));
         return keystore;
     }
     else {
@@ -196,7 +606,69 @@ function createKeystore(config: JinagaServerConfig, pools: { [uri: string]: Pool
     }
 }
 
+function createMasterKeys(config: JinagaServerConfig): MasterKeyProvider | null {
+    const masterKeys = config.keystoreMasterKeys;
+    if (!masterKeys) {
+        return null;
+    }
+    else if ("currentKey" in masterKeys) {
+        return masterKeys;
+    }
+    else {
+        return new StaticMasterKeyProvider(masterKeys);
+    }
+}
+
+function createHealthCheck(
+    config: JinagaServerConfig,
+    pool: Pool | undefined,
+    schema: string,
+    pools: { [uri: string]: Pool },
+    upstreams: Upstream[],
+    logger: Logger
+): HealthCheck {
+    const healthConfig = { ...defaultHealthCheckConfig, ...config.health };
+    const components: HealthComponent[] = [];
+    if (pool) {
+        const tables = [
+            ...storeTables,
+            ...(config.feedDefinitions === "postgres" ? feedDefinitionTables : []),
+            ...(config.distributedFacts === "postgres" ? distributedFactTables : [])
+        ];
+        components.push(new PostgresSchemaCheck("store", pool, schema, tables,
+            new SchemaMigrator(pool, schema, storeMigrations, logger)));
+    }
+    if (config.pgKeystore) {
+        const keystorePool = getPool(config.pgKeystore, pools);
+        const keystoreSchema = validateSchema(config.pgKeystoreSchema);
+        components.push(new PostgresSchemaCheck("keystore", keystorePool, keystoreSchema, keystoreTables,
+            new SchemaMigrator(keystorePool, keystoreSchema, keystoreMigrations, logger)));
+    }
+    for (const upstream of upstreams) {
+        if (upstream.queue) {
+            components.push(new QueueBacklogCheck(`queue:${upstream.endpoint}`, upstream.queue, healthConfig.maxQueueBacklog));
+        }
+        components.push(new UpstreamCheck(`upstream:${upstream.endpoint}`, upstream.connection));
+    }
+    return new HealthCheck(components, healthConfig);
+}
+
 class AuthorizationNoOpWithSubscriptions extends AuthorizationNoOp implements SubscriptionAuthorizer {
+    constructor(private readonly readableFactManager: FactManager, private readonly readableStore: Storage) {
+        super(readableFactManager, readableStore);
+    }
+
+    async readStream(
+        _userIdentity: UserIdentity | null,
+        start: FactReference[],
+        specification: Specification,
+        asOf?: Date
+    ): Promise<AsyncIterable<ProjectedResult>> {
+        refuseNoncompliantSpecification(this.readableFactManager, specification);
+        const store = asOf ? storeAsOf(this.readableStore, asOf) : this.readableStore;
+        return readStream(store, start, specification);
+    }
+
     async verifyDistributionOrIntersect(
         _userIdentity: UserIdentity | null,
         specification: Specification,
@@ -207,28 +679,30 @@ class AuthorizationNoOpWithSubscriptions extends AuthorizationNoOp implements Su
     }
 
     feedPreVerified(
-        userIdentity: UserIdentity | null,
+        _userIdentity: UserIdentity | null,
         specification: Specification,
         start: FactReference[],
-        bookmark: string
+        bookmark: string,
+        page: FeedPage = {}
     ): Promise<FactFeed> {
-        return this.feed(userIdentity!, specification, start, bookmark);
+        return feedPage(this.readableStore, specification, start, bookmark, page);
     }
 
     async feedWithDistribution(
-        userIdentity: UserIdentity | null,
+        _userIdentity: UserIdentity | null,
         specification: Specification,
         start: FactReference[],
-        bookmark: string
+        bookmark: string,
+        page: FeedPage = {}
     ): Promise<FeedResult> {
-        const feed = await this.feed(userIdentity!, specification, start, bookmark);
+        const feed = await feedPage(this.readableStore, specification, start, bookmark, page);
         return { type: "success", feed };
     }
 }
 
-function createAuthorization(authorizationRules: AuthorizationRules | null, distributionRules: DistributionRules | null, factManager: FactManager, store: Storage, keystore: Keystore | null): Authorization & SubscriptionAuthorizer {
+function createAuthorization(authorizationRules: AuthorizationRules | null, distributionRules: DistributionRules | null, factManager: FactManager, store: Storage, keystore: Keystore | null, distributedFacts: DistributedFactRegistry): Authorization & SubscriptionAuthorizer {
     if (keystore) {
-        const authorization = new AuthorizationKeystore(factManager, store, keystore, authorizationRules, distributionRules);
+        const authorization = new AuthorizationKeystore(factManager, store, keystore, authorizationRules, distributionRules, distributedFacts, localDeviceIdentity);
         return authorization;
     }
     else {
@@ -289,7 +763,7 @@ export function tracePool(postgresPool: Pool) {
     }
 }
 
-async function withSession(store: Storage, keystore: Keystore | null, authorizationRules: AuthorizationRules | null, purgeConditions: Specification[], req: Request, callback: ((j: Jinaga) => Promise<void>)) {
+async function withSession(store: Storage, keystore: Keystore | null, authorizationRules: AuthorizationRules | null, purgeConditions: Specification[], req: Request, callback: ((j: Jinaga) => Promise<void>), options: SessionOptions) {
     const user = <RequestUser>(req as any).user;
     const userIdentity: UserIdentity = {
         provider: user.provider,
@@ -297,10 +771,12 @@ async function withSession(store: Storage, keystore: Keystore | null, authorizat
     }
     const authentication = keystore ? new AuthenticationSession(store, keystore, authorizationRules, userIdentity, user.profile.displayName, localDeviceIdentity) : new AuthenticationNoOp();
     const syncStatusNotifier = new SyncStatusNotifier();
-    const fork = new PassThroughFork(store);
-    const observableSource = new ObservableSource(store);
+    // Login still records the user in the live store.
+    const sessionStore = options.asOf ? storeAsOf(store, options.asOf) : store;
+    const fork = new PassThroughFork(sessionStore);
+    const observableSource = new ObservableSource(sessionStore);
     const network = new NetworkNoOp();
-    const factManager = new FactManager(fork, observableSource, store, network, purgeConditions);
+    const factManager = new FactManager(fork, observableSource, sessionStore, network, purgeConditions);
     const j = new Jinaga(authentication, factManager, syncStatusNotifier);
     await callback(j);
 }
@@ -336,14 +812,53 @@ function createPurgeConditions(
     }
 }
 
+function createPurgeScheduler(config: JinagaServerConfig, store: Storage, purgeConditions: Specification[], purgeArchive: PurgeArchive | null, logger: Logger): PurgeScheduler | null {
+    if (!config.purgeSchedule || purgeConditions.length === 0) {
+        return null;
+    }
+    if (!isPurgeStorage(store)) {
+        throw new Error("Purges can be scheduled only when pgStore is configured.");
+    }
+    const scheduler = new PurgeScheduler(store, purgeConditions, config.purgeSchedule, logger, purgeArchive);
+    scheduler.start();
+    return scheduler;
+}
+
+function createPurgeArchive(config: JinagaServerConfig, store: Storage): PurgeArchive | null {
+    if (!config.purgeArchive) {
+        return null;
+    }
+    if (!isPurgeArchiveStorage(store)) {
+        throw new Error("Archiving purged facts requires pgStore.");
+    }
+    return { store, retentionMs: config.purgeArchive.retentionMs };
+}
+
+function createPurgeAdministration(config: JinagaServerConfig, store: Storage, purgeConditions: Specification[], purgeArchive: PurgeArchive | null): PurgeAdministration | null {
+    if (!config.isAdministrator) {
+        return null;
+    }
+    if (!isPurgeRootStorage(store)) {
+        throw new Error("The purge admin routes can be served only when pgStore is configured.");
+    }
+    return { store, conditions: purgeConditions, isAdministrator: config.isAdministrator, archive: purgeArchive };
+}
+
 function createNetwork(
-    webClient: WebClient | null
+    upstreams: Upstream[]
 ): Network {
-    if (webClient) {
-        const network = new HttpNetwork(webClient);
+    if (upstreams.length === 0) {
+        return new NetworkNoOp();
+    }
+    else if (upstreams.length === 1) {
+        const network = new HttpNetwork(upstreams[0].webClient);
         return network;
     }
     else {
-        return new NetworkNoOp();
+        const network = new FailoverNetwork(upstreams.map(upstream => ({
+            key: upstream.endpoint,
+            network: new HttpNetwork(upstream.webClient)
+        })));
+        return network;
     }
 }
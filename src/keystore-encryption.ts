@@ -0,0 +1,170 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+/**
+ * A 256-bit key that wraps the data keys of stored private keys. The id is
+ * stored with each private key, so that the key can be found to unwrap it
+ * after the current key has changed.
+ */
+export interface MasterKey {
+    id: string;
+    key: Buffer;
+}
+
+/**
+ * Supplies master keys, for instance from a secrets manager or KMS. To
+ * rotate, make a new key current and keep serving the old one until every
+ * stored private key has been rewrapped.
+ */
+export interface MasterKeyProvider {
+    /** The key that wraps private keys as they are stored. */
+    currentKey(): Promise<MasterKey>;
+    /** A key by id, or undefined if it is no longer available. */
+    getKey(id: string): Promise<MasterKey | undefined>;
+}
+
+/**
+ * Master keys supplied in configuration, each a base64-encoded 32-byte key.
+ */
+export interface MasterKeyConfig {
+    currentKeyId: string;
+    keys: { [id: string]: string };
+}
+
+export class StaticMasterKeyProvider implements MasterKeyProvider {
+    private readonly keys = new Map<string, MasterKey>();
+    private readonly current: MasterKey;
+
+    constructor(config: MasterKeyConfig) {
+        for (const [id, encoded] of Object.entries(config.keys)) {
+            const key = Buffer.from(encoded, "base64");
+            if (!validKeyId.test(id)) {
+                throw new Error(`Master key id "${id}" may contain only letters, digits, '.', '_' and '-'.`);
+            }
+            if (key.length !== keyBytes) {
+                throw new Error(`Master key "${id}" must be ${keyBytes} bytes, base64-encoded.`);
+            }
+            this.keys.set(id, { id, key });
+        }
+        const current = this.keys.get(config.currentKeyId);
+        if (!current) {
+            throw new Error(`The current master key "${config.currentKeyId}" is not among the configured keys.`);
+        }
+        this.current = current;
+    }
+
+    async currentKey(): Promise<MasterKey> {
+        return this.current;
+    }
+
+    async getKey(id: string): Promise<MasterKey | undefined> {
+        return this.keys.get(id);
+    }
+}
+
+export interface DecryptedPrivateKey {
+    privatePem: string;
+    /**
+     * The stored value is plaintext or is wrapped by a key other than the
+     * current one, and should be replaced.
+     */
+    stale: boolean;
+}
+
+const algorithm = "aes-256-gcm";
+const keyBytes = 32;
+const ivBytes = 12;
+const prefix = "enc1";
+const validKeyId = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Envelope encryption of private keys. Each private key is encrypted under
+ * its own random data key, and the data key is wrapped by a master key.
+ * Stored as "enc1:{master key id}:{wrapped data key}:{encrypted key}", so
+ * rotating the master key rewraps only the data key.
+ */
+export class PrivateKeyEncryption {
+    constructor(private readonly masterKeys: MasterKeyProvider) { }
+
+    async encrypt(privatePem: string): Promise<string> {
+        const masterKey = await this.masterKeys.currentKey();
+        if (!validKeyId.test(masterKey.id)) {
+            throw new Error(`Master key id "${masterKey.id}" may contain only letters, digits, '.', '_' and '-'.`);
+        }
+        const dataKey = randomBytes(keyBytes);
+        const wrapped = seal(masterKey.key, dataKey);
+        const encrypted = seal(dataKey, Buffer.from(privatePem, "utf8"));
+        return [prefix, masterKey.id, wrapped, encrypted].join(":");
+    }
+
+    async decrypt(stored: string): Promise<DecryptedPrivateKey> {
+        if (!isEncryptedPrivateKey(stored)) {
+            return { privatePem: stored, stale: true };
+        }
+        const { keyId, wrapped, encrypted } = parse(stored);
+        const dataKey = await this.unwrap(keyId, wrapped);
+        const privatePem = open(dataKey, encrypted).toString("utf8");
+        const current = await this.masterKeys.currentKey();
+        return { privatePem, stale: keyId !== current.id };
+    }
+
+    /**
+     * Wrap the data key of a stored private key with the current master
+     * key, or encrypt a plaintext private key.
+     */
+    async rewrap(stored: string): Promise<string> {
+        if (!isEncryptedPrivateKey(stored)) {
+            return await this.encrypt(stored);
+        }
+        const { keyId, wrapped, encrypted } = parse(stored);
+        const current = await this.masterKeys.currentKey();
+        if (keyId === current.id) {
+            return stored;
+        }
+        const dataKey = await this.unwrap(keyId, wrapped);
+        return [prefix, current.id, seal(current.key, dataKey), encrypted].join(":");
+    }
+
+    /** The prefix shared by every private key wrapped with the current master key. */
+    async currentPrefix(): Promise<string> {
+        const current = await this.masterKeys.currentKey();
+        return `${prefix}:${current.id}:`;
+    }
+
+    private async unwrap(keyId: string, wrapped: string): Promise<Buffer> {
+        const masterKey = await this.masterKeys.getKey(keyId);
+        if (!masterKey) {
+            throw new Error(`The master key "${keyId}" that encrypted a stored private key is not available.`);
+        }
+        return open(masterKey.key, wrapped);
+    }
+}
+
+export function isEncryptedPrivateKey(stored: string): boolean {
+    return stored.startsWith(`${prefix}:`);
+}
+
+function parse(stored: string) {
+    const parts = stored.split(":");
+    if (parts.length !== 4) {
+        throw new Error("A stored private key is malformed.");
+    }
+    return { keyId: parts[1], wrapped: parts[2], encrypted: parts[3] };
+}
+
+// iv, authentication tag and ciphertext, each base64-encoded.
+function seal(key: Buffer, plaintext: Buffer): string {
+    const iv = randomBytes(ivBytes);
+    const cipher = createCipheriv(algorithm, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString("base64")).join(".");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+    const [iv, tag, ciphertext] = sealed.split(".").map(s => Buffer.from(s, "base64"));
+    if (!iv || !tag || !ciphertext) {
+        throw new Error("A stored private key is malformed.");
+    }
+    const decipher = createDecipheriv(algorithm, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
@@ -6,4 +6,17 @@ export interface Keystore {
     getUserFact(userIdentity: UserIdentity): Promise<FactRecord>;
     getDeviceFact(userIdentity: UserIdentity): Promise<FactRecord>;
     signFacts(userIdentity: UserIdentity, facts: FactRecord[]): Promise<FactEnvelope[]>;
+    /**
+     * Replace the key pair of an identity with a new one. The user and
+     * device facts of the identity change with it, as they carry the public
+     * key. Rejects without changing anything when the identity's public
+     * key is no longer expectedPublicKey, as when another rotation got
+     * there first. Optional: a keystore without it cannot rotate keys.
+     */
+    rotateKeyPair?(identity: UserIdentity, expectedPublicKey: string): Promise<KeyPairRotation>;
+}
+
+export interface KeyPairRotation {
+    previousPublicKey: string;
+    publicKey: string;
 }
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { Trace } from "jinaga";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Context attached to a log entry, such as connectionId, feedHash, user or
+ * messageCount. Values should be JSON-serializable; errors are reduced to
+ * their name, message and stack.
+ */
+export type LogFields = { [name: string]: unknown };
+
+/**
+ * Destination for the server's diagnostic logs. Supply an implementation in
+ * JinagaServerConfig.logger to route entries to your own logging library.
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+const levelRank: { [level in LogLevel]: number } = {
+    debug: 0,
+    info: 1,
+    warn: 2,
+    error: 3
+};
+
+/**
+ * Writes entries at or above a minimum level to jinaga's Trace, so that a
+ * tracer installed with Trace.configure receives them. Fields are appended
+ * to the message as JSON.
+ */
+export class TraceLogger implements Logger {
+    constructor(private readonly minLevel: LogLevel = "info") { }
+
+    debug(message: string, fields?: LogFields): void {
+        if (this.enabled("debug")) {
+            Trace.info(formatEntry(message, fields));
+        }
+    }
+
+    info(message: string, fields?: LogFields): void {
+        if (this.enabled("info")) {
+            Trace.info(formatEntry(message, fields));
+        }
+    }
+
+    warn(message: string, fields?: LogFields): void {
+        if (this.enabled("warn")) {
+            Trace.warn(formatEntry(message, fields));
+        }
+    }
+
+    error(message: string, fields?: LogFields): void {
+        if (this.enabled("error")) {
+            Trace.error(formatEntry(message, fields));
+        }
+    }
+
+    private enabled(level: LogLevel): boolean {
+        return levelRank[level] >= levelRank[this.minLevel];
+    }
+}
+
+/**
+ * The logger used when none is configured. Per-message stream diagnostics
+ * are logged at debug, so it stays quiet under normal operation.
+ */
+export const defaultLogger: Logger = new TraceLogger("info");
+
+/**
+ * Bind fields to every entry written through the returned logger. Fields
+ * passed to an individual call take precedence.
+ */
+export function withFields(logger: Logger, bound: LogFields): Logger {
+    return {
+        debug: (message, fields) => logger.debug(message, { ...bound, ...fields }),
+        info: (message, fields) => logger.info(message, { ...bound, ...fields }),
+        warn: (message, fields) => logger.warn(message, { ...bound, ...fields }),
+        error: (message, fields) => logger.error(message, { ...bound, ...fields })
+    };
+}
+
+function formatEntry(message: string, fields: LogFields | undefined): string {
+    if (!fields || Object.keys(fields).length === 0) {
+        return message;
+    }
+    return `${message} ${JSON.stringify(fields, (key, value) => value instanceof Error
+        ? { name: value.name, message: value.message, stack: value.stack }
+        : value)}`;
+}
@@ -1,6 +1,6 @@
-import { computeHash, FactEnvelope, FactRecord, generateKeyPair, KeyPair, PredecessorCollection, UserIdentity } from "jinaga";
+import { computeHash, FactEnvelope, FactRecord, generateKeyPair, KeyPair, PredecessorCollection, signFacts, UserIdentity } from "jinaga";
 
-import { Keystore } from "../keystore";
+import { KeyPairRotation, Keystore } from "../keystore";
 
 export class MemoryKeystore implements Keystore {
     private keyPairs: { [key: string]: KeyPair} = {};
@@ -22,12 +22,20 @@ export class MemoryKeystore implements Keystore {
     }
 
     signFacts(userIdentity: UserIdentity, facts: FactRecord[]): Promise<FactEnvelope[]> {
-        return Promise.resolve(facts.map(fact => {
-            return {
-                fact,
-                signatures: []
-            };
-        }));
+        const keyPair = this.keyPairs[`${userIdentity.provider}:${userIdentity.id}`];
+        if (!keyPair) {
+            return Promise.resolve(facts.map(fact => ({ fact, signatures: [] })));
+        }
+        return Promise.resolve(signFacts(keyPair, facts));
+    }
+
+    rotateKeyPair(identity: UserIdentity, expectedPublicKey: string): Promise<KeyPairRotation> {
+        const previousPublicKey = this.getPublicKey(identity);
+        if (previousPublicKey !== expectedPublicKey) {
+            return Promise.reject(new Error("The key was rotated by another request while this rotation was under way."));
+        }
+        const publicKey = this.generateKeyPair(`${identity.provider}:${identity.id}`);
+        return Promise.resolve({ previousPublicKey, publicKey });
     }
 
     private getOrCreateIdentityFact(type: string, identity: UserIdentity): FactRecord {
@@ -0,0 +1,179 @@
+export type Labels = { [name: string]: string };
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface Metric {
+    readonly name: string;
+    readonly help: string;
+    readonly type: MetricType;
+    render(): string[];
+}
+
+/**
+ * A minimal set of Prometheus metric types, rendered in the text exposition
+ * format. Each metric keeps one series per distinct label set.
+ */
+export class MetricsRegistry {
+    private readonly metrics = new Map<string, Metric>();
+
+    counter(name: string, help: string): Counter {
+        return this.register(name, () => new Counter(name, help));
+    }
+
+    gauge(name: string, help: string, collect?: (gauge: Gauge) => void): Gauge {
+        return this.register(name, () => new Gauge(name, help, collect));
+    }
+
+    histogram(name: string, help: string, buckets: number[]): Histogram {
+        return this.register(name, () => new Histogram(name, help, buckets));
+    }
+
+    /** Render every metric in the Prometheus text exposition format. */
+    render(): string {
+        const lines: string[] = [];
+        for (const metric of this.metrics.values()) {
+            lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+            lines.push(`# TYPE ${metric.name} ${metric.type}`);
+            lines.push(...metric.render());
+        }
+        return lines.join("\n") + "\n";
+    }
+
+    private register<T extends Metric>(name: string, create: () => T): T {
+        const existing = this.metrics.get(name);
+        if (existing) {
+            return existing as T;
+        }
+        const metric = create();
+        this.metrics.set(name, metric);
+        return metric;
+    }
+}
+
+export class Counter implements Metric {
+    readonly type = "counter";
+    private readonly values = new Map<string, { labels: Labels, value: number }>();
+
+    constructor(readonly name: string, readonly help: string) { }
+
+    inc(labels: Labels = {}, value: number = 1) {
+        if (value < 0) {
+            throw new Error(`Counter ${this.name} cannot decrease.`);
+        }
+        const key = labelKey(labels);
+        const series = this.values.get(key);
+        if (series) {
+            series.value += value;
+        }
+        else {
+            this.values.set(key, { labels, value });
+        }
+    }
+
+    render(): string[] {
+        return [...this.values.values()].map(s => `${this.name}${formatLabels(s.labels)} ${s.value}`);
+    }
+}
+
+export class Gauge implements Metric {
+    readonly type = "gauge";
+    private readonly values = new Map<string, { labels: Labels, value: number }>();
+
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        private readonly collect?: (gauge: Gauge) => void
+    ) { }
+
+    set(labels: Labels, value: number) {
+        this.values.set(labelKey(labels), { labels, value });
+    }
+
+    inc(labels: Labels = {}, value: number = 1) {
+        const key = labelKey(labels);
+        const series = this.values.get(key);
+        this.values.set(key, { labels, value: (series?.value ?? 0) + value });
+    }
+
+    dec(labels: Labels = {}, value: number = 1) {
+        this.inc(labels, -value);
+    }
+
+    render(): string[] {
+        if (this.collect) {
+            this.collect(this);
+        }
+        return [...this.values.values()].map(s => `${this.name}${formatLabels(s.labels)} ${s.value}`);
+    }
+}
+
+export class Histogram implements Metric {
+    readonly type = "histogram";
+    private readonly buckets: number[];
+    private readonly values = new Map<string, { labels: Labels, counts: number[], sum: number, count: number }>();
+
+    constructor(readonly name: string, readonly help: string, buckets: number[]) {
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(labels: Labels, value: number) {
+        const key = labelKey(labels);
+        let series = this.values.get(key);
+        if (!series) {
+            series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.values.set(key, series);
+        }
+        for (let i = 0; i < this.buckets.length; i++) {
+            if (value <= this.buckets[i]) {
+                series.counts[i]++;
+            }
+        }
+        series.sum += value;
+        series.count++;
+    }
+
+    render(): string[] {
+        const lines: string[] = [];
+        for (const series of this.values.values()) {
+            this.buckets.forEach((bucket, i) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: String(bucket) })} ${series.counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`);
+            lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+            lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Turn an arbitrary event name, such as "Postgres acquired" or
+ * "distribution.unmatched", into a valid metric name fragment.
+ */
+export function sanitizeMetricName(name: string): string {
+    return name
+        .replace(/[^a-zA-Z0-9_]+/g, "_")
+        .replace(/^_+|_+$/g, "")
+        .replace(/^([0-9])/, "_$1")
+        .toLowerCase();
+}
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+function formatLabels(labels: Labels): string {
+    const names = Object.keys(labels);
+    if (names.length === 0) {
+        return "";
+    }
+    return `{${names.map(name => `${name}="${escapeLabelValue(labels[name])}"`).join(",")}}`;
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, "\\\"");
+}
+
+function escapeHelp(help: string): string {
+    return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
@@ -0,0 +1,253 @@
+import { Handler, NextFunction, Request, Response } from "express";
+import { Tracer } from "jinaga";
+import { Pool } from "pg";
+
+import { Counter, Gauge, Histogram, MetricsRegistry, sanitizeMetricName } from "./metrics-registry";
+
+const latencyBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const countBuckets = [0, 1, 5, 10, 50, 100, 500, 1000, 5000, 10000, 50000];
+
+const streamingContentTypes = ["application/x-jinaga-feed-stream", "text/event-stream"];
+
+/**
+ * Collects the server's metrics for scraping by Prometheus.
+ *
+ * Events that the code reports through Trace (pool activity, facts read,
+ * unmatched distribution, feed stream session telemetry, dependency timing,
+ * purge counts) are captured by the tracer returned from {@link tracer}.
+ * Request latency and active feed streams are recorded directly by the
+ * router, and pool sizes are read at scrape time.
+ */
+export class ServerMetrics {
+    readonly registry = new MetricsRegistry();
+
+    private readonly pools: { name: string, pool: Pool }[] = [];
+    private readonly requestDuration: Histogram;
+    private readonly activeFeedStreams: Gauge;
+    private readonly dependencyDuration: Histogram;
+    private readonly poolEvents: Counter;
+    private readonly unmatchedDistribution: Counter;
+    private readonly sessionsClosed: Counter;
+    private readonly purgedFacts: Counter;
+    private readonly pendingPurge: Gauge;
+    private readonly droppedMetrics: Counter;
+    private readonly sessionHistograms: { [measurement: string]: Histogram };
+
+    constructor() {
+        this.requestDuration = this.registry.histogram(
+            "jinaga_http_request_duration_seconds",
+            "Latency of HTTP requests by route, excluding streamed feeds.",
+            latencyBuckets);
+        this.activeFeedStreams = this.registry.gauge(
+            "jinaga_feed_streams_active",
+            "Feed streams currently open over HTTP or WebSocket.");
+        this.activeFeedStreams.set({}, 0);
+        this.dependencyDuration = this.registry.histogram(
+            "jinaga_dependency_duration_seconds",
+            "Duration of traced operations by name and outcome.",
+            latencyBuckets);
+        this.poolEvents = this.registry.counter(
+            "jinaga_pg_pool_events_total",
+            "Postgres pool client events.");
+        this.registry.gauge(
+            "jinaga_pg_pool_clients",
+            "Postgres pool clients by state.",
+            gauge => this.collectPools(gauge));
+        this.unmatchedDistribution = this.registry.counter(
+            "jinaga_distribution_unmatched_total",
+            "Feeds accepted without an applicable distribution rule, by denial code.");
+        this.sessionsClosed = this.registry.counter(
+            "jinaga_feed_stream_sessions_closed_total",
+            "Feed stream sessions that have ended.");
+        this.purgedFacts = this.registry.counter(
+            "jinaga_purge_deleted_facts_total",
+            "Facts deleted by scheduled purges, by purge condition.");
+        this.pendingPurge = this.registry.gauge(
+            "jinaga_purge_pending_facts",
+            "Facts a dry-run purge found it would delete, by purge condition.");
+        this.droppedMetrics = this.registry.counter(
+            "jinaga_trace_metrics_dropped_total",
+            "Trace metrics ignored because the server does not export them.");
+        this.sessionHistograms = {
+            waitlistHighWater: this.registry.histogram(
+                "jinaga_feed_stream_session_waitlist_high_water",
+                "Largest waitlist a feed stream session held.",
+                countBuckets),
+            cycles: this.registry.histogram(
+                "jinaga_feed_stream_session_cycles",
+                "Query cycles run by a feed stream session.",
+                countBuckets),
+            syncFrames: this.registry.histogram(
+                "jinaga_feed_stream_session_sync_frames",
+                "SYNC frames sent by a feed stream session.",
+                countBuckets),
+            initialPages: this.registry.histogram(
+                "jinaga_feed_stream_session_initial_pages",
+                "Pages streamed during a feed stream session's backfill.",
+                countBuckets),
+            referencesStreamed: this.registry.histogram(
+                "jinaga_feed_stream_session_references_streamed",
+                "Fact references streamed by a feed stream session.",
+                countBuckets),
+            waitlistRestarts: this.registry.histogram(
+                "jinaga_feed_stream_session_waitlist_restarts",
+                "Times a feed stream session restarted its cycle for waitlisted references.",
+                countBuckets)
+        };
+    }
+
+    /** Serves the metrics in the Prometheus text exposition format. */
+    get handler(): Handler {
+        return (req: Request, res: Response) => {
+            res.type("text/plain; version=0.0.4");
+            res.send(this.registry.render());
+        };
+    }
+
+    /** Records the latency of each request that the router answers. */
+    get requestMiddleware(): Handler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            const start = process.hrtime.bigint();
+            res.on("finish", () => {
+                const contentType = String(res.getHeader("Content-Type") ?? "");
+                if (streamingContentTypes.some(type => contentType.startsWith(type))) {
+                    // A stream's duration is its lifetime, not its latency.
+                    return;
+                }
+                const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+                this.requestDuration.observe({
+                    method: req.method,
+                    route: req.route?.path ?? "unmatched",
+                    status: String(res.statusCode)
+                }, seconds);
+            });
+            next();
+        };
+    }
+
+    /** Reports the size of a pool at scrape time. */
+    addPool(name: string, pool: Pool) {
+        if (!this.pools.some(p => p.pool === pool)) {
+            this.pools.push({ name, pool });
+        }
+    }
+
+    feedStreamOpened() {
+        this.activeFeedStreams.inc();
+    }
+
+    feedStreamClosed() {
+        this.activeFeedStreams.dec();
+    }
+
+    /**
+     * Wrap a tracer so that its metric, counter and dependency events are
+     * also recorded here. Every call is still forwarded to the inner tracer.
+     */
+    tracer(inner: Tracer): Tracer {
+        return new MetricsTracer(inner, this);
+    }
+
+    recordCounter(name: string, value: number) {
+        this.registry.counter(`jinaga_${sanitizeMetricName(name)}_total`, `Trace counter ${name}.`)
+            .inc({}, value);
+    }
+
+    /**
+     * Record a Trace metric that the server exports. Any other is only
+     * counted, since a series per name or measurement would let the
+     * metrics grow without bound.
+     */
+    recordMetric(message: string, measurements: { [key: string]: number }) {
+        switch (message) {
+            case "distribution.unmatched":
+                for (const [code, value] of Object.entries(measurements)) {
+                    this.unmatchedDistribution.inc({ code }, value);
+                }
+                break;
+            case "Postgres acquired":
+            case "Postgres connected":
+            case "Postgres disconnected":
+                this.poolEvents.inc({ event: message.substring("Postgres ".length) });
+                break;
+            case "purge.deleted":
+                for (const [condition, value] of Object.entries(measurements)) {
+                    this.purgedFacts.inc({ condition }, value);
+                }
+                break;
+            case "purge.pending":
+                for (const [condition, value] of Object.entries(measurements)) {
+                    this.pendingPurge.set({ condition }, value);
+                }
+                break;
+            case "Feed stream session closed":
+                this.sessionsClosed.inc();
+                for (const [measurement, value] of Object.entries(measurements)) {
+                    this.sessionHistograms[measurement]?.observe({}, value);
+                }
+                break;
+            default:
+                this.droppedMetrics.inc();
+                break;
+        }
+    }
+
+    recordDependency(name: string, outcome: "success" | "failure", seconds: number) {
+        this.dependencyDuration.observe({ name, outcome }, seconds);
+    }
+
+    private collectPools(gauge: Gauge) {
+        for (const { name, pool } of this.pools) {
+            gauge.set({ pool: name, state: "total" }, pool.totalCount);
+            gauge.set({ pool: name, state: "idle" }, pool.idleCount);
+            gauge.set({ pool: name, state: "waiting" }, pool.waitingCount);
+        }
+    }
+}
+
+class MetricsTracer implements Tracer {
+    constructor(
+        readonly inner: Tracer,
+        private readonly metrics: ServerMetrics
+    ) { }
+
+    info(message: string): void {
+        this.inner.info(message);
+    }
+
+    warn(message: string): void {
+        this.inner.warn(message);
+    }
+
+    error(error: any): void {
+        this.inner.error(error);
+    }
+
+    async dependency<T>(name: string, data: string, operation: () => Promise<T>): Promise<T> {
+        const start = process.hrtime.bigint();
+        let outcome: "success" | "failure" = "failure";
+        try {
+            const result = await this.inner.dependency(name, data, operation);
+            outcome = "success";
+            return result;
+        }
+        finally {
+            this.metrics.recordDependency(name, outcome, Number(process.hrtime.bigint() - start) / 1e9);
+        }
+    }
+
+    metric(message: string, measurements: { [key: string]: number }): void {
+        this.metrics.recordMetric(message, measurements);
+        this.inner.metric(message, measurements);
+    }
+
+    counter(name: string, value: number): void {
+        this.metrics.recordCounter(name, value);
+        this.inner.counter(name, value);
+    }
+}
+
+/** The tracer that a metrics tracer forwards to, or the tracer itself. */
+export function unwrapMetricsTracer(tracer: Tracer): Tracer {
+    return tracer instanceof MetricsTracer ? tracer.inner : tracer;
+}
@@ -0,0 +1,37 @@
+import { FactFeed, FactReference, Specification, Storage } from "jinaga";
+
+/**
+ * Bounds on one page of a feed. Omitted fields take the store's defaults.
+ */
+export interface FeedPage {
+    /** The most tuples to return. */
+    limit?: number;
+    /**
+     * Return only tuples up to and including this bookmark, so that a client
+     * can fetch a bounded window of the feed.
+     */
+    upperBookmark?: string;
+}
+
+/**
+ * A store that can fetch a feed in pages of a requested size and within a
+ * bookmark range.
+ */
+export interface PagedFeedStorage {
+    feedPage(feed: Specification, start: FactReference[], bookmark: string, page: FeedPage): Promise<FactFeed>;
+}
+
+function isPagedFeedStorage(store: Storage): store is Storage & PagedFeedStorage {
+    return typeof (store as Partial<PagedFeedStorage>).feedPage === "function";
+}
+
+/**
+ * Fetch a page of a feed from a store that supports paging. Other stores
+ * ignore the bounds and return their usual page.
+ */
+export function feedPage(store: Storage, feed: Specification, start: FactReference[], bookmark: string, page: FeedPage): Promise<FactFeed> {
+    if (isPagedFeedStorage(store)) {
+        return store.feedPage(feed, start, bookmark, page);
+    }
+    return store.feed(feed, start, bookmark);
+}
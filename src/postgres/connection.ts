@@ -1,11 +1,11 @@
-import { Trace } from 'jinaga';
 import { Pool, PoolClient } from 'pg';
+import { defaultLogger, Logger } from "../logger";
 import { delay } from "../util/promise";
 
 export type Row = { [key: string]: any };
 
 export class ConnectionFactory {
-    constructor (private postgresPool: Pool) {
+    constructor (private postgresPool: Pool, private logger: Logger = defaultLogger) {
     }
 
     withTransaction<T>(callback: (connection: PoolClient) => Promise<T>) {
@@ -43,23 +43,31 @@ export class ConnectionFactory {
             }
             catch (e) {
                 if (!isTransientError(e)) {
-                    Trace.error(e);
+                    this.logger.error("Postgres error", describeError(e));
                     throw e;
                 }
-                Trace.warn("Postgres transient error: " + describeError(e));
+                this.logger.warn("Postgres transient error", describeError(e));
                 attempt++;
                 if (attempt === maxAttempts) {
-                    Trace.error("Postgres error after max attempts: " + describeError(e));
+                    this.logger.error("Postgres error after max attempts", { ...describeError(e), attempt });
                     throw e;
                 }
             }
             const delayTime = baseDelay * Math.pow(2, attempt-1);
-            Trace.warn("Attempt number " + attempt + ". Postgres retrying in " + delayTime + "ms");
+            this.logger.warn("Postgres retrying", { attempt, delayMs: delayTime });
             await delay(delayTime);
         }
         throw new Error("Number of attempts exceeded");
     }
 
+    /**
+     * Check out a client for work that spans more than one callback, such
+     * as iterating a cursor. The caller must release it.
+     */
+    connect(): Promise<PoolClient> {
+        return this.createClient();
+    }
+
     private createClient() {
         return this.postgresPool.connect();
     }
@@ -73,9 +81,8 @@ function isTransientError(e: any) {
 }
 
 function describeError(e: any) {
-    const error = {
+    return {
         code: e.code,
         message: e.message,
     };
-    return JSON.stringify(error);
 }
@@ -0,0 +1,163 @@
+import { FactReference } from "jinaga";
+import { Pool, PoolClient } from "pg";
+
+import { defaultLogger, Logger } from "../logger";
+import { delay } from "../util/promise";
+
+/**
+ * Where PostgresStore announces the facts it saves, and which node is
+ * saving them.
+ */
+export interface FactNotificationConfig {
+    channel: string;
+    /** Identifies this node, so that it can ignore its own notifications. */
+    origin: string;
+}
+
+interface FactNotification {
+    origin: string;
+    references: FactReference[];
+}
+
+// Postgres rejects a NOTIFY payload of 8000 bytes or more.
+const maxPayloadBytes = 7000;
+
+/** The channel for facts saved in a schema. */
+export function factNotificationChannel(schema: string): string {
+    return `jinaga_facts_${schema}`;
+}
+
+/**
+ * Split the references of saved facts into notification payloads that fit
+ * within the Postgres limit.
+ */
+export function factNotificationPayloads(origin: string, references: FactReference[]): string[] {
+    const payloads: string[] = [];
+    let batch: FactReference[] = [];
+    for (const reference of references) {
+        const candidate = [...batch, { type: reference.type, hash: reference.hash }];
+        if (batch.length > 0 && payloadBytes(origin, candidate) > maxPayloadBytes) {
+            payloads.push(serialize(origin, batch));
+            batch = [{ type: reference.type, hash: reference.hash }];
+        }
+        else {
+            batch = candidate;
+        }
+    }
+    if (batch.length > 0) {
+        payloads.push(serialize(origin, batch));
+    }
+    return payloads;
+}
+
+function serialize(origin: string, references: FactReference[]): string {
+    const notification: FactNotification = { origin, references };
+    return JSON.stringify(notification);
+}
+
+function payloadBytes(origin: string, references: FactReference[]): number {
+    return Buffer.byteLength(serialize(origin, references));
+}
+
+/**
+ * Holds a connection that listens for facts saved by other nodes, and
+ * passes their references on in the order they were announced. Facts saved
+ * while the connection is being re-established are not announced again.
+ */
+export class PostgresFactListener {
+    private client: PoolClient | null = null;
+    private closed = false;
+    private delivery: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly pool: Pool,
+        private readonly config: FactNotificationConfig,
+        private readonly onReferences: (references: FactReference[]) => Promise<void>,
+        private readonly logger: Logger = defaultLogger,
+        private readonly reconnectDelayMs: number = 1000
+    ) { }
+
+    /** Connect and listen. Retries in the background if Postgres is unavailable. */
+    start(): void {
+        void this.listen();
+    }
+
+    async close(): Promise<void> {
+        this.closed = true;
+        const client = this.client;
+        this.client = null;
+        if (client) {
+            try {
+                await client.query(`UNLISTEN "${this.config.channel}"`);
+                client.release();
+            }
+            catch (error) {
+                client.release(error instanceof Error ? error : true);
+            }
+        }
+        await this.delivery;
+    }
+
+    private async listen(): Promise<void> {
+        let attempt = 0;
+        while (!this.closed) {
+            try {
+                const client = await this.pool.connect();
+                if (this.closed) {
+                    client.release();
+                    return;
+                }
+                client.on("notification", message => {
+                    if (message.channel === this.config.channel && message.payload) {
+                        this.received(message.payload);
+                    }
+                });
+                client.on("error", error => this.lost(client, error));
+                try {
+                    await client.query(`LISTEN "${this.config.channel}"`);
+                }
+                catch (error) {
+                    client.release(error instanceof Error ? error : true);
+                    throw error;
+                }
+                this.client = client;
+                this.logger.info("Listening for facts saved by other nodes", { channel: this.config.channel });
+                return;
+            }
+            catch (error) {
+                attempt++;
+                this.logger.warn("Could not listen for facts saved by other nodes", { channel: this.config.channel, attempt, error });
+                await delay(this.reconnectDelayMs);
+            }
+        }
+    }
+
+    private lost(client: PoolClient, error: Error) {
+        if (this.client !== client) {
+            return;
+        }
+        this.client = null;
+        client.release(error);
+        if (!this.closed) {
+            this.logger.warn("Lost the connection listening for facts saved by other nodes", { channel: this.config.channel, error });
+            void delay(this.reconnectDelayMs).then(() => this.listen());
+        }
+    }
+
+    private received(payload: string) {
+        let notification: FactNotification;
+        try {
+            notification = JSON.parse(payload);
+        }
+        catch (error) {
+            this.logger.warn("Ignoring a malformed fact notification", { channel: this.config.channel, error });
+            return;
+        }
+        if (notification.origin === this.config.origin || !Array.isArray(notification.references)) {
+            return;
+        }
+        this.delivery = this.delivery
+            .then(() => this.onReferences(notification.references))
+            .catch(error => this.logger.error("Error delivering facts saved by another node", { error }));
+    }
+}
@@ -0,0 +1,284 @@
+/**
+ * One step in the evolution of a set of tables. Each step can be applied
+ * over a database that setup.sql created at any earlier version, so it
+ * creates only what is missing.
+ */
+export type Migration = {
+    version: number,
+    description: string,
+    sql: (schema: string) => string
+};
+
+/**
+ * The tables of one component, and the migrations that bring them up to
+ * date. The version of each component is recorded separately, so that the
+ * store and keystore can share a schema.
+ *
+ * setup.sql records the latest version of each component as well. Adding a
+ * migration here means raising the version it records.
+ */
+export type MigrationSet = {
+    component: "store" | "keystore",
+    migrations: Migration[]
+};
+
+export const storeMigrations: MigrationSet = {
+    component: "store",
+    migrations: [
+        {
+            version: 1,
+            description: "Create the fact graph tables",
+            sql: schema => `
+                CREATE EXTENSION IF NOT EXISTS intarray;
+
+                CREATE TABLE IF NOT EXISTS ${schema}.fact_type (
+                    fact_type_id serial PRIMARY KEY,
+                    name character varying(200) NOT NULL
+                );
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_fact_type ON ${schema}.fact_type (name);
+
+                CREATE TABLE IF NOT EXISTS ${schema}.role (
+                    role_id serial PRIMARY KEY,
+                    defining_fact_type_id integer NOT NULL,
+                    CONSTRAINT fk_defining_fact_type_id
+                        FOREIGN KEY (defining_fact_type_id)
+                        REFERENCES ${schema}.fact_type (fact_type_id),
+                    name character varying(200) NOT NULL
+                );
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_role ON ${schema}.role USING btree (defining_fact_type_id, name);
+
+                CREATE TABLE IF NOT EXISTS ${schema}.fact (
+                    fact_id serial PRIMARY KEY,
+                    fact_type_id integer NOT NULL,
+                    CONSTRAINT fk_fact_type_id
+                        FOREIGN KEY (fact_type_id)
+                        REFERENCES ${schema}.fact_type (fact_type_id),
+                    hash character varying(100),
+                    data jsonb,
+                    date_learned timestamp NOT NULL
+                        DEFAULT (now() at time zone 'utc')
+                );
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_fact ON ${schema}.fact USING btree (hash, fact_type_id);
+
+                CREATE TABLE IF NOT EXISTS ${schema}.edge (
+                    role_id integer NOT NULL,
+                    CONSTRAINT fk_role_id
+                        FOREIGN KEY (role_id)
+                        REFERENCES ${schema}.role (role_id),
+                    successor_fact_id integer NOT NULL,
+                    CONSTRAINT fk_successor_fact_id
+                        FOREIGN KEY (successor_fact_id)
+                        REFERENCES ${schema}.fact (fact_id)
+                        ON DELETE CASCADE,
+                    predecessor_fact_id integer NOT NULL,
+                    CONSTRAINT fk_predecessor_fact_id
+                        FOREIGN KEY (predecessor_fact_id)
+                        REFERENCES ${schema}.fact (fact_id)
+                        ON DELETE CASCADE
+                );
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_edge ON ${schema}.edge USING btree (successor_fact_id, predecessor_fact_id, role_id);
+                CREATE INDEX IF NOT EXISTS ix_successor ON ${schema}.edge USING btree (successor_fact_id, role_id, predecessor_fact_id);
+                CREATE INDEX IF NOT EXISTS ix_predecessor ON ${schema}.edge USING btree (predecessor_fact_id, role_id, successor_fact_id);
+
+                CREATE TABLE IF NOT EXISTS ${schema}.ancestor (
+                    fact_id integer NOT NULL,
+                    CONSTRAINT fk_fact_id
+                        FOREIGN KEY (fact_id)
+                        REFERENCES ${schema}.fact (fact_id)
+                        ON DELETE CASCADE,
+                    ancestor_fact_id integer NOT NULL,
+                    CONSTRAINT fk_ancestor_fact_id
+                        FOREIGN KEY (ancestor_fact_id)
+                        REFERENCES ${schema}.fact (fact_id)
+                        ON DELETE CASCADE
+                );
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_ancestor ON ${schema}.ancestor USING btree (fact_id, ancestor_fact_id);
+
+                CREATE TABLE IF NOT EXISTS ${schema}.public_key (
+                    public_key_id serial PRIMARY KEY,
+                    public_key character varying(500) NOT NULL
+                );
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_public_key ON ${schema}.public_key (public_key);
+
+                CREATE TABLE IF NOT EXISTS ${schema}."signature" (
+                    fact_id integer NOT NULL,
+                    CONSTRAINT fk_fact_id
+                        FOREIGN KEY (fact_id)
+                        REFERENCES ${schema}.fact (fact_id)
+                        ON DELETE CASCADE,
+                    public_key_id integer NOT NULL,
+                    CONSTRAINT fk_public_key_id
+                        FOREIGN KEY (public_key_id)
+                        REFERENCES ${schema}.public_key (public_key_id),
+                    signature character varying(400),
+                    date_learned timestamp NOT NULL
+                        DEFAULT (now() at time zone 'utc')
+                );
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_signature ON ${schema}."signature" USING btree (fact_id, public_key_id);
+
+                CREATE TABLE IF NOT EXISTS ${schema}.bookmark (
+                    feed character varying(100) PRIMARY KEY,
+                    bookmark text NOT NULL
+                );
+
+                CREATE TABLE IF NOT EXISTS ${schema}.queue (
+                    queue_id bigserial PRIMARY KEY,
+                    upstream character varying(500) NOT NULL DEFAULT '',
+                    fact_type character varying(200) NOT NULL,
+                    hash character varying(100) NOT NULL,
+                    envelope jsonb NOT NULL,
+                    date_enqueued timestamp NOT NULL
+                        DEFAULT (now() at time zone 'utc')
+                );
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_queue ON ${schema}.queue USING btree (upstream, hash, fact_type);
+            `
+        },
+        {
+            version: 2,
+            description: "Widen fact type and role names to 200 characters",
+            sql: schema => `
+                ALTER TABLE ${schema}.fact_type
+                    ALTER COLUMN name TYPE character varying(200);
+                ALTER TABLE ${schema}.role
+                    ALTER COLUMN name TYPE character varying(200);
+            `
+        },
+        {
+            // Databases created before purging was supported refuse to
+            // delete a fact that has edges, ancestors or signatures.
+            version: 3,
+            description: "Cascade deletes from fact to edge, ancestor and signature",
+            sql: schema => `
+                ALTER TABLE ${schema}.edge
+                    DROP CONSTRAINT IF EXISTS fk_predecessor_fact_id,
+                    ADD CONSTRAINT fk_predecessor_fact_id
+                        FOREIGN KEY (predecessor_fact_id)
+                        REFERENCES ${schema}.fact (fact_id)
+                        ON DELETE CASCADE,
+                    DROP CONSTRAINT IF EXISTS fk_successor_fact_id,
+                    ADD CONSTRAINT fk_successor_fact_id
+                        FOREIGN KEY (successor_fact_id)
+                        REFERENCES ${schema}.fact (fact_id)
+                        ON DELETE CASCADE;
+                ALTER TABLE ${schema}."signature"
+                    DROP CONSTRAINT IF EXISTS fk_fact_id,
+                    ADD CONSTRAINT fk_fact_id
+                        FOREIGN KEY (fact_id)
+                        REFERENCES ${schema}.fact (fact_id)
+                        ON DELETE CASCADE;
+                ALTER TABLE ${schema}.ancestor
+                    DROP CONSTRAINT IF EXISTS fk_fact_id,
+                    ADD CONSTRAINT fk_fact_id
+                        FOREIGN KEY (fact_id)
+                        REFERENCES ${schema}.fact (fact_id)
+                        ON DELETE CASCADE,
+                    DROP CONSTRAINT IF EXISTS fk_ancestor_fact_id,
+                    ADD CONSTRAINT fk_ancestor_fact_id
+                        FOREIGN KEY (ancestor_fact_id)
+                        REFERENCES ${schema}.fact (fact_id)
+                        ON DELETE CASCADE;
+            `
+        },
+        {
+            version: 4,
+            description: "Create the feed definition and distributed fact tables",
+            sql: schema => `
+                CREATE TABLE IF NOT EXISTS ${schema}.feed_definition (
+                    hash character varying(100) PRIMARY KEY,
+                    specification jsonb NOT NULL,
+                    named_start jsonb NOT NULL,
+                    intersected boolean NOT NULL DEFAULT false,
+                    owner character varying(500),
+                    expires_at timestamp with time zone NOT NULL
+                );
+                CREATE INDEX IF NOT EXISTS ix_feed_definition_expires_at ON ${schema}.feed_definition USING btree (expires_at);
+
+                CREATE TABLE IF NOT EXISTS ${schema}.distributed_fact (
+                    fact_type character varying(200) NOT NULL,
+                    hash character varying(100) NOT NULL,
+                    user_key character varying(500) NOT NULL,
+                    distributed_at timestamp with time zone NOT NULL
+                );
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_distributed_fact ON ${schema}.distributed_fact USING btree (fact_type, hash, user_key);
+                CREATE INDEX IF NOT EXISTS ix_distributed_fact_distributed_at ON ${schema}.distributed_fact USING btree (distributed_at);
+            `
+        },
+        {
+            version: 5,
+            description: "Create the archive tables for purged facts",
+            sql: schema => `
+                CREATE TABLE IF NOT EXISTS ${schema}.fact_archive (
+                    fact_id integer PRIMARY KEY,
+                    fact_type_id integer NOT NULL,
+                    hash character varying(100),
+                    data jsonb,
+                    date_learned timestamp NOT NULL,
+                    purge_root_fact_id integer NOT NULL,
+                    archived_at timestamp with time zone NOT NULL DEFAULT now()
+                );
+                CREATE TABLE IF NOT EXISTS ${schema}.edge_archive (
+                    role_id integer NOT NULL,
+                    successor_fact_id integer NOT NULL,
+                    predecessor_fact_id integer NOT NULL,
+                    purge_root_fact_id integer NOT NULL,
+                    archived_at timestamp with time zone NOT NULL DEFAULT now()
+                );
+                CREATE TABLE IF NOT EXISTS ${schema}.ancestor_archive (
+                    fact_id integer NOT NULL,
+                    ancestor_fact_id integer NOT NULL,
+                    purge_root_fact_id integer NOT NULL,
+                    archived_at timestamp with time zone NOT NULL DEFAULT now()
+                );
+                CREATE TABLE IF NOT EXISTS ${schema}.signature_archive (
+                    fact_id integer NOT NULL,
+                    public_key_id integer NOT NULL,
+                    signature character varying(400),
+                    date_learned timestamp NOT NULL,
+                    purge_root_fact_id integer NOT NULL,
+                    archived_at timestamp with time zone NOT NULL DEFAULT now()
+                );
+                CREATE INDEX IF NOT EXISTS ix_fact_archive_purge_root ON ${schema}.fact_archive USING btree (purge_root_fact_id);
+                CREATE INDEX IF NOT EXISTS ix_fact_archive_archived_at ON ${schema}.fact_archive USING btree (archived_at);
+                CREATE INDEX IF NOT EXISTS ix_edge_archive_purge_root ON ${schema}.edge_archive USING btree (purge_root_fact_id);
+                CREATE INDEX IF NOT EXISTS ix_edge_archive_archived_at ON ${schema}.edge_archive USING btree (archived_at);
+                CREATE INDEX IF NOT EXISTS ix_ancestor_archive_purge_root ON ${schema}.ancestor_archive USING btree (purge_root_fact_id);
+                CREATE INDEX IF NOT EXISTS ix_ancestor_archive_archived_at ON ${schema}.ancestor_archive USING btree (archived_at);
+                CREATE INDEX IF NOT EXISTS ix_signature_archive_purge_root ON ${schema}.signature_archive USING btree (purge_root_fact_id);
+                CREATE INDEX IF NOT EXISTS ix_signature_archive_archived_at ON ${schema}.signature_archive USING btree (archived_at);
+            `
+        }
+    ]
+};
+
+export const keystoreMigrations: MigrationSet = {
+    component: "keystore",
+    migrations: [
+        {
+            version: 1,
+            description: "Create the user table",
+            sql: schema => `
+                CREATE TABLE IF NOT EXISTS ${schema}."user" (
+                    provider character varying(100),
+                    user_identifier character varying(50),
+                    private_key character varying(4000),
+                    public_key character varying(500)
+                );
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_user ON ${schema}."user" USING btree (user_identifier, provider);
+                CREATE UNIQUE INDEX IF NOT EXISTS ux_user_public_key ON ${schema}."user" (public_key);
+            `
+        },
+        {
+            // Encrypted private keys are longer than the PEM they replace.
+            version: 2,
+            description: "Widen user private keys to hold encrypted keys",
+            sql: schema => `
+                ALTER TABLE ${schema}."user"
+                    ALTER COLUMN private_key TYPE character varying(4000);
+            `
+        }
+    ]
+};
+
+export function latestVersion(set: MigrationSet): number {
+    return set.migrations.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+}
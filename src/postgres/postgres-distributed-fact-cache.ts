@@ -0,0 +1,91 @@
+import { FactReference } from "jinaga";
+import { Pool } from "pg";
+
+import { defaultDistributedFactCacheConfig, DistributedFactRegistry } from "../authorization/distributed-fact-cache";
+import { defaultLogger, Logger } from "../logger";
+import { flatten } from "../util/fn";
+import { ConnectionFactory } from "./connection";
+
+// Rows per INSERT, well within the limit on bind parameters.
+const insertBatchSize = 1000;
+// Expired rows are deleted at most this often by each node.
+const cleanupIntervalMs = 60 * 1000;
+
+/**
+ * Keeps distributed facts in the distributed_fact table of the store schema,
+ * so that every node sharing the database honors a feed run on any of them.
+ * The table holds one row per fact and user, renewed each time the fact is
+ * distributed again, so it grows with the facts distributed within the
+ * window rather than with feed traffic.
+ */
+export class PostgresDistributedFactCache implements DistributedFactRegistry {
+    private connectionFactory: ConnectionFactory;
+    private lastCleanup = 0;
+
+    constructor(
+        pool: Pool,
+        private schema: string,
+        private windowMs: number = defaultDistributedFactCacheConfig.windowMs,
+        logger: Logger = defaultLogger
+    ) {
+        this.connectionFactory = new ConnectionFactory(pool, logger);
+    }
+
+    async add(factReferences: FactReference[], userReference: FactReference | null): Promise<void> {
+        const userKey = toUserKey(userReference);
+        const references = distinctReferences(factReferences);
+        await this.connectionFactory.with(async (connection) => {
+            for (let i = 0; i < references.length; i += insertBatchSize) {
+                const batch = references.slice(i, i + insertBatchSize);
+                const values = batch.map((r, j) => `($${j * 2 + 1}, $${j * 2 + 2}, $${batch.length * 2 + 1}, now())`);
+                const parameters = flatten(batch, r => [r.type, r.hash]);
+                await connection.query(`INSERT INTO ${this.schema}.distributed_fact (fact_type, hash, user_key, distributed_at)
+                    VALUES ${values.join(", ")}
+                    ON CONFLICT (fact_type, hash, user_key) DO UPDATE
+                    SET distributed_at = EXCLUDED.distributed_at`,
+                    [...parameters, userKey]);
+            }
+            if (Date.now() - this.lastCleanup > cleanupIntervalMs) {
+                this.lastCleanup = Date.now();
+                await connection.query(`DELETE FROM ${this.schema}.distributed_fact
+                    WHERE distributed_at <= now() - $1 * interval '1 millisecond'`,
+                    [this.windowMs]);
+            }
+        });
+    }
+
+    async includesAll(references: FactReference[], userFact: FactReference | null): Promise<boolean> {
+        const distinct = distinctReferences(references);
+        if (distinct.length === 0) {
+            return true;
+        }
+        // Facts distributed anonymously (user_key '') may be loaded by anyone.
+        const sql = `SELECT count(DISTINCT (r.fact_type, r.hash))::int AS found
+            FROM unnest($1::text[], $2::text[]) AS r(fact_type, hash)
+            JOIN ${this.schema}.distributed_fact d
+              ON d.fact_type = r.fact_type AND d.hash = r.hash
+            WHERE d.user_key IN ('', $3)
+              AND d.distributed_at > now() - $4 * interval '1 millisecond'`;
+        const { rows } = await this.connectionFactory.with(async (connection) => {
+            return await connection.query(sql, [
+                distinct.map(r => r.type),
+                distinct.map(r => r.hash),
+                toUserKey(userFact),
+                this.windowMs
+            ]);
+        });
+        return rows[0].found === distinct.length;
+    }
+}
+
+function toUserKey(userReference: FactReference | null): string {
+    return userReference === null ? "" : `${userReference.type}:${userReference.hash}`;
+}
+
+function distinctReferences(references: FactReference[]): FactReference[] {
+    const byKey = new Map<string, FactReference>();
+    for (const reference of references) {
+        byKey.set(`${reference.type}:${reference.hash}`, reference);
+    }
+    return [...byKey.values()];
+}
@@ -0,0 +1,91 @@
+import { FeedCache, ReferencesByName, Specification } from "jinaga";
+import { Pool } from "pg";
+
+import { FeedDefinition, FeedDefinitionStore } from "../feeds/feed-definition-store";
+import { defaultLogger, Logger } from "../logger";
+import { flatten } from "../util/fn";
+import { ConnectionFactory } from "./connection";
+
+/** How long a feed is kept after it was last registered, unless configured otherwise. */
+export const defaultFeedDefinitionTtlMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Keeps registered feeds in the feed_definition table of the store schema,
+ * so that every node sharing the database can serve them. A feed expires a
+ * fixed time after it was last registered; clients that poll an expired
+ * feed receive feed_not_found and register it again.
+ */
+export class PostgresFeedDefinitionStore implements FeedDefinitionStore {
+    private connectionFactory: ConnectionFactory;
+
+    constructor(pool: Pool, private schema: string, private ttlMs: number = defaultFeedDefinitionTtlMs, logger: Logger = defaultLogger) {
+        this.connectionFactory = new ConnectionFactory(pool, logger);
+    }
+
+    async addFeeds(feeds: Specification[], namedStart: ReferencesByName): Promise<string[]> {
+        // FeedCache computes the hash that clients use on the wire.
+        const feedCache = new FeedCache();
+        const hashes = feedCache.addFeeds(feeds, namedStart);
+        if (hashes.length === 0) {
+            return hashes;
+        }
+
+        const ttlParameter = hashes.length * 3 + 1;
+        const values = hashes.map((hash, i) =>
+            `($${i * 3 + 1}, $${i * 3 + 2}::jsonb, $${i * 3 + 3}::jsonb, now() + $${ttlParameter} * interval '1 millisecond')`);
+        const parameters = flatten(hashes, hash => [
+            hash,
+            JSON.stringify(feedCache.getFeed(hash)!.feed),
+            JSON.stringify(namedStart)
+        ]);
+        // Clear out expired feeds first, so that a feed registered again
+        // after it expired starts without its old owner.
+        await this.connectionFactory.withTransaction(async (connection) => {
+            await connection.query(`DELETE FROM ${this.schema}.feed_definition WHERE expires_at <= now()`);
+            await connection.query(`INSERT INTO ${this.schema}.feed_definition (hash, specification, named_start, expires_at)
+                VALUES ${values.join(", ")}
+                ON CONFLICT (hash) DO UPDATE
+                SET expires_at = EXCLUDED.expires_at`,
+                [...parameters, this.ttlMs]);
+        });
+        return hashes;
+    }
+
+    async bindOwner(hash: string, owner: string | null): Promise<string | null | undefined> {
+        const sql = `WITH previous AS (
+                SELECT intersected, owner FROM ${this.schema}.feed_definition WHERE hash = $1 FOR UPDATE
+            )
+            UPDATE ${this.schema}.feed_definition
+            SET intersected = true, owner = $2
+            WHERE hash = $1
+            RETURNING (SELECT intersected FROM previous) AS was_intersected, (SELECT owner FROM previous) AS previous_owner`;
+        const { rows } = await this.connectionFactory.with(async (connection) => {
+            return await connection.query(sql, [hash, owner]);
+        });
+        if (rows.length === 0 || !rows[0].was_intersected) {
+            return undefined;
+        }
+        return rows[0].previous_owner;
+    }
+
+    async getFeed(hash: string): Promise<FeedDefinition | undefined> {
+        const sql = `SELECT specification, named_start, intersected, owner
+            FROM ${this.schema}.feed_definition
+            WHERE hash = $1 AND expires_at > now()`;
+        const { rows } = await this.connectionFactory.with(async (connection) => {
+            return await connection.query(sql, [hash]);
+        });
+        if (rows.length === 0) {
+            return undefined;
+        }
+        const row = rows[0];
+        const definition: FeedDefinition = {
+            feed: row.specification,
+            namedStart: row.named_start
+        };
+        if (row.intersected) {
+            definition.owner = row.owner;
+        }
+        return definition;
+    }
+}
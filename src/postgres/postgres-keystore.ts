@@ -1,15 +1,40 @@
 import { computeHash, FactEnvelope, FactRecord, generateKeyPair, KeyPair, PredecessorCollection, signFacts, UserIdentity } from "jinaga";
 import { Pool, PoolClient } from "pg";
 
-import { Keystore } from "../keystore";
-import { ConnectionFactory } from "./connection";
+import { KeyPairRotation, Keystore } from "../keystore";
+import { isEncryptedPrivateKey, MasterKeyProvider, PrivateKeyEncryption } from "../keystore-encryption";
+import { defaultLogger, Logger } from "../logger";
+import { ConnectionFactory, Row } from "./connection";
 
+// Key pairs are read again after this long, so that the user and device
+// facts pick up a key rotated by another node. Signing checks sooner.
+const keyPairCacheMs = 60 * 1000;
+
+interface CachedKeyPair {
+    keyPair: KeyPair;
+    expiresAt: number;
+}
+
+interface StoredKeyPair {
+    keyPair: KeyPair;
+    // The stored private key, when it should be rewritten under the current
+    // master key.
+    stale: string | null;
+}
+
+/**
+ * Keeps a key pair for each user and device in the user table. With master
+ * keys, private keys are stored encrypted; plaintext rows and rows wrapped
+ * by an older master key are rewritten as they are read.
+ */
 export class PostgresKeystore implements Keystore {
     private connectionFactory: ConnectionFactory;
-    private cache: Map<string, KeyPair> = new Map();
+    private cache: Map<string, CachedKeyPair> = new Map();
+    private encryption: PrivateKeyEncryption | null;
 
-    constructor (pool: Pool, private schema: string) {
-        this.connectionFactory = new ConnectionFactory(pool);
+    constructor (pool: Pool, private schema: string, private logger: Logger = defaultLogger, masterKeys: MasterKeyProvider | null = null) {
+        this.connectionFactory = new ConnectionFactory(pool, logger);
+        this.encryption = masterKeys && new PrivateKeyEncryption(masterKeys);
     }
 
     getOrCreateUserFact(userIdentity: UserIdentity): Promise<FactRecord> {
@@ -33,10 +58,76 @@ export class PostgresKeystore implements Keystore {
             return facts.map(fact => ({ fact, signatures: [] }));
         }
         
-        const keyPair = await this.getKeyPair(userIdentity);
+        const keyPair = await this.getSigningKeyPair(userIdentity);
         return signFacts(keyPair, facts);
     }
 
+    async rotateKeyPair(identity: UserIdentity, expectedPublicKey: string): Promise<KeyPairRotation> {
+        // Generate outside of the transaction, as it takes a while.
+        const keyPair = generateKeyPair();
+        const privateKey = this.encryption
+            ? await this.encryption.encrypt(keyPair.privatePem)
+            : keyPair.privatePem;
+        const previousPublicKey = await this.connectionFactory.withTransaction(async connection => {
+            const { rows } = await connection.query(
+                `SELECT public_key FROM ${this.schema}.user WHERE provider = $1 AND user_identifier = $2 FOR UPDATE`,
+                [identity.provider, identity.id]);
+            if (rows.length !== 1) {
+                throw new Error('No entry found in the keystore');
+            }
+            if (rows[0]["public_key"] !== expectedPublicKey) {
+                // The cached key pair is out of date.
+                this.cache.delete(getUserIdentityKey(identity));
+                throw new Error("The key was rotated by another request while this rotation was under way.");
+            }
+            await connection.query(
+                `UPDATE ${this.schema}.user SET private_key = $3, public_key = $4 WHERE provider = $1 AND user_identifier = $2`,
+                [identity.provider, identity.id, privateKey, keyPair.publicPem]);
+            return <string>rows[0]["public_key"];
+        });
+        this.cacheKeyPair(identity, keyPair);
+        this.logger.info("Rotated the key pair of an identity", { provider: identity.provider });
+        return { previousPublicKey, publicKey: keyPair.publicPem };
+    }
+
+    /**
+     * Encrypt every plaintext private key and rewrap every private key
+     * stored under an older master key, a batch at a time. Run after making
+     * a new master key current, before retiring the old one. Resolves to
+     * the number of rows rewritten.
+     */
+    async rotatePrivateKeys(batchSize: number = 100): Promise<number> {
+        const encryption = this.encryption;
+        if (!encryption) {
+            throw new Error("Private keys can be rotated only when master keys are configured.");
+        }
+        const currentPrefix = await encryption.currentPrefix();
+        let rewritten = 0;
+        while (true) {
+            const count = await this.connectionFactory.withTransaction(async connection => {
+                const { rows } = await connection.query(
+                    `SELECT provider, user_identifier, private_key FROM ${this.schema}.user
+                     WHERE private_key NOT LIKE $1
+                     LIMIT $2
+                     FOR UPDATE SKIP LOCKED`,
+                    [`${currentPrefix.replace(/_/g, "\\_")}%`, batchSize]);
+                for (const row of rows) {
+                    const privateKey = await encryption.rewrap(row["private_key"]);
+                    await connection.query(
+                        `UPDATE ${this.schema}.user SET private_key = $3 WHERE provider = $1 AND user_identifier = $2`,
+                        [row["provider"], row["user_identifier"], privateKey]);
+                }
+                return rows.length;
+            });
+            rewritten += count;
+            if (count < batchSize) {
+                break;
+            }
+        }
+        this.logger.info("Rotated stored private keys", { rewritten });
+        return rewritten;
+    }
+
     private async getOrCreateIdentityFact(type: string, identity: UserIdentity): Promise<FactRecord> {
         const { publicPem } = await this.getOrGenerateKeyPair(identity);
         const predecessors: PredecessorCollection = {};
@@ -58,26 +149,42 @@ export class PostgresKeystore implements Keystore {
     }
 
     private async getKeyPair(userIdentity: UserIdentity): Promise<KeyPair> {
-        const key = getUserIdentityKey(userIdentity);
-        if (this.cache.has(key)) {
-            return this.cache.get(key)!;
+        const cached = this.getCachedKeyPair(userIdentity);
+        if (cached) {
+            return cached;
         }
-        const keyPair = await this.connectionFactory.with(connection =>
+        const stored = await this.connectionFactory.with(connection =>
             this.selectKeyPair(connection, userIdentity));
-        this.cache.set(key, keyPair);
-        return keyPair;
+        await this.rewriteStaleKey(userIdentity, stored);
+        this.cacheKeyPair(userIdentity, stored.keyPair);
+        return stored.keyPair;
+    }
+
+    // Signing reads the public key every time, so that a key rotated on
+    // another node is not used to sign while it is still cached here. The
+    // cached private key is used only while the public key matches.
+    private async getSigningKeyPair(userIdentity: UserIdentity): Promise<KeyPair> {
+        const cached = this.getCachedKeyPair(userIdentity);
+        const stored = await this.connectionFactory.with(connection =>
+            this.selectKeyPair(connection, userIdentity, cached));
+        if (stored.keyPair !== cached) {
+            await this.rewriteStaleKey(userIdentity, stored);
+            this.cacheKeyPair(userIdentity, stored.keyPair);
+        }
+        return stored.keyPair;
     }
 
-    private async selectKeyPair(connection: PoolClient, userIdentity: UserIdentity): Promise<KeyPair> {
+    private async selectKeyPair(connection: PoolClient, userIdentity: UserIdentity, cached?: KeyPair): Promise<StoredKeyPair> {
         const { rows } = await connection.query(`SELECT public_key, private_key FROM ${this.schema}.user WHERE provider = $1 AND user_identifier = $2`,
             [userIdentity.provider, userIdentity.id]);
         if (rows.length > 1) {
             throw new Error('Duplicate entries found in the keystore');
         }
         else if (rows.length === 1) {
-            const publicPem = <string>rows[0]["public_key"];
-            const privatePem = rows[0]["private_key"];
-            return { publicPem, privatePem };
+            if (cached && cached.publicPem === rows[0]["public_key"]) {
+                return { keyPair: cached, stale: null };
+            }
+            return await this.readKeyPair(rows[0]);
         }
         else {
             throw new Error('No entry found in the keystore');
@@ -85,43 +192,44 @@ export class PostgresKeystore implements Keystore {
     }
 
     private async getOrGenerateKeyPair(userIdentity: UserIdentity): Promise<KeyPair> {
-        const key = getUserIdentityKey(userIdentity);
-        if (this.cache.has(key)) {
-            return this.cache.get(key)!;
+        const cached = this.getCachedKeyPair(userIdentity);
+        if (cached) {
+            return cached;
         }
-        const keyPair = await this.connectionFactory.withTransaction(connection =>
+        const stored = await this.connectionFactory.withTransaction(connection =>
             this.selectOrInsertKeyPair(connection, userIdentity));
-        this.cache.set(key, keyPair);
-        return keyPair;
+        await this.rewriteStaleKey(userIdentity, stored);
+        this.cacheKeyPair(userIdentity, stored.keyPair);
+        return stored.keyPair;
     }
 
-    private async selectOrInsertKeyPair(connection: PoolClient, userIdentity: UserIdentity): Promise<KeyPair> {
+    private async selectOrInsertKeyPair(connection: PoolClient, userIdentity: UserIdentity): Promise<StoredKeyPair> {
         const { rows } = await connection.query(`SELECT public_key, private_key FROM ${this.schema}.user WHERE provider = $1 AND user_identifier = $2`,
             [userIdentity.provider, userIdentity.id]);
         if (rows.length > 1) {
             throw new Error('Duplicate entries found in the keystore');
         }
         else if (rows.length === 1) {
-            const publicPem: string = rows[0]["public_key"];
-            const privatePem: string = rows[0]["private_key"];
-            return { publicPem, privatePem };
+            return await this.readKeyPair(rows[0]);
         }
         else {
-            const keyPair = await this.generateKeyPair(connection, userIdentity);
-            return keyPair;
+            return await this.generateKeyPair(connection, userIdentity);
         }
     }
 
-    private async generateKeyPair(connection: PoolClient, userIdentity: UserIdentity): Promise<KeyPair> {
+    private async generateKeyPair(connection: PoolClient, userIdentity: UserIdentity): Promise<StoredKeyPair> {
         const keyPair = generateKeyPair();
+        const privateKey = this.encryption
+            ? await this.encryption.encrypt(keyPair.privatePem)
+            : keyPair.privatePem;
         const { rows } = await connection.query(
             `INSERT INTO ${this.schema}.user (provider, user_identifier, private_key, public_key)
              VALUES ($1, $2, $3, $4)
              ON CONFLICT (user_identifier, provider) DO NOTHING
              RETURNING 1`,
-            [userIdentity.provider, userIdentity.id, keyPair.privatePem, keyPair.publicPem]);
+            [userIdentity.provider, userIdentity.id, privateKey, keyPair.publicPem]);
         if (rows.length === 1) {
-            return keyPair;
+            return { keyPair, stale: null };
         }
         // Lost the race: a concurrent request inserted this user's key pair
         // between our SELECT and INSERT. The ON CONFLICT clause suppressed the
@@ -130,6 +238,56 @@ export class PostgresKeystore implements Keystore {
         // will now find exactly one row.
         return this.selectOrInsertKeyPair(connection, userIdentity);
     }
+
+    private getCachedKeyPair(userIdentity: UserIdentity): KeyPair | undefined {
+        const key = getUserIdentityKey(userIdentity);
+        const cached = this.cache.get(key);
+        if (!cached) {
+            return undefined;
+        }
+        if (cached.expiresAt <= Date.now()) {
+            this.cache.delete(key);
+            return undefined;
+        }
+        return cached.keyPair;
+    }
+
+    private cacheKeyPair(userIdentity: UserIdentity, keyPair: KeyPair) {
+        this.cache.set(getUserIdentityKey(userIdentity), { keyPair, expiresAt: Date.now() + keyPairCacheMs });
+    }
+
+    private async readKeyPair(row: Row): Promise<StoredKeyPair> {
+        const publicPem: string = row["public_key"];
+        const stored: string = row["private_key"];
+        if (!this.encryption) {
+            if (isEncryptedPrivateKey(stored)) {
+                throw new Error('The keystore holds encrypted private keys, but no master keys are configured');
+            }
+            return { keyPair: { publicPem, privatePem: stored }, stale: null };
+        }
+        const { privatePem, stale } = await this.encryption.decrypt(stored);
+        return { keyPair: { publicPem, privatePem }, stale: stale ? stored : null };
+    }
+
+    // The rewrite runs after the read has released its connection, so that
+    // a failure neither aborts the read's transaction nor fails the read.
+    // The key is rewritten on a later read instead.
+    private async rewriteStaleKey(userIdentity: UserIdentity, { stale }: StoredKeyPair): Promise<void> {
+        if (!this.encryption || stale === null) {
+            return;
+        }
+        try {
+            // Compare with the value read, so that a concurrent rewrite wins.
+            const privateKey = await this.encryption.rewrap(stale);
+            await this.connectionFactory.with(connection => connection.query(
+                `UPDATE ${this.schema}.user SET private_key = $4
+                 WHERE provider = $1 AND user_identifier = $2 AND private_key = $3`,
+                [userIdentity.provider, userIdentity.id, stale, privateKey]));
+        }
+        catch (error) {
+            this.logger.warn("Could not rewrite a private key under the current master key", { provider: userIdentity.provider, error });
+        }
+    }
 }
 
 function getUserIdentityKey(userIdentity: UserIdentity) {
@@ -1,27 +1,112 @@
-import { FactEnvelope, Queue } from "jinaga";
+import { FactEnvelope, factReferenceEquals, Queue } from "jinaga";
 import { Pool } from "pg";
+import { defaultLogger, Logger } from "../logger";
+import { flatten } from "../util/fn";
 import { ConnectionFactory } from "./connection";
 
+interface QueueResult {
+    rows: {
+        envelope: FactEnvelope;
+    }[];
+}
+
 export class PostgresQueue implements Queue {
     private connectionFactory: ConnectionFactory;
 
-    constructor(pool: Pool, private schema: string) {
-        this.connectionFactory = new ConnectionFactory(pool);
+    /**
+     * @param upstream Identifies the upstream replicator that this queue
+     * feeds. Each upstream drains its own queue independently.
+     */
+    constructor(pool: Pool, private schema: string, private upstream: string = "", logger: Logger = defaultLogger) {
+        this.connectionFactory = new ConnectionFactory(pool, logger);
     }
 
-    peek(): Promise<FactEnvelope[]> {
-        // Not yet implemented
-        return Promise.resolve([]);
+    async peek(): Promise<FactEnvelope[]> {
+        // Envelopes are returned in the order they were enqueued. Callers
+        // enqueue in topological order, so predecessors drain before their
+        // successors.
+        const sql = `SELECT envelope FROM ${this.schema}.queue WHERE upstream = $1 ORDER BY queue_id`;
+        const { rows }: QueueResult = await this.connectionFactory.with(async (connection) => {
+            return await connection.query(sql, [this.upstream]);
+        });
+        return rows.map(row => row.envelope);
     }
 
-    enqueue(envelopes: FactEnvelope[]): Promise<void> {
-        // Not yet implemented
-        return Promise.resolve();
+    /** The number of envelopes waiting to be sent upstream. */
+    async backlog(): Promise<number> {
+        const sql = `SELECT count(*)::int AS backlog FROM ${this.schema}.queue WHERE upstream = $1`;
+        const { rows } = await this.connectionFactory.with(async (connection) => {
+            return await connection.query(sql, [this.upstream]);
+        });
+        return rows[0].backlog;
     }
 
-    dequeue(envelopes: FactEnvelope[]): Promise<void> {
-        // Not yet implemented
-        return Promise.resolve();
+    async enqueue(envelopes: FactEnvelope[]): Promise<void> {
+        if (envelopes.length === 0) {
+            return;
+        }
+
+        // A single INSERT cannot touch the same row twice, so collapse
+        // repeated facts within the batch before writing.
+        const distinctEnvelopes = mergeEnvelopes(envelopes);
+        const queueValues = distinctEnvelopes.map((e, i) =>
+            `($${i * 4 + 1}, $${i * 4 + 2}, $${i * 4 + 3}, $${i * 4 + 4}::jsonb)`);
+        const queueParameters = flatten(distinctEnvelopes, (e) => [
+            this.upstream,
+            e.fact.type,
+            e.fact.hash,
+            JSON.stringify({ fact: e.fact, signatures: e.signatures })
+        ]);
+        // A fact that is already waiting keeps its position in the queue.
+        // Merge the signatures so that none are lost when the same fact is
+        // enqueued again with additional signatures.
+        const sql = `INSERT INTO ${this.schema}.queue (upstream, fact_type, hash, envelope)
+            VALUES ${queueValues.join(', ')}
+            ON CONFLICT (upstream, hash, fact_type) DO UPDATE
+            SET envelope = jsonb_set(queue.envelope, '{signatures}', (
+                SELECT COALESCE(jsonb_agg(DISTINCT s), '[]'::jsonb)
+                FROM jsonb_array_elements(
+                    (queue.envelope -> 'signatures') || (EXCLUDED.envelope -> 'signatures')) AS s
+            ))`;
+        await this.connectionFactory.with(async (connection) => {
+            await connection.query(sql, queueParameters);
+        });
+    }
+
+    async dequeue(envelopes: FactEnvelope[]): Promise<void> {
+        if (envelopes.length === 0) {
+            return;
+        }
+
+        const factValues = envelopes.map((e, i) =>
+            `($${i * 2 + 2}, $${i * 2 + 3})`);
+        const factParameters = flatten(envelopes, (e) => [
+            e.fact.type,
+            e.fact.hash
+        ]);
+        const sql = `DELETE FROM ${this.schema}.queue q
+            USING (VALUES ${factValues.join(', ')}) AS v (fact_type, hash)
+            WHERE q.upstream = $1 AND q.fact_type = v.fact_type AND q.hash = v.hash`;
+        await this.connectionFactory.with(async (connection) => {
+            await connection.query(sql, [this.upstream, ...factParameters]);
+        });
     }
+}
 
-}
\ No newline at end of file
+function mergeEnvelopes(envelopes: FactEnvelope[]): FactEnvelope[] {
+    return envelopes.reduce((merged, envelope) => {
+        const existing = merged.find(e => factReferenceEquals(envelope.fact)(e.fact));
+        if (existing) {
+            const newSignatures = envelope.signatures.filter(s =>
+                !existing.signatures.some(x => x.publicKey === s.publicKey));
+            existing.signatures = [...existing.signatures, ...newSignatures];
+        }
+        else {
+            merged.push({
+                fact: envelope.fact,
+                signatures: [...envelope.signatures]
+            });
+        }
+        return merged;
+    }, [] as FactEnvelope[]);
+}
@@ -0,0 +1,75 @@
+import { FactEnvelope, FactFeed, FactReference, ProjectedResult, Specification, Storage } from "jinaga";
+
+import { FeedPage, PagedFeedStorage } from "../paged-feed-storage";
+import { StreamingStorage } from "../streaming-storage";
+import { PostgresStore } from "./postgres-store";
+
+/**
+ * A Postgres store as it stood at a past instant. Reads and feeds leave out
+ * the facts learned after the instant. Loading by reference is not limited,
+ * since a reference can only have come from a fact that was visible. Every
+ * write is rejected.
+ */
+export class PostgresStoreAsOf implements Storage, StreamingStorage, PagedFeedStorage {
+    constructor(private readonly store: PostgresStore, private readonly instant: Date) { }
+
+    close(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    save(envelopes: FactEnvelope[]): Promise<FactEnvelope[]> {
+        return this.readOnly();
+    }
+
+    read(start: FactReference[], specification: Specification): Promise<ProjectedResult[]> {
+        return this.store.read(start, specification, this.instant);
+    }
+
+    readStream(start: FactReference[], specification: Specification): AsyncIterable<ProjectedResult> {
+        return this.store.readStream(start, specification, undefined, this.instant);
+    }
+
+    feed(feed: Specification, start: FactReference[], bookmark: string): Promise<FactFeed> {
+        return this.store.feedPage(feed, start, bookmark, {}, this.instant);
+    }
+
+    feedPage(feed: Specification, start: FactReference[], bookmark: string, page: FeedPage): Promise<FactFeed> {
+        return this.store.feedPage(feed, start, bookmark, page, this.instant);
+    }
+
+    whichExist(references: FactReference[]): Promise<FactReference[]> {
+        return this.store.whichExist(references);
+    }
+
+    load(references: FactReference[]): Promise<FactEnvelope[]> {
+        return this.store.load(references);
+    }
+
+    purge(purgeConditions: Specification[]): Promise<number> {
+        return this.readOnly();
+    }
+
+    purgeDescendants(purgeRoot: FactReference, triggers: FactReference[]): Promise<number> {
+        return this.readOnly();
+    }
+
+    loadBookmark(feed: string): Promise<string> {
+        return this.store.loadBookmark(feed);
+    }
+
+    saveBookmark(feed: string, bookmark: string): Promise<void> {
+        return this.readOnly();
+    }
+
+    getMruDate(specificationHash: string): Promise<Date | null> {
+        return this.store.getMruDate(specificationHash);
+    }
+
+    setMruDate(specificationHash: string, mruDate: Date): Promise<void> {
+        return this.store.setMruDate(specificationHash, mruDate);
+    }
+
+    private readOnly<T>(): Promise<T> {
+        return Promise.reject(new Error(`The store as of ${this.instant.toISOString()} is read-only.`));
+    }
+}
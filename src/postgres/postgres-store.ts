@@ -9,6 +9,7 @@ import {
     FactTuple,
     getAllFactTypes,
     getAllRoles,
+    Invalid,
     PredecessorCollection,
     ProjectedResult,
     Specification,
@@ -16,8 +17,17 @@ import {
 } from "jinaga";
 import { Pool, PoolClient } from "pg";
 
+import { GraphExportStorage } from "../graph-transfer";
+import { defaultLogger, Logger } from "../logger";
+import { FeedPage, PagedFeedStorage } from "../paged-feed-storage";
+import { PurgeRootStorage, PurgeTarget } from "../purge/purge-administration";
+import { PurgeArchiveStorage, PurgeRestoreResult } from "../purge/purge-archive";
+import { PurgePreview, PurgeStorage } from "../purge/purge-scheduler";
+import { StreamingStorage } from "../streaming-storage";
+import { TimeTravelStorage } from "../time-travel-storage";
 import { distinct, flatten } from "../util/fn";
 import { ConnectionFactory, Row } from "./connection";
+import { FactNotificationConfig, factNotificationPayloads } from "./fact-notifications";
 import { EdgeRecord, makeEdgeRecords } from "./edge-record";
 import {
     addFact,
@@ -42,9 +52,24 @@ import {
     PublicKeyMap,
     RoleMap
 } from "./maps";
-import { ResultSetFact, ResultSetRow, ResultSetTree, resultSqlFromSpecification, SqlQueryTree } from "./specification-result-sql";
+import { PostgresStoreAsOf } from "./postgres-store-as-of";
+import {
+    ResultSetCursor,
+    ResultSetCursorTree,
+    ResultSetFact,
+    ResultSetRow,
+    ResultSetTree,
+    resultSqlFromSpecification,
+    SqlQueryTree
+} from "./specification-result-sql";
 import { sqlFromFeed } from "./specification-sql";
-import { purgeDescendantsSql, purgeSqlFromSpecification } from "./purge-sql";
+import { expireArchiveSql, purgeDescendantsSql, PurgeSqlMode, purgeSqlFromSpecification, purgeTriggersSql, restoreArchiveSql } from "./purge-sql";
+
+// Top-level rows composed per round trip when streaming a read.
+const defaultReadBatchSize = 500;
+const defaultFeedPageSize = 100;
+// Rows fetched per round trip when exporting facts.
+const defaultExportBatchSize = 1000;
 
 interface PostgresFactRecord extends FactRecord {
     timestamp: Date;  // Maps to date_learned column
@@ -125,13 +150,20 @@ function loadFactTuple(labels: SpecificationLabel[], row: Row): FactTuple {
     };
 }
 
-export class PostgresStore implements Storage {
+export class PostgresStore implements Storage, PagedFeedStorage, StreamingStorage, GraphExportStorage, PurgeStorage, PurgeRootStorage, PurgeArchiveStorage, TimeTravelStorage {
     private connectionFactory: ConnectionFactory;
     private factTypeMap: FactTypeMap = emptyFactTypeMap();
     private roleMap: RoleMap = emptyRoleMap();
 
-    constructor (pool: Pool, private schema: string) {
-        this.connectionFactory = new ConnectionFactory(pool);
+    /**
+     * @param notifications When given, the references of newly saved facts
+     * are announced on this channel as the saving transaction commits, so
+     * that other nodes can notify their listeners.
+     * @param archivePurged When true, purges move facts into the archive
+     * tables rather than deleting them.
+     */
+    constructor (pool: Pool, private schema: string, logger: Logger = defaultLogger, private notifications: FactNotificationConfig | null = null, private archivePurged = false) {
+        this.connectionFactory = new ConnectionFactory(pool, logger);
     }
 
     close() {
@@ -184,6 +216,10 @@ export class PostgresStore implements Storage {
 
                 const publicKeys = await storePublicKeys(newEnvelopes, connection, this.schema);
                 await insertSignatures(newEnvelopes, allFacts, factTypes, publicKeys, connection, this.schema);
+                if (this.notifications) {
+                    // Postgres holds the notification until the commit.
+                    await notifyFactsSaved(newFacts, this.notifications, connection);
+                }
                 return {
                     newEnvelopes,
                     factTypes,
@@ -199,7 +235,11 @@ export class PostgresStore implements Storage {
         }
     }
 
-    async read(start: FactReference[], specification: Specification): Promise<ProjectedResult[]> {
+    /**
+     * @param asOf When given, the read sees only the facts learned at or
+     * before this instant.
+     */
+    async read(start: FactReference[], specification: Specification, asOf: Date | null = null): Promise<ProjectedResult[]> {
         const factTypes = await this.loadFactTypesFromSpecification(specification);
         const roleMap = await this.loadRolesFromSpecification(specification, factTypes);
 
@@ -208,7 +248,7 @@ export class PostgresStore implements Storage {
             return [];
         }
 
-        const composer = resultSqlFromSpecification(start, specification, factTypes, roleMap, this.schema);
+        const composer = resultSqlFromSpecification(start, specification, factTypes, roleMap, this.schema, asOf);
         if (composer === null) {
             return [];
         }
@@ -228,10 +268,142 @@ export class PostgresStore implements Storage {
         return composer.compose(resultSets, factRecords);
     }
 
-    async feed(feed: Specification, start: FactReference[], bookmark: string): Promise<FactFeed> {
+    /**
+     * Read the results of a specification incrementally. The query tree runs
+     * under server-side cursors in a read-only transaction, and results are
+     * composed a batch at a time rather than all at once. The connection is
+     * held until the iteration finishes or is abandoned with return().
+     */
+    async *readStream(start: FactReference[], specification: Specification, batchSize: number = defaultReadBatchSize, asOf: Date | null = null): AsyncGenerator<ProjectedResult> {
+        const factTypes = await this.loadFactTypesFromSpecification(specification);
+        const roleMap = await this.loadRolesFromSpecification(specification, factTypes);
+
+        if (start.filter(f => getFactTypeId(factTypes, f.type) === undefined).length > 0) {
+            return;
+        }
+
+        const composer = resultSqlFromSpecification(start, specification, factTypes, roleMap, this.schema, asOf);
+        if (composer === null) {
+            return;
+        }
+
+        const connection = await this.connectionFactory.connect();
+        let completed = false;
+        let broken: Error | undefined;
+        try {
+            // Repeatable read gives every cursor the same snapshot, so child
+            // rows line up with their parents.
+            await connection.query("BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY");
+            const cursors = await declareCursors(composer.getSqlQueries(), connection, { value: 0 });
+            yield* composer.composeFromCursors(
+                cursors,
+                async references => (await this.loadOn(references, connection)).map(envelope => envelope.fact),
+                batchSize);
+            await connection.query("COMMIT");
+            completed = true;
+        }
+        finally {
+            if (!completed) {
+                await connection.query("ROLLBACK").catch(error => { broken = error; });
+            }
+            // A connection that cannot roll back is discarded, not reused.
+            connection.release(broken);
+        }
+    }
+
+    /**
+     * List every fact, or the closure of the starting facts, in the order in
+     * which they were stored. Predecessors are always stored first. Like
+     * readStream, the query runs under a cursor and holds a connection until
+     * the iteration finishes or is abandoned.
+     */
+    async *exportFacts(start?: FactReference[], batchSize: number = defaultExportBatchSize): AsyncGenerator<FactEnvelope[]> {
+        let closure = "";
+        let parameters: (string | number)[] = [];
+        if (start) {
+            const factTypes = await this.loadFactTypesFromReferences(start);
+            const known = start.filter(r => getFactTypeId(factTypes, r.type) !== undefined);
+            if (known.length === 0) {
+                return;
+            }
+            const factValues = known.map((f, i) => `($${i * 2 + 1}, $${i * 2 + 2}::integer)`);
+            parameters = flatten(known, f => [f.hash, getFactTypeId(factTypes, f.type)!]);
+            closure = `WITH start AS (
+                    SELECT f.fact_id FROM ${this.schema}.fact f
+                    JOIN (VALUES ${factValues.join(", ")}) AS v (hash, fact_type_id)
+                      ON v.fact_type_id = f.fact_type_id AND v.hash = f.hash
+                ), closure AS (
+                    SELECT fact_id FROM start
+                    UNION
+                    SELECT a.ancestor_fact_id FROM ${this.schema}.ancestor a JOIN start s ON s.fact_id = a.fact_id
+                ) `;
+        }
+        const sql = closure +
+            `SELECT f.fact_id, t.name, f.hash, f.data, p.public_key, s.signature
+            FROM ${this.schema}.fact f
+            ${start ? "JOIN closure c ON c.fact_id = f.fact_id" : ""}
+            JOIN ${this.schema}.fact_type t ON t.fact_type_id = f.fact_type_id
+            LEFT JOIN ${this.schema}.signature s ON s.fact_id = f.fact_id
+            LEFT JOIN ${this.schema}.public_key p ON p.public_key_id = s.public_key_id
+            ORDER BY f.fact_id, p.public_key`;
+
+        const connection = await this.connectionFactory.connect();
+        let completed = false;
+        let broken: Error | undefined;
+        try {
+            await connection.query("BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY");
+            await connection.query(`DECLARE jinaga_export NO SCROLL CURSOR FOR ${sql}`, parameters);
+            // The signatures of a fact span rows, and may span batches, so the
+            // last fact of each batch is held until the next.
+            let pending: { factId: number, envelope: FactEnvelope } | undefined;
+            while (true) {
+                const { rows } = await connection.query(`FETCH FORWARD ${batchSize} FROM jinaga_export`);
+                if (rows.length === 0) {
+                    break;
+                }
+                const envelopes: FactEnvelope[] = [];
+                for (const row of rows) {
+                    if (!pending || pending.factId !== row.fact_id) {
+                        if (pending) {
+                            envelopes.push(pending.envelope);
+                        }
+                        const { fields, predecessors } = row.data;
+                        pending = {
+                            factId: row.fact_id,
+                            envelope: { fact: { type: row.name, hash: row.hash, fields, predecessors }, signatures: [] }
+                        };
+                    }
+                    if (row.signature !== null) {
+                        pending.envelope.signatures.push({ publicKey: row.public_key, signature: row.signature });
+                    }
+                }
+                if (envelopes.length > 0) {
+                    yield envelopes;
+                }
+            }
+            if (pending) {
+                yield [pending.envelope];
+            }
+            await connection.query("COMMIT");
+            completed = true;
+        }
+        finally {
+            if (!completed) {
+                await connection.query("ROLLBACK").catch(error => { broken = error; });
+            }
+            connection.release(broken);
+        }
+    }
+
+    feed(feed: Specification, start: FactReference[], bookmark: string): Promise<FactFeed> {
+        return this.feedPage(feed, start, bookmark, {});
+    }
+
+    async feedPage(feed: Specification, start: FactReference[], bookmark: string, page: FeedPage, asOf: Date | null = null): Promise<FactFeed> {
         const factTypes: FactTypeMap = await this.loadFactTypesFromFeed(feed);
         const roleMap: RoleMap = await this.loadRolesFromFeed(feed, factTypes);
-        const sql = sqlFromFeed(feed, start, this.schema, bookmark, 100, factTypes, roleMap);
+        const limit = page.limit ?? defaultFeedPageSize;
+        const sql = sqlFromFeed(feed, start, this.schema, bookmark, limit, factTypes, roleMap, page.upperBookmark, asOf);
         if (!sql) {
             return {
                 tuples: [],
@@ -249,6 +421,10 @@ export class PostgresStore implements Storage {
         };
     }
 
+    asOf(instant: Date): PostgresStoreAsOf {
+        return new PostgresStoreAsOf(this, instant);
+    }
+
     async loadFactTypesFromFeed(feed: Specification): Promise<FactTypeMap> {
         const factTypes = this.factTypeMap;
         const unknownFactTypes = getAllFactTypes(feed)
@@ -351,7 +527,18 @@ export class PostgresStore implements Storage {
             return [];
         }
 
-        const factTypes = await this.loadFactTypesFromReferences(references);
+        return await this.connectionFactory.with(connection => this.loadOn(references, connection));
+    }
+
+    // Load on a connection that the caller already holds. A streamed read
+    // loads each batch this way, so that it never waits on the pool for a
+    // second connection while holding its first.
+    private async loadOn(references: FactReference[], connection: PoolClient): Promise<FactEnvelope[]> {
+        if (references.length === 0) {
+            return [];
+        }
+
+        const factTypes = await this.loadFactTypesFromReferences(references, connection);
 
         const factValues = references.map((f, i) =>
             `(\$${i * 2 + 1}, \$${i * 2 + 2}::integer)`);
@@ -382,9 +569,7 @@ export class PostgresStore implements Storage {
                 '  ON p.public_key_id = s.public_key_id) as s ' +
             'ON s.fact_id = f.fact_id ' +
             'ORDER BY f.fact_id, s.public_key;';
-        const result: AncestorResult = await this.connectionFactory.with(async (connection) => {
-            return await connection.query(sql, factParameters);
-        })
+        const result: AncestorResult = await connection.query(sql, factParameters);
         const resultFactTypes = result.rows.reduce(
             (factTypes, r) => addFactType(factTypes, r.name, r.fact_type_id),
             emptyFactTypeMap()
@@ -433,16 +618,18 @@ export class PostgresStore implements Storage {
         return envelopes;
     }
 
-    private async loadFactTypesFromReferences(references: FactReference[]): Promise<FactTypeMap> {
+    private async loadFactTypesFromReferences(references: FactReference[], connection: PoolClient | null = null): Promise<FactTypeMap> {
         const factTypes = this.factTypeMap;
         const newFactTypes = references
             .map(reference => reference.type)
             .filter(type => !factTypes.has(type))
             .filter(distinct);
         if (newFactTypes.length > 0) {
-            const loadedFactTypes = await this.connectionFactory.with(async (connection) => {
-                return await loadFactTypes(newFactTypes, connection, this.schema);
-            });
+            const loadedFactTypes = connection
+                ? await loadFactTypes(newFactTypes, connection, this.schema)
+                : await this.connectionFactory.with(async (connection) => {
+                    return await loadFactTypes(newFactTypes, connection, this.schema);
+                });
             const mergedFactTypes = mergeFactTypes(factTypes, loadedFactTypes);
             this.factTypeMap = mergedFactTypes;
             return mergedFactTypes;
@@ -453,28 +640,59 @@ export class PostgresStore implements Storage {
     async purge(purgeConditions: Specification[]): Promise<number> {
         let count = 0;
         for (const specification of purgeConditions) {
-            const factTypes = await this.loadFactTypesFromSpecification(specification);
-            const roleMap = await this.loadRolesFromSpecification(specification, factTypes);
+            const rows = await this.runPurgeCommand(specification, { action: "delete", archive: this.archivePurged });
+            count += rows.length;
+        }
+        return count;
+    }
 
-            const purgeCommand = purgeSqlFromSpecification(specification, factTypes, roleMap, this.schema);
-            if (!purgeCommand) {
-                continue;
-            }
+    async purgeBatch(specification: Specification, batchSize: number): Promise<number> {
+        const rows = await this.runPurgeCommand(specification, { action: "delete", batchSize, archive: this.archivePurged });
+        return rows.length;
+    }
 
-            const { sql, parameters } = purgeCommand;
-            var result = await this.connectionFactory.with(async (connection) => {
-                return await connection.query(sql, parameters);
-            });
-            count += result.rowCount || 0;
+    async previewPurge(specification: Specification, limit: number): Promise<PurgePreview> {
+        const rows = await this.runPurgeCommand(specification, { action: "preview", limit });
+        return {
+            count: rows.length > 0 ? parseInt(rows[0].total) : 0,
+            facts: rows.map(row => ({ type: row.name, hash: row.hash }))
+        };
+    }
+
+    private async runPurgeCommand(specification: Specification, mode: PurgeSqlMode): Promise<Row[]> {
+        const factTypes = await this.loadFactTypesFromSpecification(specification);
+        const roleMap = await this.loadRolesFromSpecification(specification, factTypes);
+
+        const purgeCommand = purgeSqlFromSpecification(specification, factTypes, roleMap, this.schema, mode);
+        if (!purgeCommand) {
+            // A fact type or role of the condition has never been stored.
+            return [];
         }
-        return count;
+
+        const { sql, parameters } = purgeCommand;
+        const result = await this.connectionFactory.with(async (connection) => {
+            return await connection.query(sql, parameters);
+        });
+        return result.rows;
     }
 
     async purgeDescendants(purgeRoot: FactReference, triggers: FactReference[]): Promise<number> {
+        const factIds = await this.purgeDescendantIds(purgeRoot, triggers);
+        return factIds.length;
+    }
+
+    async purgeDescendantIds(purgeRoot: FactReference, triggers: FactReference[]): Promise<number[]> {
+        const rows = await this.runPurgeDescendantsCommand(purgeRoot, triggers, this.archivePurged ? "archive" : "delete");
+        return rows.map(row => row.fact_id);
+    }
+
+    async previewPurgeDescendants(purgeRoot: FactReference, triggers: FactReference[]): Promise<PurgeTarget[]> {
+        const rows = await this.runPurgeDescendantsCommand(purgeRoot, triggers, "preview");
+        return rows.map(row => ({ factId: row.fact_id, type: row.name, hash: row.hash }));
+    }
+
+    private async runPurgeDescendantsCommand(purgeRoot: FactReference, triggers: FactReference[], action: "delete" | "archive" | "preview"): Promise<Row[]> {
         const factTypes = await this.loadFactTypesFromReferences([ purgeRoot, ...triggers ]);
-        if (!factTypes.has(purgeRoot.type) || triggers.some(t => !factTypes.has(t.type))) {
-            return 0;
-        }
 
         const parameters = [
             factTypes.get(purgeRoot.type),
@@ -482,12 +700,79 @@ export class PostgresStore implements Storage {
             ...triggers.map(t => [ factTypes.get(t.type), t.hash ]).flat()
         ];
 
-        const purgeCommand: string = purgeDescendantsSql(triggers.length, this.schema);
+        const purgeCommand: string = purgeDescendantsSql(triggers.length, this.schema, action);
 
-        var result = await this.connectionFactory.with(async (connection) => {
-            return await connection.query(purgeCommand, parameters);
+        return await this.connectionFactory.withTransaction(async (connection) => {
+            await this.checkPurgeTriggers(connection, factTypes, purgeRoot, triggers);
+            const { rows } = await connection.query(purgeCommand, parameters);
+            return rows;
         });
-        return result.rowCount || 0;
+    }
+
+    // A trigger that is missing, or that does not descend from the purge
+    // root, protects nothing: the purge would take every descendant.
+    private async checkPurgeTriggers(connection: PoolClient, factTypes: FactTypeMap, purgeRoot: FactReference, triggers: FactReference[]): Promise<void> {
+        const rootTypeId = factTypes.get(purgeRoot.type);
+        const { rows: roots } = rootTypeId === undefined
+            ? { rows: [] }
+            : await connection.query(
+                `SELECT fact_id FROM ${this.schema}.fact WHERE fact_type_id = $1 AND hash = $2`,
+                [ rootTypeId, purgeRoot.hash ]);
+        if (roots.length === 0) {
+            throw new Invalid(`The purge root ${purgeRoot.type}:${purgeRoot.hash} does not exist.`);
+        }
+
+        const known = triggers.filter(t => factTypes.has(t.type));
+        const { rows } = known.length === 0
+            ? { rows: [] }
+            : await connection.query(purgeTriggersSql(known.length, this.schema), [
+                roots[0].fact_id,
+                ...known.map(t => [ factTypes.get(t.type), t.hash ]).flat()
+            ]);
+        for (const trigger of triggers) {
+            const row = rows.find(r => r.fact_type_id === factTypes.get(trigger.type) && r.hash === trigger.hash);
+            if (!row) {
+                throw new Invalid(`The trigger ${trigger.type}:${trigger.hash} does not exist.`);
+            }
+            if (!row.descends) {
+                throw new Invalid(`The trigger ${trigger.type}:${trigger.hash} is not a descendant of the purge root.`);
+            }
+        }
+    }
+
+    async restoreArchive(purgeRoot: FactReference): Promise<PurgeRestoreResult> {
+        const factTypes = await this.loadFactTypesFromReferences([ purgeRoot ]);
+        const factTypeId = factTypes.get(purgeRoot.type);
+        if (!factTypeId) {
+            return { restored: [], unrestored: [] };
+        }
+
+        return await this.connectionFactory.withTransaction(async (connection) => {
+            const { rows: roots } = await connection.query(
+                `SELECT fact_id FROM ${this.schema}.fact WHERE fact_type_id = $1 AND hash = $2`,
+                [ factTypeId, purgeRoot.hash ]);
+            if (roots.length === 0) {
+                return { restored: [], unrestored: [] };
+            }
+            const parameters = [ roots[0].fact_id ];
+            const { restore, unrestored, clear } = restoreArchiveSql(this.schema);
+            for (const sql of restore) {
+                await connection.query(sql, parameters);
+            }
+            const { rows: missing } = await connection.query(unrestored, parameters);
+            const { rows: cleared } = await connection.query(clear, parameters);
+            return {
+                restored: cleared.map(row => row.fact_id),
+                unrestored: missing.map(row => ({ factId: row.fact_id, missingFactId: row.missing_fact_id }))
+            };
+        });
+    }
+
+    async expireArchive(archivedBefore: Date): Promise<number> {
+        const result = await this.connectionFactory.with(async (connection) => {
+            return await connection.query(expireArchiveSql(this.schema), [ archivedBefore ]);
+        });
+        return result.rows.length;
     }
 
     async loadBookmark(feed: string): Promise<string> {
@@ -521,24 +806,25 @@ export class PostgresStore implements Storage {
     }
 }
 
+function loadResultSetRow(labels: SpecificationLabel[], dataRow: Row): ResultSetRow {
+    return labels.reduce((acc, label) => {
+        const fact: ResultSetFact = {
+            hash: dataRow[`hash${label.index}`],
+            factId: dataRow[`id${label.index}`],
+            data: dataRow[`data${label.index}`],
+            timestamp: dataRow[`timestamp${label.index}`],
+        };
+        return {
+            ...acc,
+            [label.index]: fact
+        };
+    }, {} as ResultSetRow);
+}
+
 async function executeQueryTree(sqlQueryTree: SqlQueryTree, connection: PoolClient): Promise<ResultSetTree> {
     const sqlQuery = sqlQueryTree.sqlQuery;
     const { rows: dataRows } = await connection.query(sqlQuery.sql, sqlQuery.parameters);
-    const rows: ResultSetRow[] = dataRows.map(dataRow => {
-        const row = sqlQuery.labels.reduce((acc, label) => {
-            const fact: ResultSetFact = {
-                hash: dataRow[`hash${label.index}`],
-                factId: dataRow[`id${label.index}`],
-                data: dataRow[`data${label.index}`],
-                timestamp: dataRow[`timestamp${label.index}`],
-            };
-            return {
-                ...acc,
-                [label.index]: fact
-            };
-        }, {} as ResultSetRow);
-        return row;
-    });
+    const rows: ResultSetRow[] = dataRows.map(dataRow => loadResultSetRow(sqlQuery.labels, dataRow));
     const resultSets: ResultSetTree = {
         resultSet: rows,
         childResultSets: []
@@ -553,6 +839,28 @@ async function executeQueryTree(sqlQueryTree: SqlQueryTree, connection: PoolClie
     return resultSets;
 }
 
+// Declare a cursor for every query in the tree. The cursors live until the
+// enclosing transaction ends.
+async function declareCursors(sqlQueryTree: SqlQueryTree, connection: PoolClient, cursorCount: { value: number }): Promise<ResultSetCursorTree> {
+    const sqlQuery = sqlQueryTree.sqlQuery;
+    const name = `jinaga_read_${cursorCount.value++}`;
+    await connection.query(`DECLARE ${name} NO SCROLL CURSOR FOR ${sqlQuery.sql}`, sqlQuery.parameters);
+    const cursor: ResultSetCursor = {
+        fetch: async (count) => {
+            const { rows: dataRows } = await connection.query(`FETCH FORWARD ${count} FROM ${name}`);
+            return dataRows.map(dataRow => loadResultSetRow(sqlQuery.labels, dataRow));
+        }
+    };
+    const childCursors: ResultSetCursorTree["childCursors"] = [];
+    for (const child of sqlQueryTree.childQueries) {
+        childCursors.push({
+            name: child.name,
+            ...await declareCursors(child, connection, cursorCount)
+        });
+    }
+    return { cursor, childCursors };
+}
+
 function predecessorTypes(predecessor: FactReference[] | FactReference): string[] {
     if (Array.isArray(predecessor)) {
         return predecessor.map(p => p.type);
@@ -925,6 +1233,13 @@ async function insertSignatures(envelopes: FactEnvelope[], allFacts: FactMap, fa
     }
 }
 
+async function notifyFactsSaved(facts: FactRecord[], notifications: FactNotificationConfig, connection: PoolClient) {
+    const payloads = factNotificationPayloads(notifications.origin, facts);
+    for (const payload of payloads) {
+        await connection.query('SELECT pg_notify($1, $2)', [notifications.channel, payload]);
+    }
+}
+
 function predecessorsOf(fact: FactRecord): FactReference[] {
     const references = Object.values(fact.predecessors).flatMap(predecessor =>
         Array.isArray(predecessor) ? predecessor : [predecessor]
@@ -2,11 +2,15 @@ import { FactReference, Specification } from "jinaga";
 import { FactTypeMap, RoleMap } from "./maps";
 import { EdgeDescription, FactByLabel, QueryDescription, QueryDescriptionBuilder } from "./query-description";
 
-export function purgeDescendantsSql(triggerCount: number, schema: string): string {
-    let whereClause = "    WHERE (t.fact_type_id = $3 AND t.hash = $4)\n";
-    for (let i = 1; i < triggerCount; i++) {
-        whereClause += `        OR (t.fact_type_id = $${i * 2 + 3} AND t.hash = $${i * 2 + 4})\n`;
-    }
+/**
+ * The query that deletes the descendants of a purge root, except the
+ * triggers and their ancestors, returning the fact_id of each. To archive,
+ * it moves them into the archive tables under the purge root instead. To
+ * preview, it deletes nothing and returns the fact_id, type name and hash
+ * of each fact it would delete.
+ */
+export function purgeDescendantsSql(triggerCount: number, schema: string, action: "delete" | "archive" | "preview" = "delete"): string {
+    const whereClause = triggersWhereClause(triggerCount, 3, "    ");
     const sql =
         `WITH purge_root AS (\n` +
         `    SELECT pr.fact_id\n` +
@@ -30,18 +34,195 @@ export function purgeDescendantsSql(triggerCount: number, schema: string): strin
         `    FROM ${schema}.ancestor a\n` +
         `    JOIN purge_root pr\n` +
         `        ON a.ancestor_fact_id = pr.fact_id\n` +
-        `    WHERE a.fact_id NOT IN (SELECT * FROM triggers_and_ancestors)\n` +
+        `    WHERE a.fact_id NOT IN (SELECT * FROM triggers_and_ancestors)\n`;
+    if (action === "preview") {
+        return sql +
+            `)\n` +
+            `SELECT f.fact_id, ft.name, f.hash\n` +
+            `FROM targets t\n` +
+            `JOIN ${schema}.fact f ON f.fact_id = t.fact_id\n` +
+            `JOIN ${schema}.fact_type ft ON ft.fact_type_id = f.fact_type_id\n` +
+            `ORDER BY f.fact_id\n`;
+    }
+    if (action === "archive") {
+        return sql +
+            `), archive_targets AS (\n` +
+            `    SELECT t.fact_id, pr.fact_id AS purge_root_fact_id\n` +
+            `    FROM targets t\n` +
+            `    CROSS JOIN purge_root pr\n` +
+            archiveSql(schema);
+    }
+    return sql + purgeAllSql(schema);
+}
+
+/**
+ * The query that finds the triggers of a purge, given as $1 the fact_id of
+ * the purge root and from $2 the fact_type_id and hash of each trigger. It
+ * returns the fact_type_id and hash of each trigger that exists, and whether
+ * it descends from the purge root.
+ */
+export function purgeTriggersSql(triggerCount: number, schema: string): string {
+    return (
+        `SELECT t.fact_type_id, t.hash, EXISTS (\n` +
+        `    SELECT 1\n` +
+        `    FROM ${schema}.ancestor a\n` +
+        `    WHERE a.fact_id = t.fact_id\n` +
+        `        AND a.ancestor_fact_id = $1\n` +
+        `) AS descends\n` +
+        `FROM ${schema}.fact t\n` +
+        triggersWhereClause(triggerCount, 2, "")
+    );
+}
+
+function triggersWhereClause(triggerCount: number, firstParameter: number, indent: string): string {
+    let whereClause = `${indent}WHERE (t.fact_type_id = $${firstParameter} AND t.hash = $${firstParameter + 1})\n`;
+    for (let i = 1; i < triggerCount; i++) {
+        whereClause += `${indent}    OR (t.fact_type_id = $${i * 2 + firstParameter} AND t.hash = $${i * 2 + firstParameter + 1})\n`;
+    }
+    return whereClause;
+}
+
+/**
+ * The statements that restore the facts archived under a purge root, given
+ * as $1 its fact_id. Run them in one transaction: first each of restore in
+ * order, then unrestored, then clear.
+ *
+ * A fact that descends from more than one purge root is archived under only
+ * one of them, so the statements restore every archived descendant of the
+ * purge root, together with the archived ancestors that it needs. The facts
+ * go back first, keeping their fact_id. A fact saved again since it was
+ * archived has a new fact_id, so the edges, ancestors and signatures are
+ * mapped onto the fact as it is now.
+ *
+ * - `unrestored` returns the fact_id of each restored fact with the
+ *   missing_fact_id of an edge or ancestor that could not be restored,
+ *   because that fact is neither in the graph nor in the archive.
+ * - `clear` empties the archive of the restored facts and returns the
+ *   fact_id of each.
+ */
+export function restoreArchiveSql(schema: string): { restore: string[], unrestored: string, clear: string } {
+    // The ancestor rows of an archived fact are archived with it.
+    const subgraph =
+        `subgraph AS (\n` +
+        `    SELECT aa.fact_id\n` +
+        `    FROM ${schema}.ancestor_archive aa\n` +
+        `    WHERE aa.ancestor_fact_id = $1\n` +
+        `    UNION\n` +
+        `    SELECT aa.ancestor_fact_id\n` +
+        `    FROM ${schema}.ancestor_archive aa\n` +
+        `    JOIN ${schema}.ancestor_archive d\n` +
+        `        ON d.fact_id = aa.fact_id\n` +
+        `    JOIN ${schema}.fact_archive fa\n` +
+        `        ON fa.fact_id = aa.ancestor_fact_id\n` +
+        `    WHERE d.ancestor_fact_id = $1\n` +
+        `)`;
+    const restored =
+        `WITH ${subgraph}, restored AS (\n` +
+        `    SELECT fa.fact_id AS archived_fact_id, f.fact_id\n` +
+        `    FROM ${schema}.fact_archive fa\n` +
+        `    JOIN ${schema}.fact f\n` +
+        `        ON f.hash = fa.hash\n` +
+        `        AND f.fact_type_id = fa.fact_type_id\n` +
+        `    WHERE fa.fact_id IN (SELECT s.fact_id FROM subgraph s)\n` +
+        `)\n`;
+    const current = (column: string) =>
+        `COALESCE(\n` +
+        `    (SELECT r.fact_id FROM restored r WHERE r.archived_fact_id = ${column}),\n` +
+        `    ${column})`;
+    const restore = [
+        `WITH ${subgraph}\n` +
+        `INSERT INTO ${schema}.fact\n` +
+        `    (fact_id, fact_type_id, hash, data, date_learned)\n` +
+        `SELECT fa.fact_id, fa.fact_type_id, fa.hash, fa.data, fa.date_learned\n` +
+        `FROM ${schema}.fact_archive fa\n` +
+        `WHERE fa.fact_id IN (SELECT s.fact_id FROM subgraph s)\n` +
+        `ON CONFLICT DO NOTHING\n`,
+
+        // The predecessor of an archived edge may be a fact that was not
+        // archived, such as the purge root.
+        restored +
+        `INSERT INTO ${schema}.edge\n` +
+        `    (role_id, successor_fact_id, predecessor_fact_id)\n` +
+        `SELECT ea.role_id, s.fact_id, p.fact_id\n` +
+        `FROM ${schema}.edge_archive ea\n` +
+        `JOIN restored s ON s.archived_fact_id = ea.successor_fact_id\n` +
+        `JOIN ${schema}.fact p ON p.fact_id = ${current("ea.predecessor_fact_id")}\n` +
+        `ON CONFLICT DO NOTHING\n`,
+
+        restored +
+        `INSERT INTO ${schema}.ancestor\n` +
+        `    (fact_id, ancestor_fact_id)\n` +
+        `SELECT s.fact_id, p.fact_id\n` +
+        `FROM ${schema}.ancestor_archive aa\n` +
+        `JOIN restored s ON s.archived_fact_id = aa.fact_id\n` +
+        `JOIN ${schema}.fact p ON p.fact_id = ${current("aa.ancestor_fact_id")}\n` +
+        `ON CONFLICT DO NOTHING\n`,
+
+        restored +
+        `INSERT INTO ${schema}."signature"\n` +
+        `    (fact_id, public_key_id, signature, date_learned)\n` +
+        `SELECT s.fact_id, sa.public_key_id, sa.signature, sa.date_learned\n` +
+        `FROM ${schema}.signature_archive sa\n` +
+        `JOIN restored s ON s.archived_fact_id = sa.fact_id\n` +
+        `ON CONFLICT DO NOTHING\n`
+    ];
+    const unrestored =
+        restored +
+        `SELECT s.fact_id, ea.predecessor_fact_id AS missing_fact_id\n` +
+        `FROM ${schema}.edge_archive ea\n` +
+        `JOIN restored s ON s.archived_fact_id = ea.successor_fact_id\n` +
+        `WHERE NOT EXISTS (SELECT 1 FROM ${schema}.fact p WHERE p.fact_id = ${current("ea.predecessor_fact_id")})\n` +
+        `UNION\n` +
+        `SELECT s.fact_id, aa.ancestor_fact_id AS missing_fact_id\n` +
+        `FROM ${schema}.ancestor_archive aa\n` +
+        `JOIN restored s ON s.archived_fact_id = aa.fact_id\n` +
+        `WHERE NOT EXISTS (SELECT 1 FROM ${schema}.fact p WHERE p.fact_id = ${current("aa.ancestor_fact_id")})\n` +
+        `ORDER BY fact_id, missing_fact_id\n`;
+    const clear = deleteArchiveSql(schema, `${subgraph}, `,
+        column => `${column} IN (SELECT s.fact_id FROM subgraph s)`);
+    return { restore, unrestored, clear };
+}
+
+/**
+ * The query that deletes the rows archived before $1, returning the fact_id
+ * of each archived fact deleted.
+ */
+export function expireArchiveSql(schema: string): string {
+    return deleteArchiveSql(schema, "", () => "archived_at < $1");
+}
+
+// The condition is given the column that holds the fact_id of each row.
+function deleteArchiveSql(schema: string, ctes: string, condition: (factColumn: string) => string): string {
+    return (
+        `WITH ${ctes}edges AS (\n` +
+        `    DELETE FROM ${schema}.edge_archive WHERE ${condition("successor_fact_id")}\n` +
+        `), ancestors AS (\n` +
+        `    DELETE FROM ${schema}.ancestor_archive WHERE ${condition("fact_id")}\n` +
+        `), signatures AS (\n` +
+        `    DELETE FROM ${schema}.signature_archive WHERE ${condition("fact_id")}\n` +
         `), facts AS (\n` +
-        `    DELETE\n` +
-        `    FROM ${schema}.fact f\n` +
-        `    USING targets t WHERE t.fact_id = f.fact_id\n` +
-        `    RETURNING f.fact_id\n` +
+        `    DELETE FROM ${schema}.fact_archive WHERE ${condition("fact_id")}\n` +
+        `    RETURNING fact_id\n` +
         `)\n` +
-        `SELECT fact_id FROM facts\n`;
-    return sql;
+        `SELECT fact_id FROM facts\n`
+    );
 }
 
-export function purgeSqlFromSpecification(specification: Specification, factTypes: FactTypeMap, roleMap: RoleMap, schema: string):
+/**
+ * What the purge query of a specification does with the facts it targets.
+ *
+ * - `delete`: delete them all, or at most batchSize of them. A batch takes
+ *   the most recent facts first, so that no fact outlives a predecessor.
+ *   With archive, the facts are moved into the archive tables instead,
+ *   under the purge root that matched. Returns the fact_id of each.
+ * - `preview`: delete nothing. Returns the fact_id, type name and hash of
+ *   up to limit facts that would be deleted, each with the total count.
+ */
+export type PurgeSqlMode =
+    | { action: "delete", batchSize?: number, archive?: boolean }
+    | { action: "preview", limit: number };
+
+export function purgeSqlFromSpecification(specification: Specification, factTypes: FactTypeMap, roleMap: RoleMap, schema: string, mode: PurgeSqlMode = { action: "delete" }):
     { sql: string, parameters: (string | number)[] } | null {
     const queryDescriptionBuilder = new QueryDescriptionBuilder(factTypes, roleMap);
 
@@ -71,12 +252,12 @@ export function purgeSqlFromSpecification(specification: Specification, factType
         return null;
     }
 
-    const query = generatePurgeSqlQuery(queryDescription, schema);
+    const query = generatePurgeSqlQuery(queryDescription, schema, mode);
     return query;
 }
 
 
-function generatePurgeSqlQuery(queryDescription: QueryDescription, schema: string):
+function generatePurgeSqlQuery(queryDescription: QueryDescription, schema: string, mode: PurgeSqlMode):
     { sql: string, parameters: (string | number)[] } {
     if (queryDescription.existentialConditions.length > 0) {
         throw new Error("Purge conditions should not have existential conditions");
@@ -125,26 +306,146 @@ function generatePurgeSqlQuery(queryDescription: QueryDescription, schema: strin
         `        FROM candidates c2\n` +
         `        WHERE ${triggerWhereClauses}\n` +
         `    )\n` +
-        triggerAncestorClauses +
-        `), facts AS (\n` +
-        `    DELETE\n` +
-        `    FROM ${schema}.fact f\n` +
-        `    USING targets t WHERE t.fact_id = f.fact_id\n` +
-        `    RETURNING f.fact_id\n` +
-        `)\n` +
-        `SELECT fact_id FROM facts\n`;
+        triggerAncestorClauses;
     
     // Remove parameter 1, which is the hash of the first fact
     const parameters = [
         queryDescription.parameters[0],
         ...queryDescription.parameters.slice(2)
     ];
-        
 
-    return {
-        sql,
-        parameters: parameters
-    };
+    if (mode.action === "preview") {
+        return {
+            sql: sql + purgePreviewSql(schema, parameters.length + 1),
+            parameters: [...parameters, mode.limit]
+        };
+    }
+    else if (mode.archive) {
+        const batch = mode.batchSize !== undefined
+            ? batchSql(parameters.length + 1)
+            : "";
+        return {
+            sql: sql + batch + archiveTargetsSql(schema, batch ? "batch" : "targets") + archiveSql(schema),
+            parameters: mode.batchSize !== undefined ? [...parameters, mode.batchSize] : parameters
+        };
+    }
+    else if (mode.batchSize !== undefined) {
+        return {
+            sql: sql + purgeBatchSql(schema, parameters.length + 1),
+            parameters: [...parameters, mode.batchSize]
+        };
+    }
+    else {
+        return {
+            sql: sql + purgeAllSql(schema),
+            parameters: parameters
+        };
+    }
+}
+
+function purgeAllSql(schema: string): string {
+    return (
+        `), facts AS (\n` +
+        `    DELETE\n` +
+        `    FROM ${schema}.fact f\n` +
+        `    USING targets t WHERE t.fact_id = f.fact_id\n` +
+        `    RETURNING f.fact_id\n` +
+        `)\n` +
+        `SELECT fact_id FROM facts\n`
+    );
+}
+
+// A fact has a greater fact_id than its predecessors, so deleting in
+// descending order removes successors before the facts they refer to.
+function batchSql(limitParameter: number): string {
+    return (
+        `), batch AS (\n` +
+        `    SELECT DISTINCT t.fact_id\n` +
+        `    FROM targets t\n` +
+        `    ORDER BY t.fact_id DESC\n` +
+        `    LIMIT $${limitParameter}\n`
+    );
+}
+
+function purgeBatchSql(schema: string, limitParameter: number): string {
+    return (
+        batchSql(limitParameter) +
+        `), facts AS (\n` +
+        `    DELETE\n` +
+        `    FROM ${schema}.fact f\n` +
+        `    USING batch b WHERE b.fact_id = f.fact_id\n` +
+        `    RETURNING f.fact_id\n` +
+        `)\n` +
+        `SELECT fact_id FROM facts\n`
+    );
+}
+
+// A target may descend from more than one purge root. It is archived under
+// one of them, and restoring any of them restores it.
+function archiveTargetsSql(schema: string, source: string): string {
+    return (
+        `), archive_targets AS (\n` +
+        `    SELECT a.fact_id, min(a.ancestor_fact_id) AS purge_root_fact_id\n` +
+        `    FROM ${schema}.ancestor a\n` +
+        `    JOIN candidates c ON c.purge_root = a.ancestor_fact_id\n` +
+        `    WHERE a.fact_id IN (SELECT s.fact_id FROM ${source} s)\n` +
+        `    GROUP BY a.fact_id\n`
+    );
+}
+
+// Copy the rows of each target out of the graph, then delete the fact. Every
+// part of the statement sees the graph as it was before the delete, and the
+// delete cascades to the rows copied. The successors of a target are targets
+// too, so its edges are those to its predecessors.
+function archiveSql(schema: string): string {
+    return (
+        `), archived_facts AS (\n` +
+        `    INSERT INTO ${schema}.fact_archive\n` +
+        `        (fact_id, fact_type_id, hash, data, date_learned, purge_root_fact_id)\n` +
+        `    SELECT f.fact_id, f.fact_type_id, f.hash, f.data, f.date_learned, tg.purge_root_fact_id\n` +
+        `    FROM ${schema}.fact f\n` +
+        `    JOIN archive_targets tg ON tg.fact_id = f.fact_id\n` +
+        `), archived_edges AS (\n` +
+        `    INSERT INTO ${schema}.edge_archive\n` +
+        `        (role_id, successor_fact_id, predecessor_fact_id, purge_root_fact_id)\n` +
+        `    SELECT e.role_id, e.successor_fact_id, e.predecessor_fact_id, tg.purge_root_fact_id\n` +
+        `    FROM ${schema}.edge e\n` +
+        `    JOIN archive_targets tg ON tg.fact_id = e.successor_fact_id\n` +
+        `), archived_ancestors AS (\n` +
+        `    INSERT INTO ${schema}.ancestor_archive\n` +
+        `        (fact_id, ancestor_fact_id, purge_root_fact_id)\n` +
+        `    SELECT an.fact_id, an.ancestor_fact_id, tg.purge_root_fact_id\n` +
+        `    FROM ${schema}.ancestor an\n` +
+        `    JOIN archive_targets tg ON tg.fact_id = an.fact_id\n` +
+        `), archived_signatures AS (\n` +
+        `    INSERT INTO ${schema}.signature_archive\n` +
+        `        (fact_id, public_key_id, signature, date_learned, purge_root_fact_id)\n` +
+        `    SELECT sg.fact_id, sg.public_key_id, sg.signature, sg.date_learned, tg.purge_root_fact_id\n` +
+        `    FROM ${schema}."signature" sg\n` +
+        `    JOIN archive_targets tg ON tg.fact_id = sg.fact_id\n` +
+        `), facts AS (\n` +
+        `    DELETE\n` +
+        `    FROM ${schema}.fact f\n` +
+        `    USING archive_targets tg WHERE tg.fact_id = f.fact_id\n` +
+        `    RETURNING f.fact_id\n` +
+        `)\n` +
+        `SELECT fact_id FROM facts\n`
+    );
+}
+
+function purgePreviewSql(schema: string, limitParameter: number): string {
+    return (
+        `), distinct_targets AS (\n` +
+        `    SELECT DISTINCT t.fact_id\n` +
+        `    FROM targets t\n` +
+        `)\n` +
+        `SELECT f.fact_id, ft.name, f.hash, count(*) OVER () AS total\n` +
+        `FROM distinct_targets t\n` +
+        `JOIN ${schema}.fact f ON f.fact_id = t.fact_id\n` +
+        `JOIN ${schema}.fact_type ft ON ft.fact_type_id = f.fact_type_id\n` +
+        `ORDER BY f.fact_id\n` +
+        `LIMIT $${limitParameter}\n`
+    );
 }
 
 function generateJoins(edges: EdgeDescription[], writtenFactIndexes: Set<number>, schema: string) {
@@ -34,6 +34,18 @@ export interface OutputDescription {
     factIndex: number;
 }
 
+// date_learned is a timestamp without time zone that holds UTC, so an
+// instant is compared by its UTC wall-clock time.
+export function dateLearnedParameter(instant: Date): string {
+    return instant.toISOString().replace("Z", "");
+}
+
+// Admit only the facts learned by the as-of instant. The condition sits on
+// each fact's own join, so the edge indexes still lead the plan.
+export function learnedBy(factIndex: number, asOfParameter: number | null): string {
+    return asOfParameter === null ? "" : ` AND f${factIndex}.date_learned <= $${asOfParameter}`;
+}
+
 function countEdges(existentialConditions: ExistentialConditionDescription[]): number {
     return existentialConditions.reduce((count, c) => count + c.edges.length + countEdges(c.existentialConditions),
         0);
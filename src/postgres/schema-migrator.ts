@@ -0,0 +1,93 @@
+import { Pool, PoolClient } from "pg";
+
+import { Logger } from "../logger";
+import { ConnectionFactory } from "./connection";
+import { latestVersion, MigrationSet } from "./migrations";
+
+/**
+ * Applies the migrations of one component to a schema, and records each in
+ * the schema's schema_version table. Migrating is idempotent: the
+ * migrations already recorded are skipped, and nodes that start together
+ * take turns.
+ */
+export class SchemaMigrator {
+    private readonly connectionFactory: ConnectionFactory;
+
+    constructor(
+        pool: Pool,
+        private readonly schema: string,
+        private readonly migrations: MigrationSet,
+        private readonly logger: Logger
+    ) {
+        this.connectionFactory = new ConnectionFactory(pool, logger);
+    }
+
+    /** The latest version applied, or 0 when none has been recorded. */
+    async currentVersion(): Promise<number> {
+        return await this.connectionFactory.with(connection => this.readVersion(connection));
+    }
+
+    /**
+     * Apply the pending migrations in one transaction, and return the
+     * version that the schema is now at.
+     */
+    async migrate(): Promise<number> {
+        const { component } = this.migrations;
+        return await this.connectionFactory.withTransaction(async (connection) => {
+            await connection.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`${this.schema}.${component}`]);
+            await connection.query(`CREATE SCHEMA IF NOT EXISTS ${this.schema}`);
+            await connection.query(
+                `CREATE TABLE IF NOT EXISTS ${this.schema}.schema_version (\n` +
+                `    component character varying(50) NOT NULL,\n` +
+                `    version integer NOT NULL,\n` +
+                `    description character varying(200) NOT NULL,\n` +
+                `    applied_at timestamp with time zone NOT NULL DEFAULT now(),\n` +
+                `    PRIMARY KEY (component, version)\n` +
+                `)`);
+
+            let version = await this.readVersion(connection);
+            const pending = this.migrations.migrations
+                .filter(migration => migration.version > version)
+                .sort((a, b) => a.version - b.version);
+            for (const migration of pending) {
+                await connection.query(migration.sql(this.schema));
+                await connection.query(
+                    `INSERT INTO ${this.schema}.schema_version (component, version, description) VALUES ($1, $2, $3)`,
+                    [component, migration.version, migration.description]);
+                version = migration.version;
+                this.logger.info("Applied schema migration", {
+                    component,
+                    schema: this.schema,
+                    version,
+                    description: migration.description
+                });
+            }
+            return version;
+        });
+    }
+
+    /** Reject when the schema is behind the latest migration. */
+    async verify(): Promise<void> {
+        const { component } = this.migrations;
+        const version = await this.currentVersion();
+        const required = latestVersion(this.migrations);
+        if (version < required) {
+            throw new Error(
+                `The ${component} schema "${this.schema}" is at version ${version}, but this server requires version ${required}. ` +
+                `Set migrateSchema to apply the migrations at startup.`);
+        }
+    }
+
+    private async readVersion(connection: PoolClient): Promise<number> {
+        const { rows: tables } = await connection.query(
+            "SELECT to_regclass(quote_ident($1) || '.schema_version') IS NOT NULL AS exists",
+            [this.schema]);
+        if (!tables[0].exists) {
+            return 0;
+        }
+        const { rows } = await connection.query(
+            `SELECT coalesce(max(version), 0) AS version FROM ${this.schema}.schema_version WHERE component = $1`,
+            [this.migrations.component]);
+        return rows[0].version;
+    }
+}
@@ -20,9 +20,15 @@ import {
 } from "jinaga";
 
 import { FactTypeMap, RoleMap } from "./maps";
-import { EdgeDescription, ExistentialConditionDescription, FactByLabel, QueryDescription, QueryDescriptionBuilder } from "./query-description";
-
-function generateResultSqlQuery(queryDescription: QueryDescription, schema: string): SpecificationSqlQuery {
+import { dateLearnedParameter, EdgeDescription, ExistentialConditionDescription, FactByLabel, learnedBy, QueryDescription, QueryDescriptionBuilder } from "./query-description";
+
+function generateResultSqlQuery(queryDescription: QueryDescription, schema: string, asOf: Date | null): SpecificationSqlQuery {
+    let asOfParameter: number | null = null;
+    if (asOf) {
+        const { query, parameterIndex } = queryDescription.withParameter(dateLearnedParameter(asOf));
+        queryDescription = query;
+        asOfParameter = parameterIndex;
+    }
     const allLabels = [ ...queryDescription.inputs, ...queryDescription.outputs ];
     const columns = allLabels
         .map(label => `f${label.factIndex}.hash as hash${label.factIndex}, f${label.factIndex}.fact_id as id${label.factIndex}, f${label.factIndex}.data as data${label.factIndex}, f${label.factIndex}.date_learned as timestamp${label.factIndex}`)
@@ -32,14 +38,14 @@ function generateResultSqlQuery(queryDescription: QueryDescription, schema: stri
     const successorFact = queryDescription.inputs.find(i => i.factIndex === firstEdge.successorFactIndex);
     const firstFactIndex = predecessorFact ? predecessorFact.factIndex : successorFact!.factIndex;
     const writtenFactIndexes = new Set<number>().add(firstFactIndex);
-    const joins: string[] = generateJoins(queryDescription.edges, writtenFactIndexes, schema);
+    const joins: string[] = generateJoins(queryDescription.edges, writtenFactIndexes, schema, asOfParameter);
     // Add all input fact indexes to writtenFactIndexes since they're available in the FROM clause
     queryDescription.inputs.forEach(input => writtenFactIndexes.add(input.factIndex));
     const inputWhereClauses = queryDescription.inputs
-        .map(input => `f${input.factIndex}.fact_type_id = $${input.factTypeParameter} AND f${input.factIndex}.hash = $${input.factHashParameter}`)
+        .map(input => `f${input.factIndex}.fact_type_id = $${input.factTypeParameter} AND f${input.factIndex}.hash = $${input.factHashParameter}${learnedBy(input.factIndex, asOfParameter)}`)
         .join(" AND ");
     const existentialWhereClauses = queryDescription.existentialConditions
-        .map(existentialCondition => ` AND ${existentialCondition.exists ? "EXISTS" : "NOT EXISTS"} (${generateExistentialWhereClause(existentialCondition, writtenFactIndexes, schema)})`)
+        .map(existentialCondition => ` AND ${existentialCondition.exists ? "EXISTS" : "NOT EXISTS"} (${generateExistentialWhereClause(existentialCondition, writtenFactIndexes, schema, asOfParameter)})`)
         .join("");
     const orderByClause = queryDescription.outputs
         .map(output => `f${output.factIndex}.fact_id ASC`)
@@ -57,7 +63,7 @@ function generateResultSqlQuery(queryDescription: QueryDescription, schema: stri
     };
 }
 
-function generateJoins(edges: EdgeDescription[], writtenFactIndexes: Set<number>, schema: string) {
+function generateJoins(edges: EdgeDescription[], writtenFactIndexes: Set<number>, schema: string, asOfParameter: number | null) {
     const joins: string[] = [];
     edges.forEach(edge => {
         if (writtenFactIndexes.has(edge.predecessorFactIndex)) {
@@ -77,7 +83,8 @@ function generateJoins(edges: EdgeDescription[], writtenFactIndexes: Set<number>
                 );
                 joins.push(
                     ` JOIN ${schema}.fact f${edge.successorFactIndex}` +
-                    ` ON f${edge.successorFactIndex}.fact_id = e${edge.edgeIndex}.successor_fact_id`
+                    ` ON f${edge.successorFactIndex}.fact_id = e${edge.edgeIndex}.successor_fact_id` +
+                    learnedBy(edge.successorFactIndex, asOfParameter)
                 );
                 writtenFactIndexes.add(edge.successorFactIndex);
             }
@@ -90,7 +97,8 @@ function generateJoins(edges: EdgeDescription[], writtenFactIndexes: Set<number>
             );
             joins.push(
                 ` JOIN ${schema}.fact f${edge.predecessorFactIndex}` +
-                ` ON f${edge.predecessorFactIndex}.fact_id = e${edge.edgeIndex}.predecessor_fact_id`
+                ` ON f${edge.predecessorFactIndex}.fact_id = e${edge.edgeIndex}.predecessor_fact_id` +
+                learnedBy(edge.predecessorFactIndex, asOfParameter)
             );
             writtenFactIndexes.add(edge.predecessorFactIndex);
         }
@@ -101,7 +109,7 @@ function generateJoins(edges: EdgeDescription[], writtenFactIndexes: Set<number>
     return joins;
 }
 
-function generateExistentialWhereClause(existentialCondition: ExistentialConditionDescription, outerFactIndexes: Set<number>, schema: string): string {
+function generateExistentialWhereClause(existentialCondition: ExistentialConditionDescription, outerFactIndexes: Set<number>, schema: string, asOfParameter: number | null): string {
     const firstEdge = existentialCondition.edges[0];
     const writtenFactIndexes = new Set<number>(outerFactIndexes);
     const firstJoin: string[] = [];
@@ -117,7 +125,8 @@ function generateExistentialWhereClause(existentialCondition: ExistentialConditi
             );
             firstJoin.push(
                 ` JOIN ${schema}.fact f${firstEdge.successorFactIndex}` +
-                ` ON f${firstEdge.successorFactIndex}.fact_id = e${firstEdge.edgeIndex}.successor_fact_id`
+                ` ON f${firstEdge.successorFactIndex}.fact_id = e${firstEdge.edgeIndex}.successor_fact_id` +
+                learnedBy(firstEdge.successorFactIndex, asOfParameter)
             );
             writtenFactIndexes.add(firstEdge.successorFactIndex);
         }
@@ -129,20 +138,21 @@ function generateExistentialWhereClause(existentialCondition: ExistentialConditi
         );
         firstJoin.push(
             ` JOIN ${schema}.fact f${firstEdge.predecessorFactIndex}` +
-            ` ON f${firstEdge.predecessorFactIndex}.fact_id = e${firstEdge.edgeIndex}.predecessor_fact_id`
+            ` ON f${firstEdge.predecessorFactIndex}.fact_id = e${firstEdge.edgeIndex}.predecessor_fact_id` +
+            learnedBy(firstEdge.predecessorFactIndex, asOfParameter)
         );
         writtenFactIndexes.add(firstEdge.predecessorFactIndex);
     }
     else {
         throw new Error("Neither predecessor nor successor fact has been written");
     }
-    const tailJoins: string[] = generateJoins(existentialCondition.edges.slice(1), writtenFactIndexes, schema);
+    const tailJoins: string[] = generateJoins(existentialCondition.edges.slice(1), writtenFactIndexes, schema, asOfParameter);
     const joins = firstJoin.concat(tailJoins);
     const inputWhereClauses = existentialCondition.inputs
         .map(input => ` AND f${input.factIndex}.fact_type_id = $${input.factTypeParameter} AND f${input.factIndex}.hash = $${input.factHashParameter}`)
         .join("");
     const existentialWhereClauses = existentialCondition.existentialConditions
-        .map(e => ` AND ${e.exists ? "EXISTS" : "NOT EXISTS"} (${generateExistentialWhereClause(e, writtenFactIndexes, schema)})`)
+        .map(e => ` AND ${e.exists ? "EXISTS" : "NOT EXISTS"} (${generateExistentialWhereClause(e, writtenFactIndexes, schema, asOfParameter)})`)
         .join("");
     return `SELECT 1 FROM ${schema}.edge e${firstEdge.edgeIndex}${joins.join("")} WHERE ${whereClause.join(" AND ")}${inputWhereClauses}${existentialWhereClauses}`;
 }
@@ -216,6 +226,62 @@ interface NamedResultSetTree extends ResultSetTree {
     name: string;
 }
 
+/**
+ * Fetches the rows of one query in the tree, in order, a chunk at a time.
+ * Fewer rows than requested means that the query is exhausted.
+ */
+export interface ResultSetCursor {
+    fetch(count: number): Promise<ResultSetRow[]>;
+}
+
+export interface ResultSetCursorTree {
+    cursor: ResultSetCursor;
+    childCursors: NamedResultSetCursorTree[];
+}
+
+interface NamedResultSetCursorTree extends ResultSetCursorTree {
+    name: string;
+}
+
+class BufferedCursor {
+    private rows: ResultSetRow[] = [];
+    private position = 0;
+    private exhausted = false;
+
+    constructor(
+        private readonly cursor: ResultSetCursor,
+        private readonly chunkSize: number
+    ) { }
+
+    async peek(): Promise<ResultSetRow | null> {
+        if (this.position === this.rows.length && !this.exhausted) {
+            this.rows = await this.cursor.fetch(this.chunkSize);
+            this.position = 0;
+            this.exhausted = this.rows.length < this.chunkSize;
+        }
+        return this.position < this.rows.length ? this.rows[this.position] : null;
+    }
+
+    take(): ResultSetRow {
+        return this.rows[this.position++];
+    }
+}
+
+interface BufferedCursorTree {
+    cursor: BufferedCursor;
+    childCursors: { name: string, tree: BufferedCursorTree }[];
+}
+
+function bufferCursors(cursors: ResultSetCursorTree, chunkSize: number): BufferedCursorTree {
+    return {
+        cursor: new BufferedCursor(cursors.cursor, chunkSize),
+        childCursors: cursors.childCursors.map(child => ({
+            name: child.name,
+            tree: bufferCursors(child, chunkSize)
+        }))
+    };
+}
+
 export class ResultComposer {
     constructor(
         private readonly sqlQuery: SpecificationSqlQuery,
@@ -297,6 +363,66 @@ export class ResultComposer {
         }
     }
 
+    /**
+     * Compose results from cursors over the query tree returned by
+     * getSqlQueries, one batch of top-level rows at a time. Every query is
+     * ordered by fact ID, and a child's leading IDs are its parent's, so a
+     * batch takes the child rows up to its last parent and leaves the rest
+     * for the next batch.
+     */
+    public async *composeFromCursors(
+        cursors: ResultSetCursorTree,
+        loadFacts: (references: FactReference[]) => Promise<FactRecord[]>,
+        batchSize: number
+    ): AsyncGenerator<ProjectedResult> {
+        const buffers = bufferCursors(cursors, batchSize);
+        while (true) {
+            const resultSets = await this.takeRows(buffers, batchSize, () => true);
+            if (resultSets.resultSet.length === 0) {
+                return;
+            }
+            const factRecords = await loadFacts(this.findFactReferences(resultSets));
+            for (const result of this.compose(resultSets, factRecords)) {
+                yield result;
+            }
+        }
+    }
+
+    private async takeRows(
+        buffers: BufferedCursorTree,
+        limit: number,
+        accept: (row: ResultSetRow) => boolean
+    ): Promise<ResultSetTree> {
+        const rows: ResultSetRow[] = [];
+        let row: ResultSetRow | null;
+        while (rows.length < limit && (row = await buffers.cursor.peek()) !== null && accept(row)) {
+            rows.push(buffers.cursor.take());
+        }
+
+        const last = rows.length > 0 ? this.identifierOf(rows[rows.length - 1]) : null;
+        const childResultSets: NamedResultSetTree[] = [];
+        for (const childResultComposer of this.childResultComposers) {
+            const childBuffers = buffers.childCursors.find(child => child.name === childResultComposer.name);
+            if (!childBuffers) {
+                const availableNames = buffers.childCursors.map(child => child.name);
+                throw new Error(`Child cursor ${childResultComposer.name} not found in (${availableNames.join(", ")})`);
+            }
+            const composer = childResultComposer.resultComposer;
+            const childResultSet = last === null
+                ? { resultSet: [], childResultSets: [] }
+                : await composer.takeRows(childBuffers.tree, Infinity, childRow =>
+                    compareIds(composer.identifierOf(childRow).slice(0, composer.parentFactIdLength), last) <= 0);
+            childResultSets.push({
+                name: childResultComposer.name,
+                ...childResultSet
+            });
+        }
+        return {
+            resultSet: rows,
+            childResultSets
+        };
+    }
+
     private composeInternal(
         resultSets: ResultSetTree,
         factRecords: FactRecord[]
@@ -608,7 +734,21 @@ function idsEqual(a: number[], b: number[]) {
     return a.every((value, index) => value === b[index]);
 }
 
-export function resultSqlFromSpecification(start: FactReference[], specification: Specification, factTypes: FactTypeMap, roleMap: RoleMap, schema: string): ResultComposer | null {
+function compareIds(a: number[], b: number[]) {
+    for (let index = 0; index < a.length && index < b.length; index++) {
+        if (a[index] !== b[index]) {
+            return a[index] < b[index] ? -1 : 1;
+        }
+    }
+    return a.length - b.length;
+}
+
+/**
+ * Compose the queries that read a specification. With asOf, the queries see
+ * the graph as it stood at that instant: facts learned later are left out of
+ * every join and existential condition.
+ */
+export function resultSqlFromSpecification(start: FactReference[], specification: Specification, factTypes: FactTypeMap, roleMap: RoleMap, schema: string, asOf: Date | null = null): ResultComposer | null {
     const queryDescriptionBuilder = new QueryDescriptionBuilder(factTypes, roleMap);
     const descriptionBuilder = new ResultDescriptionBuilder(queryDescriptionBuilder);
     const description = descriptionBuilder.buildDescription(start, specification);
@@ -616,17 +756,17 @@ export function resultSqlFromSpecification(start: FactReference[], specification
     if (!description.queryDescription.isSatisfiable()) {
         return null;
     }
-    return createResultComposer(description, start.length, schema);
+    return createResultComposer(description, start.length, schema, asOf);
 }
 
-function createResultComposer(description: ResultDescription, parentFactIdLength: number, schema: string): ResultComposer {
-    const sqlQuery = generateResultSqlQuery(description.queryDescription, schema);
+function createResultComposer(description: ResultDescription, parentFactIdLength: number, schema: string, asOf: Date | null): ResultComposer {
+    const sqlQuery = generateResultSqlQuery(description.queryDescription, schema, asOf);
     const resultProjection = description.resultProjection;
     const childResultComposers = description.childResultDescriptions
         .filter(child => child.queryDescription.isSatisfiable())
         .map(child => ({
             name: child.name,
-            resultComposer: createResultComposer(child, description.queryDescription.outputLength(), schema)
+            resultComposer: createResultComposer(child, description.queryDescription.outputLength(), schema, asOf)
         }));
     return new ResultComposer(sqlQuery, resultProjection, parentFactIdLength, description.givenTuple, childResultComposers);
 }
\ No newline at end of file
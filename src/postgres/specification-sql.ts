@@ -5,7 +5,7 @@ import {
     validateGiven
 } from "jinaga";
 
-import { EdgeDescription, ExistentialConditionDescription, QueryDescription, QueryDescriptionBuilder } from "./query-description";
+import { dateLearnedParameter, EdgeDescription, ExistentialConditionDescription, learnedBy, QueryDescription, QueryDescriptionBuilder } from "./query-description";
 
 interface SpecificationLabel {
     type: string;
@@ -19,7 +19,13 @@ interface SpecificationSqlQuery {
     bookmark: string;
 };
 
-function generateSqlQuery(queryDescription: QueryDescription, schema: string, bookmark: string, limit: number): SpecificationSqlQuery {
+function generateSqlQuery(queryDescription: QueryDescription, schema: string, bookmark: string, limit: number, upperBookmark?: string, asOf: Date | null = null): SpecificationSqlQuery {
+    let asOfParameter: number | null = null;
+    if (asOf) {
+        const { query, parameterIndex } = queryDescription.withParameter(dateLearnedParameter(asOf));
+        queryDescription = query;
+        asOfParameter = parameterIndex;
+    }
     const hashes = queryDescription.outputs
         .map(output => `f${output.factIndex}.hash as hash${output.factIndex}`)
         .join(", ");
@@ -31,26 +37,32 @@ function generateSqlQuery(queryDescription: QueryDescription, schema: string, bo
     const successorFact = queryDescription.inputs.find(i => i.factIndex === firstEdge.successorFactIndex);
     const firstFactIndex = predecessorFact ? predecessorFact.factIndex : successorFact!.factIndex;
     const writtenFactIndexes = new Set<number>().add(firstFactIndex);
-    const joins: string[] = generateJoins(schema, queryDescription.edges, writtenFactIndexes);
+    const joins: string[] = generateJoins(schema, queryDescription.edges, writtenFactIndexes, asOfParameter);
     const inputWhereClauses = queryDescription.inputs
         .filter(input => input.factTypeParameter !== 0)
-        .map(input => `f${input.factIndex}.fact_type_id = $${input.factTypeParameter} AND f${input.factIndex}.hash = $${input.factHashParameter}`)
+        .map(input => `f${input.factIndex}.fact_type_id = $${input.factTypeParameter} AND f${input.factIndex}.hash = $${input.factHashParameter}${learnedBy(input.factIndex, asOfParameter)}`)
         .join(" AND ");
     const notExistsWhereClauses = (queryDescription.existentialConditions
         .filter(c => c.exists === false))
-        .map(notExistsWhereClause => ` AND NOT EXISTS (${generateNotExistsWhereClause(schema, notExistsWhereClause, writtenFactIndexes)})`)
+        .map(notExistsWhereClause => ` AND NOT EXISTS (${generateNotExistsWhereClause(schema, notExistsWhereClause, writtenFactIndexes, asOfParameter)})`)
         .join("");
     const existsWhereClauses = (queryDescription.existentialConditions
         .filter(c => c.exists === true))
-        .map(existsWhereClause => ` AND EXISTS (${generateNotExistsWhereClause(schema, existsWhereClause, writtenFactIndexes)})`)
+        .map(existsWhereClause => ` AND EXISTS (${generateNotExistsWhereClause(schema, existsWhereClause, writtenFactIndexes, asOfParameter)})`)
         .join("");
     const bookmarkParameter = queryDescription.parameters.length + 1;
     const limitParameter = bookmarkParameter + 1;
-    const sql = `SELECT ${hashes}, sort(array[${factIds}], 'desc') as bookmark FROM ${schema}.fact f${firstFactIndex}${joins.join("")} WHERE ${inputWhereClauses}${notExistsWhereClauses}${existsWhereClauses} AND sort(array[${factIds}], 'desc') > $${bookmarkParameter} ORDER BY bookmark ASC LIMIT $${limitParameter}`;
+    // The upper bound is inclusive, so adjacent windows can share the
+    // bookmark that separates them.
+    const upperBookmarkClause = upperBookmark
+        ? ` AND sort(array[${factIds}], 'desc') <= $${limitParameter + 1}`
+        : "";
+    const sql = `SELECT ${hashes}, sort(array[${factIds}], 'desc') as bookmark FROM ${schema}.fact f${firstFactIndex}${joins.join("")} WHERE ${inputWhereClauses}${notExistsWhereClauses}${existsWhereClauses} AND sort(array[${factIds}], 'desc') > $${bookmarkParameter}${upperBookmarkClause} ORDER BY bookmark ASC LIMIT $${limitParameter}`;
     const bookmarkValue: number[] = parseBookmark(bookmark);
+    const upperBookmarkParameters = upperBookmark ? [parseBookmark(upperBookmark)] : [];
     return {
         sql,
-        parameters: [...queryDescription.parameters, bookmarkValue, limit],
+        parameters: [...queryDescription.parameters, bookmarkValue, limit, ...upperBookmarkParameters],
         labels: queryDescription.outputs.map(output => ({
             type: output.type,
             index: output.factIndex
@@ -59,7 +71,7 @@ function generateSqlQuery(queryDescription: QueryDescription, schema: string, bo
     };
 }
 
-function generateJoins(schema: string, edges: EdgeDescription[], writtenFactIndexes: Set<number>) {
+function generateJoins(schema: string, edges: EdgeDescription[], writtenFactIndexes: Set<number>, asOfParameter: number | null) {
     const joins: string[] = [];
     edges.forEach(edge => {
         if (writtenFactIndexes.has(edge.predecessorFactIndex)) {
@@ -79,7 +91,8 @@ function generateJoins(schema: string, edges: EdgeDescription[], writtenFactInde
                 );
                 joins.push(
                     ` JOIN ${schema}.fact f${edge.successorFactIndex}` +
-                    ` ON f${edge.successorFactIndex}.fact_id = e${edge.edgeIndex}.successor_fact_id`
+                    ` ON f${edge.successorFactIndex}.fact_id = e${edge.edgeIndex}.successor_fact_id` +
+                    learnedBy(edge.successorFactIndex, asOfParameter)
                 );
                 writtenFactIndexes.add(edge.successorFactIndex);
             }
@@ -92,7 +105,8 @@ function generateJoins(schema: string, edges: EdgeDescription[], writtenFactInde
             );
             joins.push(
                 ` JOIN ${schema}.fact f${edge.predecessorFactIndex}` +
-                ` ON f${edge.predecessorFactIndex}.fact_id = e${edge.edgeIndex}.predecessor_fact_id`
+                ` ON f${edge.predecessorFactIndex}.fact_id = e${edge.edgeIndex}.predecessor_fact_id` +
+                learnedBy(edge.predecessorFactIndex, asOfParameter)
             );
             writtenFactIndexes.add(edge.predecessorFactIndex);
         }
@@ -103,7 +117,7 @@ function generateJoins(schema: string, edges: EdgeDescription[], writtenFactInde
     return joins;
 }
 
-function generateNotExistsWhereClause(schema: string, notExistsWhereClause: ExistentialConditionDescription, outerFactIndexes: Set<number>): string {
+function generateNotExistsWhereClause(schema: string, notExistsWhereClause: ExistentialConditionDescription, outerFactIndexes: Set<number>, asOfParameter: number | null): string {
     const firstEdge = notExistsWhereClause.edges[0];
     const writtenFactIndexes = new Set<number>(outerFactIndexes);
     const firstJoin: string[] = [];
@@ -119,7 +133,8 @@ function generateNotExistsWhereClause(schema: string, notExistsWhereClause: Exis
             );
             firstJoin.push(
                 ` JOIN ${schema}.fact f${firstEdge.successorFactIndex}` +
-                ` ON f${firstEdge.successorFactIndex}.fact_id = e${firstEdge.edgeIndex}.successor_fact_id`
+                ` ON f${firstEdge.successorFactIndex}.fact_id = e${firstEdge.edgeIndex}.successor_fact_id` +
+                learnedBy(firstEdge.successorFactIndex, asOfParameter)
             );
             writtenFactIndexes.add(firstEdge.successorFactIndex);
         }
@@ -131,20 +146,21 @@ function generateNotExistsWhereClause(schema: string, notExistsWhereClause: Exis
         );
         firstJoin.push(
             ` JOIN ${schema}.fact f${firstEdge.predecessorFactIndex}` +
-            ` ON f${firstEdge.predecessorFactIndex}.fact_id = e${firstEdge.edgeIndex}.predecessor_fact_id`
+            ` ON f${firstEdge.predecessorFactIndex}.fact_id = e${firstEdge.edgeIndex}.predecessor_fact_id` +
+            learnedBy(firstEdge.predecessorFactIndex, asOfParameter)
         );
         writtenFactIndexes.add(firstEdge.predecessorFactIndex);
     }
     else {
         throw new Error("Neither predecessor nor successor fact has been written");
     }
-    const tailJoins: string[] = generateJoins(schema, notExistsWhereClause.edges.slice(1), writtenFactIndexes);
+    const tailJoins: string[] = generateJoins(schema, notExistsWhereClause.edges.slice(1), writtenFactIndexes, asOfParameter);
     const joins = firstJoin.concat(tailJoins);
     const inputWhereClauses = notExistsWhereClause.inputs
         .map(input => ` AND f${input.factIndex}.fact_type_id = $${input.factTypeParameter} AND f${input.factIndex}.hash = $${input.factHashParameter}`)
         .join("");
     const nestedExistsWhereClauses = notExistsWhereClause.existentialConditions
-        .map(nested => ` AND ${nested.exists ? "EXISTS" : "NOT EXISTS"} (${generateNotExistsWhereClause(schema, nested, writtenFactIndexes)})`)
+        .map(nested => ` AND ${nested.exists ? "EXISTS" : "NOT EXISTS"} (${generateNotExistsWhereClause(schema, nested, writtenFactIndexes, asOfParameter)})`)
         .join("");
     return `SELECT 1 FROM ${schema}.edge e${firstEdge.edgeIndex}${joins.join("")} WHERE ${whereClause.join(" AND ")}${inputWhereClauses}${nestedExistsWhereClauses}`;
 }
@@ -202,13 +218,13 @@ export function sqlFromSpecification(start: FactReference[], schema: string, boo
     return sqlQueries;
 }
 
-export function sqlFromFeed(feed: Specification, start: FactReference[], schema: string, bookmark: string, limit: number, factTypes: Map<string, number>, roleMap: Map<number, Map<string, number>>): SpecificationSqlQuery | null {
+export function sqlFromFeed(feed: Specification, start: FactReference[], schema: string, bookmark: string, limit: number, factTypes: Map<string, number>, roleMap: Map<number, Map<string, number>>, upperBookmark?: string, asOf: Date | null = null): SpecificationSqlQuery | null {
     const queryDescriptionBuilder = new QueryDescriptionBuilder(factTypes, roleMap);
     const queryDescription = buildQueryDescription(queryDescriptionBuilder, feed, start);
     if (!queryDescription.isSatisfiable()) {
         return null;
     }
-    const sql = generateSqlQuery(queryDescription, schema, bookmark, limit);
+    const sql = generateSqlQuery(queryDescription, schema, bookmark, limit, upperBookmark, asOf);
     return sql;
 }
 
@@ -0,0 +1,111 @@
+import { describeSpecification, FactReference, Invalid, Specification, Storage } from "jinaga";
+
+import { RequestUser } from "../http/router";
+import { PurgeArchive } from "./purge-archive";
+import { purgeConditionName } from "./purge-scheduler";
+
+/** A fact that a purge deletes, or would delete. */
+export type PurgeTarget = {
+    factId: number,
+    type: string,
+    hash: string
+};
+
+/**
+ * A store that can show and run the purge of one purge root. Descendants of
+ * the purge root are deleted, except the triggers and their ancestors. Both
+ * reject with Invalid when the purge root or a trigger does not exist, or
+ * when a trigger does not descend from the purge root.
+ */
+export interface PurgeRootStorage {
+    previewPurgeDescendants(purgeRoot: FactReference, triggers: FactReference[]): Promise<PurgeTarget[]>;
+    /** Delete the descendants and return the fact_id of each. */
+    purgeDescendantIds(purgeRoot: FactReference, triggers: FactReference[]): Promise<number[]>;
+}
+
+export function isPurgeRootStorage(store: Storage): store is Storage & PurgeRootStorage {
+    const candidate = store as Partial<PurgeRootStorage>;
+    return typeof candidate.previewPurgeDescendants === "function" && typeof candidate.purgeDescendantIds === "function";
+}
+
+/** Decides whether an authenticated user may use the admin routes. */
+export type AdministratorCheck = (user: RequestUser) => boolean | Promise<boolean>;
+
+/** What the admin routes of HttpRouter need to inspect and run purges. */
+export type PurgeAdministration = {
+    store: PurgeRootStorage,
+    conditions: Specification[],
+    isAdministrator: AdministratorCheck,
+    /**
+     * When the store archives purged facts, the archive that the restore
+     * and expire routes work on.
+     */
+    archive: PurgeArchive | null
+};
+
+export type PurgeRootMessage = {
+    purgeRoot: FactReference,
+    triggers: FactReference[]
+};
+
+export type PurgeRestoreMessage = {
+    purgeRoot: FactReference
+};
+
+export type PurgeConditionDescription = {
+    name: string,
+    /** The condition in the Jinaga specification syntax. */
+    specification: string
+};
+
+export function describePurgeConditions(conditions: Specification[]): PurgeConditionDescription[] {
+    return conditions.map(specification => ({
+        name: purgeConditionName(specification),
+        specification: describeSpecification(specification, 0)
+    }));
+}
+
+/**
+ * Read a purge root and its triggers from a JSON body. At least one trigger
+ * is required: without one, every descendant of the purge root would go.
+ */
+export function parsePurgeRootMessage(input: any): PurgeRootMessage {
+    const message = typeof input === "string" ? parseJson(input) : input;
+    if (typeof message !== "object" || message === null) {
+        throw new Invalid("Expected a JSON object with purgeRoot and triggers.");
+    }
+    const purgeRoot = parseFactReference(message.purgeRoot, "purgeRoot");
+    if (!Array.isArray(message.triggers) || message.triggers.length === 0) {
+        throw new Invalid("triggers must be a non-empty array of fact references.");
+    }
+    const triggers = message.triggers.map((trigger: unknown, index: number) =>
+        parseFactReference(trigger, `triggers[${index}]`));
+    return { purgeRoot, triggers };
+}
+
+/** Read the purge root whose archived facts are to be restored. */
+export function parsePurgeRestoreMessage(input: any): PurgeRestoreMessage {
+    const message = typeof input === "string" ? parseJson(input) : input;
+    if (typeof message !== "object" || message === null) {
+        throw new Invalid("Expected a JSON object with purgeRoot.");
+    }
+    return { purgeRoot: parseFactReference(message.purgeRoot, "purgeRoot") };
+}
+
+function parseJson(input: string): unknown {
+    try {
+        return JSON.parse(input);
+    }
+    catch {
+        throw new Invalid("The request body is not valid JSON.");
+    }
+}
+
+function parseFactReference(value: any, name: string): FactReference {
+    if (typeof value !== "object" || value === null ||
+        typeof value.type !== "string" || value.type === "" ||
+        typeof value.hash !== "string" || value.hash === "") {
+        throw new Invalid(`${name} must be a fact reference with a type and a hash.`);
+    }
+    return { type: value.type, hash: value.hash };
+}
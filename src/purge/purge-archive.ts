@@ -0,0 +1,53 @@
+import { FactReference, Storage } from "jinaga";
+
+/**
+ * A store that, instead of deleting purged facts, moves them with their
+ * edges, ancestors and signatures into archive tables. Each archived row
+ * remembers the purge root it was purged under.
+ */
+export interface PurgeArchiveStorage {
+    /**
+     * Move the archived descendants of the purge root back into the graph,
+     * with the archived ancestors that they need. A fact that has been
+     * saved again since it was archived is kept as it is.
+     */
+    restoreArchive(purgeRoot: FactReference): Promise<PurgeRestoreResult>;
+    /**
+     * Delete the rows archived before the given time, and return the
+     * number of facts deleted.
+     */
+    expireArchive(archivedBefore: Date): Promise<number>;
+}
+
+/** An edge or ancestor of a restored fact that could not be put back. */
+export type UnrestoredLink = {
+    factId: number,
+    /** The fact that the edge or ancestor refers to, which no longer exists. */
+    missingFactId: number
+};
+
+export type PurgeRestoreResult = {
+    /** The fact_id of each fact taken out of the archive. */
+    restored: number[],
+    unrestored: UnrestoredLink[]
+};
+
+export function isPurgeArchiveStorage(store: Storage): store is Storage & PurgeArchiveStorage {
+    const candidate = store as Partial<PurgeArchiveStorage>;
+    return typeof candidate.restoreArchive === "function" && typeof candidate.expireArchive === "function";
+}
+
+export type PurgeArchiveConfig = {
+    /** How long purged facts stay in the archive before they are deleted. */
+    retentionMs: number
+};
+
+/** The archive of a store that archives purged facts, and how long it keeps them. */
+export type PurgeArchive = PurgeArchiveConfig & {
+    store: PurgeArchiveStorage
+};
+
+/** Delete the archived rows that have outlived the retention period. */
+export function expirePurgeArchive(archive: PurgeArchive): Promise<number> {
+    return archive.store.expireArchive(new Date(Date.now() - archive.retentionMs));
+}
@@ -0,0 +1,212 @@
+import { FactReference, Specification, Storage, Trace } from "jinaga";
+
+import { Logger } from "../logger";
+import { expirePurgeArchive, PurgeArchive } from "./purge-archive";
+
+/** The facts that a purge condition would delete if it ran now. */
+export type PurgePreview = {
+    count: number,
+    /** Up to the requested number of those facts, oldest first. */
+    facts: FactReference[]
+};
+
+/**
+ * A store that can run a purge condition a bounded batch at a time, and
+ * report what it would delete without deleting it.
+ */
+export interface PurgeStorage {
+    /**
+     * Delete up to batchSize of the facts that the condition purges, and
+     * return the number deleted. Fewer than batchSize means the condition
+     * has nothing more to purge.
+     */
+    purgeBatch(specification: Specification, batchSize: number): Promise<number>;
+    previewPurge(specification: Specification, limit: number): Promise<PurgePreview>;
+}
+
+export function isPurgeStorage(store: Storage): store is Storage & PurgeStorage {
+    const candidate = store as Partial<PurgeStorage>;
+    return typeof candidate.purgeBatch === "function" && typeof candidate.previewPurge === "function";
+}
+
+export type PurgeScheduleConfig = {
+    /** The time between the end of one run and the start of the next. */
+    intervalMs: number,
+    /**
+     * Up to this much time is added to each interval at random, so that
+     * nodes sharing a store do not purge at the same moment.
+     */
+    jitterMs: number,
+    /** The most facts deleted in one transaction. */
+    batchSize: number,
+    /**
+     * The most batches of each condition in one run. The rest waits for the
+     * next run.
+     */
+    maxBatchesPerRun: number,
+    /**
+     * Count and log the facts each condition would delete, without deleting
+     * them.
+     */
+    dryRun: boolean,
+    /** The number of facts listed for each condition in a dry run. */
+    dryRunSampleSize: number
+};
+
+export const defaultPurgeScheduleConfig: PurgeScheduleConfig = {
+    intervalMs: 60 * 60 * 1000,
+    jitterMs: 5 * 60 * 1000,
+    batchSize: 1000,
+    maxBatchesPerRun: 100,
+    dryRun: false,
+    dryRunSampleSize: 20
+};
+
+export type PurgeConditionResult = {
+    condition: string,
+    /** The facts deleted, or in a dry run the facts that would be. */
+    count: number,
+    batches: number,
+    /** In a dry run, a sample of the facts that would be deleted. */
+    facts: FactReference[]
+};
+
+/**
+ * A name for a purge condition that stays the same from run to run: the
+ * purge root type and the trigger types.
+ */
+export function purgeConditionName(specification: Specification): string {
+    const root = specification.given.map(given => given.label.type).join(",");
+    const triggers = specification.matches.map(match => match.unknown.type).join(",");
+    return `${root}<-${triggers}`;
+}
+
+/**
+ * Runs the purge conditions against the store on an interval. Each
+ * condition is purged in batches, so that no one transaction holds locks
+ * on a large part of the graph. Counts are published through Trace.metric
+ * as "purge.deleted", or "purge.pending" in a dry run, keyed by condition.
+ * When the store archives purged facts, each run also expires the archived
+ * rows that have outlived their retention.
+ */
+export class PurgeScheduler {
+    private readonly config: PurgeScheduleConfig;
+    private timer: NodeJS.Timeout | null = null;
+    private running: Promise<void> | null = null;
+    private scheduled = false;
+    private stopRequested = false;
+
+    constructor(
+        private readonly store: PurgeStorage,
+        private readonly conditions: Specification[],
+        config: Partial<PurgeScheduleConfig>,
+        private readonly logger: Logger,
+        private readonly archive: PurgeArchive | null = null
+    ) {
+        this.config = { ...defaultPurgeScheduleConfig, ...config };
+        if (this.config.batchSize < 1 || this.config.maxBatchesPerRun < 1 || this.config.dryRunSampleSize < 1) {
+            throw new Error("The purge batch size, batches per run and dry run sample size must be at least 1.");
+        }
+    }
+
+    start(): void {
+        if (this.scheduled) {
+            return;
+        }
+        this.scheduled = true;
+        this.stopRequested = false;
+        this.schedule();
+    }
+
+    /**
+     * Cancel the next run and wait for the current one, which stops after
+     * its current batch.
+     */
+    async stop(): Promise<void> {
+        this.scheduled = false;
+        this.stopRequested = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        await this.running;
+    }
+
+    /**
+     * Purge, or in a dry run preview, every condition once, then expire
+     * the archive. A condition that fails is logged and skipped.
+     */
+    async runOnce(): Promise<PurgeConditionResult[]> {
+        const results: PurgeConditionResult[] = [];
+        for (const specification of this.conditions) {
+            const condition = purgeConditionName(specification);
+            try {
+                const result = this.config.dryRun
+                    ? await this.preview(condition, specification)
+                    : await this.purge(condition, specification);
+                results.push(result);
+            }
+            catch (error) {
+                this.logger.error("Purge failed", { condition, error });
+            }
+        }
+        if (this.archive && !this.config.dryRun) {
+            await this.expireArchive(this.archive);
+        }
+        return results;
+    }
+
+    private schedule() {
+        const delay = this.config.intervalMs + Math.random() * this.config.jitterMs;
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.running = this.runOnce()
+                .then(() => { })
+                .finally(() => {
+                    this.running = null;
+                    if (this.scheduled) {
+                        this.schedule();
+                    }
+                });
+        }, delay);
+        // A pending purge should not keep the process alive.
+        this.timer.unref();
+    }
+
+    private async expireArchive(archive: PurgeArchive) {
+        try {
+            const count = await expirePurgeArchive(archive);
+            if (count > 0) {
+                this.logger.info("Expired archived facts", { count });
+            }
+        }
+        catch (error) {
+            this.logger.error("Archive expiry failed", { error });
+        }
+    }
+
+    private async purge(condition: string, specification: Specification): Promise<PurgeConditionResult> {
+        let count = 0;
+        let batches = 0;
+        while (batches < this.config.maxBatchesPerRun) {
+            const deleted = await this.store.purgeBatch(specification, this.config.batchSize);
+            count += deleted;
+            batches++;
+            if (deleted < this.config.batchSize || this.stopRequested) {
+                break;
+            }
+        }
+        Trace.metric("purge.deleted", { [condition]: count });
+        if (count > 0) {
+            this.logger.info("Purged facts", { condition, count, batches });
+        }
+        return { condition, count, batches, facts: [] };
+    }
+
+    private async preview(condition: string, specification: Specification): Promise<PurgeConditionResult> {
+        const { count, facts } = await this.store.previewPurge(specification, this.config.dryRunSampleSize);
+        Trace.metric("purge.pending", { [condition]: count });
+        this.logger.info("Purge dry run", { condition, count, facts });
+        return { condition, count, batches: 0, facts };
+    }
+}
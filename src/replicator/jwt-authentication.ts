@@ -0,0 +1,178 @@
+import { createHmac, createPublicKey, KeyObject, timingSafeEqual, verify, VerifyKeyObjectInput } from "crypto";
+import { Handler } from "express";
+import { IncomingMessage } from "http";
+
+import { WebSocketAuthenticator } from "../http/feed-websocket-handler";
+import { RequestUser } from "../http/router";
+
+/**
+ * Accept bearer tokens issued by an identity provider. The token's `sub`
+ * claim becomes the user id and `name`, when present, the display name.
+ * Requests without a token are anonymous; requests with a token that does
+ * not verify are refused with 401.
+ *
+ * - `provider`: the provider of every user identity. With the subject, it
+ *   selects the user's key in the keystore.
+ * - `secret`: verifies HS256 tokens.
+ * - `publicKey`: a PEM that verifies RS256 or ES256 tokens.
+ * - `issuer`, `audience`: when set, the `iss` and `aud` claims must match.
+ */
+export type JwtAuthenticationConfig = {
+    provider: string,
+    secret?: string,
+    publicKey?: string,
+    issuer?: string,
+    audience?: string
+};
+
+export class InvalidToken extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InvalidToken";
+    }
+}
+
+type JwtClaims = {
+    sub?: string,
+    name?: string,
+    iss?: string,
+    aud?: string | string[],
+    exp?: number,
+    nbf?: number
+};
+
+// Allow for clocks that disagree with the issuer by a few seconds.
+const CLOCK_SKEW_SECONDS = 30;
+
+export class JwtAuthentication {
+    private readonly publicKey: KeyObject | null;
+
+    constructor(private readonly config: JwtAuthenticationConfig) {
+        if (!config.secret && !config.publicKey) {
+            throw new Error("JWT authentication requires a secret or a public key.");
+        }
+        this.publicKey = config.publicKey ? createPublicKey(config.publicKey) : null;
+    }
+
+    /**
+     * Express middleware that sets req.user from the bearer token.
+     */
+    get handler(): Handler {
+        return (req, res, next) => {
+            try {
+                const user = this.authenticate(req);
+                if (user) {
+                    (req as any).user = user;
+                }
+                next();
+            }
+            catch (error) {
+                if (error instanceof InvalidToken) {
+                    res.status(401).type("text").send(error.message);
+                }
+                else {
+                    next(error);
+                }
+            }
+        };
+    }
+
+    get webSocketAuthenticator(): WebSocketAuthenticator {
+        // Authenticate inside the promise, so that a bad token rejects it
+        // rather than throwing out of the upgrade listener.
+        return request => new Promise(resolve => resolve(this.authenticate(request)));
+    }
+
+    authenticate(request: IncomingMessage): RequestUser | null {
+        const authorization = request.headers["authorization"];
+        if (!authorization) {
+            return null;
+        }
+        const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+        if (!match) {
+            throw new InvalidToken("Expected a bearer token.");
+        }
+        const claims = this.verifyToken(match[1]);
+        return {
+            provider: this.config.provider,
+            id: claims.sub!,
+            profile: { displayName: claims.name ?? claims.sub! }
+        };
+    }
+
+    verifyToken(token: string): JwtClaims {
+        const parts = token.split(".");
+        if (parts.length !== 3) {
+            throw new InvalidToken("The token is not a JWT.");
+        }
+        const [encodedHeader, encodedPayload, encodedSignature] = parts;
+        const header = decodeSegment(encodedHeader);
+        const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+        const signature = Buffer.from(encodedSignature, "base64url");
+        if (!this.verifySignature(header.alg, signed, signature)) {
+            throw new InvalidToken("The token signature is invalid.");
+        }
+
+        const claims: JwtClaims = decodeSegment(encodedPayload);
+        const now = Date.now() / 1000;
+        if (typeof claims.sub !== "string" || claims.sub === "") {
+            throw new InvalidToken("The token has no subject.");
+        }
+        if (claims.exp !== undefined && now > claims.exp + CLOCK_SKEW_SECONDS) {
+            throw new InvalidToken("The token has expired.");
+        }
+        if (claims.nbf !== undefined && now < claims.nbf - CLOCK_SKEW_SECONDS) {
+            throw new InvalidToken("The token is not yet valid.");
+        }
+        if (this.config.issuer && claims.iss !== this.config.issuer) {
+            throw new InvalidToken("The token was issued by another issuer.");
+        }
+        if (this.config.audience) {
+            const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+            if (!audiences.includes(this.config.audience)) {
+                throw new InvalidToken("The token was issued for another audience.");
+            }
+        }
+        return claims;
+    }
+
+    private verifySignature(algorithm: unknown, signed: Buffer, signature: Buffer): boolean {
+        if (algorithm === "HS256" && this.config.secret) {
+            const expected = createHmac("sha256", this.config.secret).update(signed).digest();
+            return expected.length === signature.length && timingSafeEqual(expected, signature);
+        }
+        else if (algorithm === "RS256" && this.publicKey) {
+            return verifyWithKey(signed, this.publicKey, signature);
+        }
+        else if (algorithm === "ES256" && this.publicKey) {
+            // JWS encodes ECDSA signatures as r || s rather than DER.
+            return verifyWithKey(signed, { key: this.publicKey, dsaEncoding: "ieee-p1363" }, signature);
+        }
+        else {
+            throw new InvalidToken(`The token algorithm ${String(algorithm)} is not accepted.`);
+        }
+    }
+}
+
+function verifyWithKey(signed: Buffer, key: KeyObject | VerifyKeyObjectInput, signature: Buffer): boolean {
+    try {
+        return verify("sha256", signed, key, signature);
+    }
+    catch {
+        // The key does not suit the algorithm.
+        return false;
+    }
+}
+
+function decodeSegment(segment: string): any {
+    try {
+        const value = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+        if (typeof value !== "object" || value === null) {
+            throw new Error("not an object");
+        }
+        return value;
+    }
+    catch {
+        throw new InvalidToken("The token is malformed.");
+    }
+}
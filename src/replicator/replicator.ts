@@ -0,0 +1,159 @@
+import express, { Express } from "express";
+import http from "http";
+
+import { JinagaServer, JinagaServerConfig, JinagaServerInstance, prepareDatabase } from "../jinaga-server";
+import { Logger, TraceLogger } from "../logger";
+import { AdministratorCheck } from "../purge/purge-administration";
+import { JwtAuthentication } from "./jwt-authentication";
+import { loadReplicatorConfig, parseReplicatorArguments, ReplicatorConfig, replicatorUsage } from "./replicator-config";
+import { loadRulesFile, rulesConfig } from "./rules-file";
+
+export type Replicator = {
+    app: Express,
+    server: http.Server,
+    instance: JinagaServerInstance,
+    /** Listen on the configured port. */
+    start: () => Promise<void>,
+    /** Stop listening and close the Jinaga server gracefully. */
+    stop: () => Promise<void>
+};
+
+/**
+ * Translate the replicator settings and the rules file into the
+ * configuration of the Jinaga server.
+ */
+export function replicatorServerConfig(config: ReplicatorConfig, authentication: JwtAuthentication | null, logger: Logger): JinagaServerConfig {
+    const rules = config.rulesFile ? loadRulesFile(config.rulesFile) : null;
+    return {
+        pgStore: config.pgStore || undefined,
+        pgStoreSchema: config.pgStoreSchema,
+        pgKeystore: config.pgKeystore,
+        pgKeystoreSchema: config.pgKeystoreSchema,
+        keystoreMasterKeys: config.keystoreMasterKeys,
+        upstreamReplicators: config.upstreamReplicators,
+        upstreamAuthentication: config.upstreamAuthentication,
+        origin: config.origin,
+        ...(rules ? rulesConfig(rules) : {}),
+        purgeSchedule: config.purgeSchedule,
+        purgeArchive: config.purgeArchive,
+        feedDefinitions: config.feedDefinitions,
+        distributedFacts: config.distributedFacts,
+        clusterNotifications: config.clusterNotifications,
+        signatureVerification: config.signatureVerification,
+        authenticateWebSocket: authentication?.webSocketAuthenticator,
+        isAdministrator: config.administrators ? administratorCheck(config.administrators) : undefined,
+        metrics: config.metrics,
+        logger
+    };
+}
+
+function administratorCheck(administrators: { provider: string, id: string }[]): AdministratorCheck {
+    return user => administrators.some(administrator =>
+        administrator.provider === user.provider && administrator.id === user.id);
+}
+
+/**
+ * An Express app that serves the Jinaga routes at the configured path,
+ * feed WebSockets at {path}/ws, and the /health/live, /health/ready and,
+ * when enabled, /metrics endpoints.
+ */
+export function createReplicator(config: ReplicatorConfig, logger: Logger): Replicator {
+    const authentication = config.authentication ? new JwtAuthentication(config.authentication) : null;
+    const instance = JinagaServer.create(replicatorServerConfig(config, authentication, logger));
+
+    const app = express();
+    const server = http.createServer(app);
+    app.use(express.json());
+    app.use(express.text());
+    app.get("/health/live", instance.livenessHandler);
+    app.get("/health/ready", instance.readinessHandler);
+    if (instance.metricsHandler) {
+        app.get("/metrics", instance.metricsHandler);
+    }
+    if (authentication) {
+        app.use(config.path, authentication.handler);
+    }
+    app.use(config.path, instance.handler);
+
+    const webSocketPath = `${config.path.replace(/\/$/, "")}/ws`;
+    server.on("upgrade", (request: http.IncomingMessage, socket, head) => {
+        const path = (request.url ?? "").split("?")[0];
+        if (path === webSocketPath) {
+            instance.handleUpgrade(request, socket, head);
+        }
+        else {
+            socket.destroy();
+        }
+    });
+
+    return {
+        app,
+        server,
+        instance,
+        start: () => new Promise((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(config.port, () => {
+                server.off("error", reject);
+                resolve();
+            });
+        }),
+        stop: async () => {
+            const closed = new Promise<void>(resolve => server.close(() => resolve()));
+            await instance.close();
+            await closed;
+        }
+    };
+}
+
+/**
+ * With migrate, create or upgrade the tables of the store and keystore.
+ * Otherwise, reject if either is behind this version.
+ */
+export async function prepareReplicatorDatabase(config: ReplicatorConfig, logger: Logger): Promise<void> {
+    if (config.migrate && !config.pgStore) {
+        throw new Error("Migrations require a Postgres store.");
+    }
+    await prepareDatabase({
+        pgStore: config.pgStore || undefined,
+        pgStoreSchema: config.pgStoreSchema,
+        pgKeystore: config.pgKeystore,
+        pgKeystoreSchema: config.pgKeystoreSchema,
+        migrateSchema: config.migrate,
+        logger
+    });
+}
+
+/**
+ * The replicator command: read the settings, migrate if asked, and serve
+ * until SIGINT or SIGTERM.
+ */
+export async function runReplicator(argv: string[], env: NodeJS.ProcessEnv): Promise<void> {
+    const args = parseReplicatorArguments(argv);
+    if (args.help) {
+        console.log(replicatorUsage);
+        return;
+    }
+    const config = loadReplicatorConfig(args, env);
+    const logger = new TraceLogger(config.logLevel);
+    await prepareReplicatorDatabase(config, logger);
+    const replicator = createReplicator(config, logger);
+
+    let stopping = false;
+    const stop = () => {
+        if (stopping) {
+            return;
+        }
+        stopping = true;
+        console.log("\n\nStopping replicator\n");
+        replicator.stop().then(() => process.exit(0), error => {
+            logger.error("Replicator did not stop cleanly", { error });
+            process.exit(1);
+        });
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+
+    await replicator.start();
+    console.log(`  Replicator is running at http://localhost:${config.port}${config.path}`);
+    console.log("  Press CTRL-C to stop\n");
+}
@@ -0,0 +1,76 @@
+import { AuthorizationRules, DistributionRules, PurgeConditions, SpecificationParser } from "jinaga";
+import { readFileSync } from "fs";
+
+import { JinagaServerConfig } from "../jinaga-server";
+
+/**
+ * The rules declared in a rules file. A section that the file leaves out is
+ * null, so that the server keeps its default for it: without authorization
+ * rules every fact is accepted, and without distribution rules every feed
+ * is served. An empty section, on the other hand, is enforced as written.
+ */
+export type ReplicatorRules = {
+    authorization: AuthorizationRules | null,
+    distribution: DistributionRules | null,
+    purgeConditions: PurgeConditions | null
+};
+
+/**
+ * Parse rules written in the Jinaga rule syntax: any number of
+ * `authorization { ... }`, `distribution { ... }` and `purge { ... }`
+ * sections, in any order. Repeated sections are merged.
+ */
+export function parseRules(description: string): ReplicatorRules {
+    const rules: ReplicatorRules = { authorization: null, distribution: null, purgeConditions: null };
+    const parser = new SpecificationParser(description);
+    parser.skipWhitespace();
+    while (!parser.atEnd()) {
+        if (parser.continues("authorization")) {
+            const authorization = parser.parseAuthorizationRules();
+            rules.authorization = rules.authorization ? rules.authorization.merge(authorization) : authorization;
+        }
+        else if (parser.continues("distribution")) {
+            const distribution = parser.parseDistributionRules();
+            rules.distribution = rules.distribution ? rules.distribution.merge(distribution) : distribution;
+        }
+        else if (parser.continues("purge")) {
+            const purgeConditions = parser.parsePurgeConditions();
+            rules.purgeConditions = rules.purgeConditions ? rules.purgeConditions.merge(purgeConditions) : purgeConditions;
+        }
+        else {
+            // Reports what was found instead of a section.
+            parser.expectEnd();
+        }
+    }
+    return rules;
+}
+
+export function loadRulesFile(path: string): ReplicatorRules {
+    const description = readFileSync(path, "utf8");
+    try {
+        return parseRules(description);
+    }
+    catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Cannot load the rules file ${path}: ${message}`);
+    }
+}
+
+/**
+ * The server configuration callbacks that apply the rules. Sections that
+ * the rules leave out are not configured.
+ */
+export function rulesConfig(rules: ReplicatorRules): Pick<JinagaServerConfig, "authorization" | "distribution" | "purgeConditions"> {
+    const config: Pick<JinagaServerConfig, "authorization" | "distribution" | "purgeConditions"> = {};
+    const { authorization, distribution, purgeConditions } = rules;
+    if (authorization) {
+        config.authorization = a => a.merge(authorization);
+    }
+    if (distribution) {
+        config.distribution = d => d.merge(distribution);
+    }
+    if (purgeConditions) {
+        config.purgeConditions = p => p.merge(purgeConditions);
+    }
+    return config;
+}
@@ -0,0 +1,26 @@
+import { FactReference, ProjectedResult, Specification, Storage } from "jinaga";
+
+/**
+ * A store that can read the results of a specification incrementally,
+ * without holding the whole result set in memory.
+ */
+export interface StreamingStorage {
+    readStream(start: FactReference[], specification: Specification): AsyncIterable<ProjectedResult>;
+}
+
+function isStreamingStorage(store: Storage): store is Storage & StreamingStorage {
+    return typeof (store as Partial<StreamingStorage>).readStream === "function";
+}
+
+/**
+ * Read incrementally from a streaming store. Other stores are read in full
+ * and then iterated.
+ */
+export async function* readStream(store: Storage, start: FactReference[], specification: Specification): AsyncIterable<ProjectedResult> {
+    if (isStreamingStorage(store)) {
+        yield* store.readStream(start, specification);
+    }
+    else {
+        yield* await store.read(start, specification);
+    }
+}
@@ -0,0 +1,30 @@
+import { Invalid, Storage } from "jinaga";
+
+import { StreamingStorage } from "./streaming-storage";
+
+/**
+ * A store that can show the graph as it stood at a past instant, for audits
+ * and for reproducing what a client saw.
+ */
+export interface TimeTravelStorage {
+    /**
+     * A read-only view of the store that sees only the facts learned at or
+     * before the instant.
+     */
+    asOf(instant: Date): Storage & StreamingStorage;
+}
+
+export function isTimeTravelStorage(store: Storage): store is Storage & TimeTravelStorage {
+    return typeof (store as Partial<TimeTravelStorage>).asOf === "function";
+}
+
+/**
+ * The view of a store as of an instant. Rejects a store that keeps no
+ * record of when it learned each fact.
+ */
+export function storeAsOf(store: Storage, instant: Date): Storage & StreamingStorage {
+    if (!isTimeTravelStorage(store)) {
+        throw new Invalid("Reading as of a past time requires pgStore.");
+    }
+    return store.asOf(instant);
+}
@@ -0,0 +1,187 @@
+import {
+    FactEnvelope,
+    FactReference,
+    FeedResponse,
+    FeedsResponse,
+    Network,
+    Specification,
+    Trace
+} from "jinaga";
+
+export interface UpstreamNetwork {
+    /** Stable key for the upstream, used to keep its bookmarks apart. */
+    key: string;
+    network: Network;
+}
+
+interface FeedRegistration {
+    start: FactReference[];
+    specification: Specification;
+}
+
+// Bookmarks are positions in one replicator's database, so they cannot be
+// carried from one upstream to another. The network manager stores a single
+// string per feed; encode a map from upstream key to that upstream's
+// bookmark so each upstream resumes from its own position.
+type UpstreamBookmarks = { [key: string]: string };
+
+/**
+ * A network that reads from the first reachable upstream replicator.
+ *
+ * Traffic sticks to the upstream that last succeeded. When a request to it
+ * fails, the next upstream in configuration order is tried, wrapping around
+ * until every upstream has been attempted. A feed is registered with an
+ * upstream via POST /feeds before it is first fetched there, so a failover
+ * does not surface as an unknown feed hash.
+ */
+export class FailoverNetwork implements Network {
+    private active = 0;
+    private readonly registrations = new Map<string, FeedRegistration>();
+    private readonly registered: Set<string>[];
+
+    constructor(private readonly upstreams: UpstreamNetwork[]) {
+        if (upstreams.length === 0) {
+            throw new Error("FailoverNetwork requires at least one upstream.");
+        }
+        this.registered = upstreams.map(() => new Set<string>());
+    }
+
+    feeds(start: FactReference[], specification: Specification): Promise<FeedsResponse> {
+        return this.withFailover("feeds", async index => {
+            const response = await this.upstreams[index].network.feeds(start, specification);
+            for (const feed of response.feeds) {
+                this.registrations.set(feed, { start, specification });
+                this.registered[index].add(feed);
+            }
+            return response;
+        });
+    }
+
+    fetchFeed(feed: string, bookmark: string): Promise<FeedResponse> {
+        const bookmarks = decodeBookmarks(bookmark, this.upstreams[0].key);
+        return this.withFailover("fetchFeed", async index => {
+            const upstream = this.upstreams[index];
+            await this.ensureRegistered(index, feed);
+            const response = await upstream.network.fetchFeed(feed, bookmarks[upstream.key] ?? "");
+            return {
+                references: response.references,
+                bookmark: encodeBookmarks({ ...bookmarks, [upstream.key]: response.bookmark })
+            };
+        });
+    }
+
+    streamFeed(
+        feed: string,
+        bookmark: string,
+        onResponse: (factReferences: FactReference[], nextBookmark: string) => Promise<void>,
+        onError: (err: Error) => void,
+        feedRefreshIntervalSeconds: number
+    ): () => void {
+        const bookmarks = decodeBookmarks(bookmark, this.upstreams[0].key);
+        const index = this.active;
+        const upstream = this.upstreams[index];
+        let closed = false;
+        let closeUpstream: (() => void) | null = null;
+
+        // A stream does not fail over in place. When it errors, the next
+        // upstream becomes active and the subscriber's reconnect picks it up
+        // with the latest bookmark.
+        const handleError = (err: Error) => {
+            if (err.name !== "AbortError") {
+                this.failedOver(index, "streamFeed", err);
+            }
+            onError(err);
+        };
+
+        this.ensureRegistered(index, feed)
+            .then(() => {
+                if (closed) {
+                    return;
+                }
+                closeUpstream = upstream.network.streamFeed(
+                    feed,
+                    bookmarks[upstream.key] ?? "",
+                    (factReferences, nextBookmark) => {
+                        bookmarks[upstream.key] = nextBookmark;
+                        return onResponse(factReferences, encodeBookmarks(bookmarks));
+                    },
+                    handleError,
+                    feedRefreshIntervalSeconds
+                );
+            })
+            .catch(handleError);
+
+        return () => {
+            closed = true;
+            if (closeUpstream) {
+                closeUpstream();
+            }
+        };
+    }
+
+    load(factReferences: FactReference[]): Promise<FactEnvelope[]> {
+        return this.withFailover("load", index =>
+            this.upstreams[index].network.load(factReferences));
+    }
+
+    private async withFailover<T>(operation: string, action: (index: number) => Promise<T>): Promise<T> {
+        let lastError: any = null;
+        const first = this.active;
+        for (let attempt = 0; attempt < this.upstreams.length; attempt++) {
+            const index = (first + attempt) % this.upstreams.length;
+            try {
+                const result = await action(index);
+                this.active = index;
+                return result;
+            } catch (error) {
+                this.failedOver(index, operation, error);
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    private async ensureRegistered(index: number, feed: string): Promise<void> {
+        if (this.registered[index].has(feed)) {
+            return;
+        }
+        const registration = this.registrations.get(feed);
+        if (!registration) {
+            // The feed was registered before this process started. Let the
+            // upstream report whether it still knows the hash.
+            return;
+        }
+        await this.upstreams[index].network.feeds(registration.start, registration.specification);
+        this.registered[index].add(feed);
+    }
+
+    private failedOver(index: number, operation: string, error: any) {
+        const next = (index + 1) % this.upstreams.length;
+        Trace.warn(`Upstream ${this.upstreams[index].key} failed during ${operation}; ` +
+            `failing over to ${this.upstreams[next].key}: ${error instanceof Error ? error.message : error}`);
+        if (this.active === index) {
+            this.active = next;
+        }
+    }
+}
+
+function decodeBookmarks(bookmark: string, primaryKey: string): UpstreamBookmarks {
+    if (!bookmark) {
+        return {};
+    }
+    try {
+        const parsed = JSON.parse(bookmark);
+        if (parsed !== null && typeof parsed === "object" && !Array.isArray(parsed)) {
+            return parsed;
+        }
+    } catch {
+        // Not an encoded map.
+    }
+    // A bookmark saved while the server had a single upstream belongs to
+    // the first one configured.
+    return { [primaryKey]: bookmark };
+}
+
+function encodeBookmarks(bookmarks: UpstreamBookmarks): string {
+    return JSON.stringify(bookmarks);
+}
@@ -0,0 +1,49 @@
+import { FactEnvelope, FactReference, Fork, Trace } from "jinaga";
+
+/**
+ * A fork that pushes saved facts to every upstream replicator.
+ *
+ * Each upstream has its own fork, and therefore its own queue, so a slow or
+ * unreachable peer does not hold back the others. Loads fail over through
+ * the upstreams in configuration order.
+ */
+export class FanOutFork implements Fork {
+    constructor(private readonly forks: Fork[]) {
+        if (forks.length === 0) {
+            throw new Error("FanOutFork requires at least one fork.");
+        }
+    }
+
+    async save(envelopes: FactEnvelope[]): Promise<void> {
+        const results = await Promise.allSettled(this.forks.map(fork => fork.save(envelopes)));
+        const failures = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+        if (failures.length === results.length) {
+            // No upstream accepted the facts.
+            throw failures[0].reason;
+        }
+        for (const failure of failures) {
+            Trace.error(failure.reason);
+        }
+    }
+
+    async load(references: FactReference[]): Promise<FactEnvelope[]> {
+        let lastError: any = null;
+        for (const fork of this.forks) {
+            try {
+                return await fork.load(references);
+            } catch (error) {
+                Trace.warn(`Upstream load failed; trying the next upstream: ${error instanceof Error ? error.message : error}`);
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    async processQueueNow(): Promise<void> {
+        await Promise.all(this.forks.map(fork => fork.processQueueNow()));
+    }
+
+    async close(): Promise<void> {
+        await Promise.all(this.forks.map(fork => fork.close()));
+    }
+}
@@ -0,0 +1,51 @@
+import { FactEnvelope, FactReference, Fork, UserIdentity } from "jinaga";
+
+import { Keystore } from "../keystore";
+
+/**
+ * A fork that signs outbound facts with the local device key before they are
+ * pushed upstream.
+ *
+ * The signature is added alongside any the fact already carries, and only
+ * travels to the upstream: the local store saves the envelopes as received.
+ */
+export class SigningFork implements Fork {
+    constructor(
+        private readonly inner: Fork,
+        private readonly keystore: Keystore,
+        private readonly localDeviceIdentity: UserIdentity
+    ) { }
+
+    async save(envelopes: FactEnvelope[]): Promise<void> {
+        if (envelopes.length === 0) {
+            await this.inner.save(envelopes);
+            return;
+        }
+
+        // Make sure the device key pair exists before asking for signatures.
+        await this.keystore.getOrCreateDeviceFact(this.localDeviceIdentity);
+        const deviceSigned = await this.keystore.signFacts(
+            this.localDeviceIdentity, envelopes.map(e => e.fact));
+        const signedEnvelopes = envelopes.map((envelope, index) => {
+            const deviceSignatures = deviceSigned[index].signatures.filter(s =>
+                !envelope.signatures.some(existing => existing.publicKey === s.publicKey));
+            return {
+                fact: envelope.fact,
+                signatures: [...envelope.signatures, ...deviceSignatures]
+            };
+        });
+        await this.inner.save(signedEnvelopes);
+    }
+
+    load(references: FactReference[]): Promise<FactEnvelope[]> {
+        return this.inner.load(references);
+    }
+
+    processQueueNow(): Promise<void> {
+        return this.inner.processQueueNow();
+    }
+
+    close(): Promise<void> {
+        return this.inner.close();
+    }
+}
@@ -0,0 +1,172 @@
+import { AuthenticationProvider, HttpHeaders, Trace } from "jinaga";
+
+/**
+ * Credentials that this server presents to its upstream replicators.
+ *
+ * - `bearer`: a static token sent as `Authorization: Bearer <token>`.
+ * - `clientCredentials`: an OAuth 2.0 client credentials grant. The token is
+ *   cached until shortly before it expires, and refreshed when an upstream
+ *   responds 401.
+ * - `custom`: an async callback that supplies the headers for an upstream.
+ *   The optional `reauthenticate` callback is invoked on 401; return true to
+ *   retry the request with fresh headers.
+ */
+export type UpstreamAuthenticationConfig =
+    | { type: "bearer", token: string }
+    | {
+        type: "clientCredentials",
+        tokenEndpoint: string,
+        clientId: string,
+        clientSecret: string,
+        scope?: string
+    }
+    | {
+        type: "custom",
+        getHeaders: (endpoint: string) => Promise<HttpHeaders>,
+        reauthenticate?: (endpoint: string) => Promise<boolean>
+    };
+
+// Refresh a client credentials token this long before it expires, so that a
+// request in flight does not arrive with a token that has just lapsed.
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+export function createUpstreamAuthenticationProvider(
+    config: UpstreamAuthenticationConfig | undefined,
+    endpoint: string
+): AuthenticationProvider {
+    if (!config) {
+        return new AnonymousUpstreamProvider();
+    }
+    switch (config.type) {
+        case "bearer":
+            return new BearerTokenProvider(config.token);
+        case "clientCredentials":
+            return new ClientCredentialsProvider(config.tokenEndpoint, config.clientId, config.clientSecret, config.scope);
+        case "custom":
+            return new CustomUpstreamProvider(config.getHeaders, config.reauthenticate, endpoint);
+    }
+}
+
+class AnonymousUpstreamProvider implements AuthenticationProvider {
+    getHeaders(): Promise<HttpHeaders> {
+        return Promise.resolve({});
+    }
+
+    reauthenticate(): Promise<boolean> {
+        return Promise.resolve(false);
+    }
+}
+
+class BearerTokenProvider implements AuthenticationProvider {
+    constructor(private readonly token: string) { }
+
+    getHeaders(): Promise<HttpHeaders> {
+        return Promise.resolve({
+            "Authorization": `Bearer ${this.token}`
+        });
+    }
+
+    reauthenticate(): Promise<boolean> {
+        // A static token cannot be renewed; retrying would fail the same way.
+        return Promise.resolve(false);
+    }
+}
+
+class ClientCredentialsProvider implements AuthenticationProvider {
+    private token: { accessToken: string, expiresAt: number } | null = null;
+    private pending: Promise<string> | null = null;
+
+    constructor(
+        private readonly tokenEndpoint: string,
+        private readonly clientId: string,
+        private readonly clientSecret: string,
+        private readonly scope: string | undefined
+    ) { }
+
+    async getHeaders(): Promise<HttpHeaders> {
+        const accessToken = await this.getAccessToken();
+        return {
+            "Authorization": `Bearer ${accessToken}`
+        };
+    }
+
+    async reauthenticate(): Promise<boolean> {
+        this.token = null;
+        try {
+            await this.getAccessToken();
+            return true;
+        }
+        catch (error) {
+            Trace.error(error);
+            return false;
+        }
+    }
+
+    private getAccessToken(): Promise<string> {
+        if (this.token && this.token.expiresAt > Date.now()) {
+            return Promise.resolve(this.token.accessToken);
+        }
+        // Share one token request among concurrent callers.
+        if (!this.pending) {
+            this.pending = this.requestToken().finally(() => {
+                this.pending = null;
+            });
+        }
+        return this.pending;
+    }
+
+    private async requestToken(): Promise<string> {
+        const body = new URLSearchParams({
+            grant_type: "client_credentials",
+            client_id: this.clientId,
+            client_secret: this.clientSecret
+        });
+        if (this.scope) {
+            body.set("scope", this.scope);
+        }
+        const response = await fetch(this.tokenEndpoint, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/x-www-form-urlencoded",
+                "Accept": "application/json"
+            },
+            body: body.toString()
+        });
+        if (!response.ok) {
+            throw new Error(`Token request to ${this.tokenEndpoint} failed with status ${response.status}.`);
+        }
+        const result: any = await response.json();
+        if (typeof result.access_token !== "string") {
+            throw new Error(`Token response from ${this.tokenEndpoint} did not include an access_token.`);
+        }
+        // A token without an expiry is kept until an upstream rejects it.
+        const expiresAt = typeof result.expires_in === "number"
+            ? Date.now() + Math.max(result.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS, 0)
+            : Number.POSITIVE_INFINITY;
+        this.token = {
+            accessToken: result.access_token,
+            expiresAt
+        };
+        return result.access_token;
+    }
+}
+
+class CustomUpstreamProvider implements AuthenticationProvider {
+    constructor(
+        private readonly getHeadersCallback: (endpoint: string) => Promise<HttpHeaders>,
+        private readonly reauthenticateCallback: ((endpoint: string) => Promise<boolean>) | undefined,
+        private readonly endpoint: string
+    ) { }
+
+    getHeaders(): Promise<HttpHeaders> {
+        return this.getHeadersCallback(this.endpoint);
+    }
+
+    reauthenticate(): Promise<boolean> {
+        if (this.reauthenticateCallback) {
+            return this.reauthenticateCallback(this.endpoint);
+        }
+        // Without a reauthenticate callback there is nothing to renew.
+        return Promise.resolve(false);
+    }
+}
@@ -10,11 +10,13 @@ import {
     NetworkNoOp,
     ObservableSource,
     PassThroughFork,
+    PurgeConditions,
     User
 } from "jinaga";
 
 import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
 import { MemoryKeystore } from "../../src/memory/memory-keystore";
+import { model as blogModel, Post, purgeConditions, Site } from "../models/blog";
 
 class Hashtag {
     public static Type = "Hashtag" as const;
@@ -154,6 +156,22 @@ function givenAuthorization() {
     return givenAuthorizationWithStorage(storage);
 }
 
+describe('Streamed read authorization', () => {
+    it('should refuse a specification that does not respect the purge conditions', async () => {
+        const storage = givenStorage();
+        const conditions = purgeConditions(new PurgeConditions([])).specifications;
+        const factManager = new FactManager(new PassThroughFork(storage), new ObservableSource(storage), storage, new NetworkNoOp(), conditions);
+        const authorization = new AuthorizationKeystore(factManager, storage, new MemoryKeystore(), null, null);
+        const postsInSite = blogModel.given(Site).match((site, facts) =>
+            facts.ofType(Post)
+                .join(post => post.site, site)
+        ).specification;
+        const site = dehydrateFact(new Site(new User("creator"), "example.com"))[1];
+
+        await expect(authorization.readStream(null, [site], postsInSite)).rejects.toThrow("The match for Blog.Post is missing purge conditions");
+    });
+});
+
 function givenStorage() {
     return new MemoryStore();
 }
@@ -0,0 +1,189 @@
+import {
+    buildModel,
+    dehydrateFact,
+    DistributionRules,
+    FactManager,
+    FactReference,
+    MemoryStore,
+    NetworkNoOp,
+    ObservableSource,
+    PassThroughFork,
+    User
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { DistributedFactCache, DistributedFactRegistry, MemoryDistributedFactCache } from "../../src/authorization/distributed-fact-cache";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+
+class Company {
+    public static Type = "Company" as const;
+    public type = Company.Type;
+    constructor(public creator: User, public name: string) { }
+}
+
+class Office {
+    public static Type = "Office" as const;
+    public type = Office.Type;
+    constructor(public company: Company, public name: string) { }
+}
+
+const model = buildModel(b => b
+    .type(User)
+    .type(Company, m => m.predecessor("creator", User))
+    .type(Office, m => m.predecessor("company", Company))
+);
+
+const readerIdentity = { provider: "mock", id: "reader" };
+
+function reference(hash: string): FactReference {
+    return { type: "Office", hash };
+}
+
+const alice: FactReference = { type: "Jinaga.User", hash: "alice" };
+const bob: FactReference = { type: "Jinaga.User", hash: "bob" };
+
+describe("MemoryDistributedFactCache", () => {
+    let now = 0;
+
+    beforeEach(() => {
+        now = 1000000;
+        jest.spyOn(Date, "now").mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("includes facts distributed to the user", async () => {
+        const cache = new MemoryDistributedFactCache();
+        await cache.add([reference("a"), reference("b")], alice);
+
+        expect(await cache.includesAll([reference("a"), reference("b")], alice)).toBe(true);
+        expect(await cache.includesAll([reference("a"), reference("c")], alice)).toBe(false);
+    });
+
+    it("does not share one user's facts with another", async () => {
+        const cache = new MemoryDistributedFactCache();
+        await cache.add([reference("a")], alice);
+
+        expect(await cache.includesAll([reference("a")], bob)).toBe(false);
+        expect(await cache.includesAll([reference("a")], null)).toBe(false);
+    });
+
+    it("shares anonymously distributed facts with everyone", async () => {
+        const cache = new MemoryDistributedFactCache();
+        await cache.add([reference("a")], null);
+
+        expect(await cache.includesAll([reference("a")], alice)).toBe(true);
+        expect(await cache.includesAll([reference("a")], null)).toBe(true);
+    });
+
+    it("forgets facts once the window has passed", async () => {
+        const cache = new MemoryDistributedFactCache({ windowMs: 1000 });
+        await cache.add([reference("a")], alice);
+
+        now += 999;
+        expect(await cache.includesAll([reference("a")], alice)).toBe(true);
+
+        now += 1;
+        expect(await cache.includesAll([reference("a")], alice)).toBe(false);
+        expect(cache.size).toBe(0);
+    });
+
+    it("keeps a fact that was distributed again within the window", async () => {
+        const cache = new MemoryDistributedFactCache({ windowMs: 1000 });
+        await cache.add([reference("a")], alice);
+        now += 600;
+        await cache.add([reference("a")], alice);
+        now += 600;
+
+        expect(await cache.includesAll([reference("a")], alice)).toBe(true);
+    });
+
+    it("forgets the oldest facts beyond the entry limit", async () => {
+        const cache = new MemoryDistributedFactCache({ maxEntries: 3 });
+        await cache.add([reference("a"), reference("b")], alice);
+        await cache.add([reference("c")], alice);
+        await cache.add([reference("d")], alice);
+
+        expect(cache.size).toBe(2);
+        expect(await cache.includesAll([reference("a")], alice)).toBe(false);
+        expect(await cache.includesAll([reference("c"), reference("d")], alice)).toBe(true);
+    });
+
+    it("keeps the latest batch even when it exceeds the entry limit", async () => {
+        const cache = new MemoryDistributedFactCache({ maxEntries: 1 });
+        await cache.add([reference("a"), reference("b")], alice);
+
+        expect(await cache.includesAll([reference("a"), reference("b")], alice)).toBe(true);
+    });
+
+    it("keeps the synchronous methods under its former name", () => {
+        const cache = new DistributedFactCache();
+        cache.add([reference("a")], alice);
+
+        expect(cache.includesAll([reference("a")], alice)).toBe(true);
+        expect(cache.includesAll([reference("b")], alice)).toBe(false);
+    });
+});
+
+describe("AuthorizationKeystore with a shared distributed fact cache", () => {
+    it("loads on one node the facts fed by another", async () => {
+        const cache = new MemoryDistributedFactCache();
+        const { first, second, officeSpec, companyRef, officeRef } = await givenTwoNodes(cache, cache);
+
+        await first.feed(readerIdentity, officeSpec, [companyRef], "");
+        const envelopes = await second.load(readerIdentity, [officeRef]);
+
+        expect(envelopes.map(e => e.fact.hash)).toContain(officeRef.hash);
+    });
+
+    it("adapts a cache under its former name", async () => {
+        const cache = new DistributedFactCache();
+        const { first, second, officeSpec, companyRef, officeRef } = await givenTwoNodes(cache, cache);
+
+        await first.feed(readerIdentity, officeSpec, [companyRef], "");
+        const envelopes = await second.load(readerIdentity, [officeRef]);
+
+        expect(envelopes.map(e => e.fact.hash)).toContain(officeRef.hash);
+    });
+
+    it("refuses to load facts fed by a node with its own cache", async () => {
+        const { first, second, officeSpec, companyRef, officeRef } = await givenTwoNodes(
+            new MemoryDistributedFactCache(), new MemoryDistributedFactCache());
+
+        await first.feed(readerIdentity, officeSpec, [companyRef], "");
+
+        await expect(second.load(readerIdentity, [officeRef])).rejects.toThrow("Unauthorized");
+    });
+});
+
+async function givenTwoNodes(firstCache: DistributedFactRegistry | DistributedFactCache, secondCache: DistributedFactRegistry | DistributedFactCache) {
+    const storage = new MemoryStore();
+    const keystore = new MemoryKeystore();
+    const readerFact = await keystore.getOrCreateUserFact(readerIdentity);
+    const reader = new User(readerFact.fields.publicKey);
+    const company = new Company(reader, "Acme");
+    const office = new Office(company, "Dallas");
+    const facts = dehydrateFact(office);
+    await storage.save(facts.map(fact => ({ fact, signatures: [] })));
+
+    const fork = new PassThroughFork(storage);
+    const factManager = new FactManager(fork, new ObservableSource(storage), storage, new NetworkNoOp(), []);
+    const officeSpec = model.given(Company).match((c, facts) =>
+        facts.ofType(Office).join(o => o.company, c)
+    ).specification;
+    const distributionRules = () => new DistributionRules([])
+        .share(model.given(Company).match((c, facts) =>
+            facts.ofType(Office).join(o => o.company, c)
+        ))
+        .withEveryone();
+
+    return {
+        first: new AuthorizationKeystore(factManager, storage, keystore, null, distributionRules(), firstCache),
+        second: new AuthorizationKeystore(factManager, storage, keystore, null, distributionRules(), secondCache),
+        officeSpec,
+        companyRef: facts.find(f => f.type === Company.Type)!,
+        officeRef: facts.find(f => f.type === Office.Type)!
+    };
+}
@@ -0,0 +1,170 @@
+import {
+    computeHash,
+    FactManager,
+    FactRecord,
+    Forbidden,
+    generateKeyPair,
+    KeyPair,
+    MemoryStore,
+    NetworkNoOp,
+    ObservableSource,
+    PassThroughFork,
+    signFacts
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { findRevokedKeys, identityFact, keyRevocationFact } from "../../src/authorization/key-revocation";
+import { Keystore } from "../../src/keystore";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+
+const userIdentity = { provider: "test", id: "alice" };
+const serverIdentity = { provider: "jinaga", id: "local" };
+
+function givenAuthorization(server: typeof serverIdentity | null = serverIdentity) {
+    const store = new MemoryStore();
+    const fork = new PassThroughFork(store);
+    const factManager = new FactManager(fork, new ObservableSource(store), store, new NetworkNoOp(), []);
+    const keystore = new MemoryKeystore();
+    const authorization = new AuthorizationKeystore(factManager, store, keystore, null, null, undefined, server);
+    return { store, factManager, keystore, authorization };
+}
+
+function post(message: string): FactRecord {
+    const fields = { message };
+    return { type: "Blog.Post", hash: computeHash(fields, {}), predecessors: {}, fields };
+}
+
+describe("Key rotation and revocation", () => {
+    let compromised: KeyPair;
+
+    beforeAll(() => {
+        compromised = generateKeyPair();
+    });
+
+    it("publishes a rotation and a revocation when a user key is rotated", async () => {
+        const { store, keystore, authorization } = givenAuthorization();
+        const previous = await authorization.getOrCreateUserFact(userIdentity);
+
+        const saved = await authorization.rotateUserKey(userIdentity);
+
+        const current = await keystore.getUserFact(userIdentity);
+        expect(current.hash).not.toEqual(previous.hash);
+        const rotation = saved.find(e => e.fact.type === "Jinaga.User.Rotation")!.fact;
+        expect(rotation.predecessors).toEqual({
+            previous: { type: "Jinaga.User", hash: previous.hash },
+            next: { type: "Jinaga.User", hash: current.hash }
+        });
+        const revocation = saved.find(e => e.fact.type === "Jinaga.User.Revocation")!.fact;
+        expect(revocation.predecessors).toEqual({ user: { type: "Jinaga.User", hash: previous.hash } });
+        expect(await findRevokedKeys(store, [previous.fields.publicKey, current.fields.publicKey]))
+            .toEqual([previous.fields.publicKey]);
+    });
+
+    it("keeps the previous key valid when asked not to revoke it", async () => {
+        const { store, authorization } = givenAuthorization();
+        const previous = await authorization.getOrCreateUserFact(userIdentity);
+
+        const saved = await authorization.rotateUserKey(userIdentity, false);
+
+        expect(saved.map(e => e.fact.type)).not.toContain("Jinaga.User.Revocation");
+        expect(await findRevokedKeys(store, [previous.fields.publicKey])).toEqual([]);
+    });
+
+    it("refuses a new fact signed with a revoked key", async () => {
+        const { authorization } = givenAuthorization();
+        await authorization.revokeKey(identityFact("Jinaga.User", compromised.publicPem));
+
+        const envelopes = signFacts(compromised, [post("forged")]);
+
+        await expect(authorization.save(null, envelopes)).rejects.toThrow(Forbidden);
+    });
+
+    it("refuses a new fact signed with a revoked device key", async () => {
+        const { authorization } = givenAuthorization();
+        await authorization.revokeKey(identityFact("Jinaga.Device", compromised.publicPem));
+
+        const envelopes = signFacts(compromised, [post("forged")]);
+
+        await expect(authorization.save(null, envelopes)).rejects.toThrow(Forbidden);
+    });
+
+    it("accepts a fact signed before the key was revoked", async () => {
+        const { authorization } = givenAuthorization();
+        const envelopes = signFacts(compromised, [post("genuine")]);
+        await authorization.save(null, envelopes);
+        await authorization.revokeKey(identityFact("Jinaga.User", compromised.publicPem));
+
+        await expect(authorization.save(null, envelopes)).resolves.toEqual([]);
+    });
+
+    it("accepts a new fact signed with a key that is not revoked", async () => {
+        const { authorization } = givenAuthorization();
+
+        const saved = await authorization.save(null, signFacts(compromised, [post("fresh")]));
+
+        expect(saved).toHaveLength(1);
+    });
+
+    it("revokes only the keys of users and devices", async () => {
+        const { authorization } = givenAuthorization();
+
+        await expect(authorization.revokeKey(post("not an identity"))).rejects.toThrow("Blog.Post");
+    });
+
+    it("ignores a revocation that is not signed", async () => {
+        const { factManager, authorization } = givenAuthorization();
+        const identity = identityFact("Jinaga.User", compromised.publicPem);
+        await factManager.save([
+            { fact: identity, signatures: [] },
+            { fact: keyRevocationFact(identity, new Date()), signatures: [] }
+        ]);
+
+        const saved = await authorization.save(null, signFacts(compromised, [post("unsigned revocation")]));
+
+        expect(saved).toHaveLength(1);
+    });
+
+    it("ignores a revocation signed by another user", async () => {
+        const { factManager, authorization } = givenAuthorization();
+        const identity = identityFact("Jinaga.User", compromised.publicPem);
+        const mallory = generateKeyPair();
+        await factManager.save([
+            { fact: identity, signatures: [] },
+            ...signFacts(mallory, [keyRevocationFact(identity, new Date())])
+        ]);
+
+        const saved = await authorization.save(null, signFacts(compromised, [post("foreign revocation")]));
+
+        expect(saved).toHaveLength(1);
+    });
+
+    it("honors a revocation signed by the revoked key itself", async () => {
+        const { factManager, authorization } = givenAuthorization();
+        const identity = identityFact("Jinaga.User", compromised.publicPem);
+        await factManager.save([
+            { fact: identity, signatures: [] },
+            ...signFacts(compromised, [keyRevocationFact(identity, new Date())])
+        ]);
+
+        await expect(authorization.save(null, signFacts(compromised, [post("self revoked")]))).rejects.toThrow(Forbidden);
+    });
+
+    it("revokes a key only when the server identity can sign the revocation", async () => {
+        const { authorization } = givenAuthorization(null);
+
+        await expect(authorization.revokeKey(identityFact("Jinaga.User", compromised.publicPem)))
+            .rejects.toThrow("Revoking a key requires the server identity");
+    });
+
+    it("refuses to rotate with a keystore that cannot rotate keys", async () => {
+        const store = new MemoryStore();
+        const factManager = new FactManager(new PassThroughFork(store), new ObservableSource(store), store, new NetworkNoOp(), []);
+        // A keystore written before rotation was part of the interface.
+        const keystore: Keystore = new MemoryKeystore();
+        keystore.rotateKeyPair = undefined;
+        const authorization = new AuthorizationKeystore(factManager, store, keystore, null, null);
+        await authorization.getOrCreateUserFact(userIdentity);
+
+        await expect(authorization.rotateUserKey(userIdentity)).rejects.toThrow("The keystore does not support key rotation.");
+    });
+});
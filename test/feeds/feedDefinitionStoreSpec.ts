@@ -0,0 +1,67 @@
+import { buildFeeds, FeedCache, ReferencesByName, SpecificationParser } from "jinaga";
+
+import { MemoryFeedDefinitionStore } from "../../src/feeds/feed-definition-store";
+
+function parseFeeds(input: string) {
+    const parser = new SpecificationParser(input);
+    parser.skipWhitespace();
+    return buildFeeds(parser.parseSpecification());
+}
+
+const feeds = parseFeeds(`
+    (author: Blog.Author) {
+        post: Blog.Post [
+            post->author: Blog.Author = author
+            !E {
+                deleted: Blog.Post.Deleted [
+                    deleted->post: Blog.Post = post
+                ]
+            }
+        ]
+    }`);
+
+const namedStart: ReferencesByName = {
+    author: { type: "Blog.Author", hash: "author-hash" }
+};
+
+describe("MemoryFeedDefinitionStore", () => {
+    it("returns registered feeds by hash", async () => {
+        const store = new MemoryFeedDefinitionStore();
+
+        const hashes = await store.addFeeds(feeds, namedStart);
+        const definition = await store.getFeed(hashes[0]);
+
+        expect(definition).toEqual({ feed: feeds[0], namedStart });
+        expect(await store.getFeed("unknown")).toBeUndefined();
+    });
+
+    it("reports the owner a feed was bound to", async () => {
+        const store = new MemoryFeedDefinitionStore();
+        const [hash] = await store.addFeeds(feeds, namedStart);
+
+        expect(await store.bindOwner(hash, null)).toBeUndefined();
+        expect((await store.getFeed(hash))!.owner).toBeNull();
+        expect(await store.bindOwner(hash, "mock|reader")).toBeNull();
+        expect((await store.getFeed(hash))!.owner).toBe("mock|reader");
+    });
+
+    it("issues the same hashes as a FeedCache", async () => {
+        const store = new MemoryFeedDefinitionStore();
+
+        expect(await store.addFeeds(feeds, namedStart)).toEqual(new FeedCache().addFeeds(feeds, namedStart));
+    });
+});
+
+describe("stored feed definitions", () => {
+    // PostgresFeedDefinitionStore keeps the specification and start as JSON.
+    // A feed read back from JSON must hash the same, or a node could not
+    // serve a hash issued by another.
+    it("hash the same after a JSON round trip", () => {
+        const [hash] = new FeedCache().addFeeds(feeds, namedStart);
+
+        const restored = JSON.parse(JSON.stringify(feeds[0]));
+        const restoredStart = JSON.parse(JSON.stringify(namedStart));
+
+        expect(new FeedCache().addFeeds([restored], restoredStart)).toEqual([hash]);
+    });
+});
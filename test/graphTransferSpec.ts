@@ -0,0 +1,134 @@
+import { computeHash, FactEnvelope, FactRecord, FactReference, MemoryStore, Storage } from "jinaga";
+
+import { exportGraph, GraphExportStorage, importGraph } from "../src/graph-transfer";
+
+function fact(type: string, fields: {}, predecessors: { [role: string]: FactRecord } = {}): FactRecord {
+    const references: { [role: string]: FactReference } = {};
+    for (const role in predecessors) {
+        references[role] = { type: predecessors[role].type, hash: predecessors[role].hash };
+    }
+    return { type, hash: computeHash(fields, references), predecessors: references, fields };
+}
+
+function givenChain(length: number): FactRecord[] {
+    const root = fact("Transfer.Root", { identifier: "root" });
+    const facts = [root];
+    for (let i = 0; i < length - 1; i++) {
+        facts.push(fact("Transfer.Link", { index: i }, { previous: facts[facts.length - 1] }));
+    }
+    return facts;
+}
+
+async function collect(chunks: AsyncIterable<string>): Promise<string> {
+    let text = "";
+    for await (const chunk of chunks) {
+        text += chunk;
+    }
+    return text;
+}
+
+function readLines(text: string) {
+    const lines = text.split("\n");
+    return async () => lines.length > 0 ? lines.shift()! : null;
+}
+
+// A store that exports in fixed batches and records the batches it saves.
+class BatchingStore extends MemoryStore implements GraphExportStorage {
+    public savedBatchSizes: number[] = [];
+    public exportClosed = false;
+
+    constructor(private exportBatches: FactEnvelope[][] = []) {
+        super();
+    }
+
+    async save(envelopes: FactEnvelope[]): Promise<FactEnvelope[]> {
+        this.savedBatchSizes.push(envelopes.length);
+        return await super.save(envelopes);
+    }
+
+    async *exportFacts(): AsyncIterable<FactEnvelope[]> {
+        try {
+            yield* this.exportBatches;
+        }
+        finally {
+            this.exportClosed = true;
+        }
+    }
+}
+
+describe("Graph transfer", () => {
+    it("round-trips the closure of a fact between stores", async () => {
+        const facts = givenChain(5);
+        const source = new MemoryStore();
+        await source.save(facts.map(f => ({ fact: f, signatures: [{ publicKey: "PK", signature: `sig-${f.hash}` }] })));
+
+        const text = await collect(exportGraph(source, [facts[3]]));
+        const target = new MemoryStore();
+        const result = await importGraph(target, readLines(text));
+
+        expect(result).toEqual({ read: 4, saved: 4 });
+        const loaded = await target.load([facts[3]]);
+        expect(loaded.map(e => e.fact.hash).sort()).toEqual(facts.slice(0, 4).map(f => f.hash).sort());
+        expect(loaded[0].signatures[0].publicKey).toEqual("PK");
+        expect(await target.whichExist([facts[4]])).toEqual([]);
+    });
+
+    it("refers to predecessors exported in earlier batches", async () => {
+        const facts = givenChain(6).map(f => ({ fact: f, signatures: [] }));
+        const source = new BatchingStore([facts.slice(0, 2), facts.slice(2, 5), facts.slice(5)]);
+
+        const chunks: string[] = [];
+        for await (const chunk of exportGraph(source)) {
+            chunks.push(chunk);
+        }
+        const target = new MemoryStore();
+        const result = await importGraph(target, readLines(chunks.join("")));
+
+        expect(chunks).toHaveLength(3);
+        expect(result.saved).toBe(6);
+        expect(await target.whichExist([facts[5].fact])).toHaveLength(1);
+    });
+
+    it("saves an import in batches", async () => {
+        const facts = givenChain(12);
+        const source = new MemoryStore();
+        await source.save(facts.map(f => ({ fact: f, signatures: [] })));
+        const text = await collect(exportGraph(source, [facts[11]]));
+
+        const target = new BatchingStore();
+        const result = await importGraph(target, readLines(text), 5);
+
+        expect(target.savedBatchSizes).toEqual([5, 5, 2]);
+        expect(result).toEqual({ read: 12, saved: 12 });
+    });
+
+    it("counts facts already in the store as read but not saved", async () => {
+        const facts = givenChain(3);
+        const source = new MemoryStore();
+        await source.save(facts.map(f => ({ fact: f, signatures: [] })));
+        const text = await collect(exportGraph(source, [facts[2]]));
+        const target = new MemoryStore();
+        await target.save([{ fact: facts[0], signatures: [] }]);
+
+        const result = await importGraph(target, readLines(text));
+
+        expect(result).toEqual({ read: 3, saved: 2 });
+    });
+
+    it("closes the export when the reader stops early", async () => {
+        const facts = givenChain(4).map(f => ({ fact: f, signatures: [] }));
+        const source = new BatchingStore([facts.slice(0, 2), facts.slice(2)]);
+
+        const iterator = exportGraph(source)[Symbol.asyncIterator]();
+        await iterator.next();
+        await iterator.return!();
+
+        expect(source.exportClosed).toBe(true);
+    });
+
+    it("exports every fact only from a store that supports it", async () => {
+        const store: Storage = new MemoryStore();
+
+        await expect(collect(exportGraph(store))).rejects.toThrow("closure of starting facts");
+    });
+});
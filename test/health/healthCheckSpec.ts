@@ -0,0 +1,212 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+
+import { Pool } from "pg";
+
+import { ComponentHealth, HealthCheck, HealthComponent, PostgresSchemaCheck, QueueBacklogCheck, ReadinessReport, storeTables } from "../../src/health/health-check";
+import { JinagaServer, JinagaServerInstance } from "../../src/jinaga-server";
+import { Logger } from "../../src/logger";
+import { latestVersion, storeMigrations } from "../../src/postgres/migrations";
+import { SchemaMigrator } from "../../src/postgres/schema-migrator";
+
+function component(name: string, check: () => Promise<ComponentHealth>): HealthComponent {
+    return { name, check };
+}
+
+describe("HealthCheck", () => {
+    it("is ready when every component is up", async () => {
+        const healthCheck = new HealthCheck([
+            component("store", () => Promise.resolve({ status: "up", schema: "public" }))
+        ]);
+
+        const report = await healthCheck.checkReadiness();
+
+        expect(report).toEqual({
+            status: "ready",
+            components: { store: { status: "up", schema: "public" } }
+        });
+    });
+
+    it("stays ready when a component is degraded", async () => {
+        const healthCheck = new HealthCheck([
+            component("store", () => Promise.resolve({ status: "up" })),
+            new QueueBacklogCheck("queue", { backlog: () => Promise.resolve(11) }, 10)
+        ]);
+
+        const report = await healthCheck.checkReadiness();
+
+        expect(report.status).toBe("ready");
+        expect(report.components["queue"]).toEqual({ status: "degraded", backlog: 11 });
+    });
+
+    it("reports a failing component as down", async () => {
+        const healthCheck = new HealthCheck([
+            component("store", () => Promise.reject(new Error("connect ECONNREFUSED")))
+        ]);
+
+        const report = await healthCheck.checkReadiness();
+
+        expect(report.status).toBe("not_ready");
+        expect(report.components["store"]).toEqual({ status: "down", error: "connect ECONNREFUSED" });
+    });
+
+    it("reports a component that does not answer in time as down", async () => {
+        const healthCheck = new HealthCheck([
+            component("upstream", () => new Promise(() => { }))
+        ], { timeoutMs: 20 });
+
+        const report = await healthCheck.checkReadiness();
+
+        expect(report.components["upstream"].status).toBe("down");
+        expect(report.components["upstream"].error).toContain("timed out");
+    });
+
+    it("reports an optional component that fails as degraded", async () => {
+        const healthCheck = new HealthCheck([
+            { ...component("upstream", () => Promise.reject(new Error("fetch failed"))), optional: true }
+        ]);
+
+        const report = await healthCheck.checkReadiness();
+
+        expect(report.status).toBe("ready");
+        expect(report.components["upstream"]).toEqual({ status: "degraded", error: "fetch failed" });
+    });
+
+    it("answers not ready when the readiness check fails", async () => {
+        const healthCheck = new HealthCheck([]);
+        jest.spyOn(healthCheck, "checkReadiness").mockRejectedValue(new Error("unexpected"));
+        const res = { status: jest.fn(), json: jest.fn() };
+        res.status.mockReturnValue(res);
+
+        healthCheck.readinessHandler({} as any, res as any, () => { });
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(res.status).toHaveBeenCalledWith(503);
+        expect(res.json).toHaveBeenCalledWith({ status: "not_ready", components: {}, error: "unexpected" });
+    });
+
+    it("reports shutting down without checking components", async () => {
+        const check = jest.fn(() => Promise.resolve<ComponentHealth>({ status: "up" }));
+        const healthCheck = new HealthCheck([component("store", check)]);
+
+        healthCheck.markShuttingDown();
+        const report = await healthCheck.checkReadiness();
+
+        expect(report).toEqual({ status: "shutting_down", components: {} });
+        expect(check).not.toHaveBeenCalled();
+    });
+});
+
+describe("PostgresSchemaCheck", () => {
+    const silentLogger: Logger = {
+        debug() { }, info() { }, warn() { }, error() { }
+    };
+
+    // A database with every table, whose schema_version is at the given version.
+    function givenPool(version: number): Pool {
+        return {
+            connect: async () => ({
+                query: async (sql: string) => {
+                    if (sql.includes("schema_version') IS NOT NULL")) {
+                        return { rows: [{ exists: true }] };
+                    }
+                    if (sql.includes("max(version)")) {
+                        return { rows: [{ version }] };
+                    }
+                    return { rows: [] };
+                },
+                release: () => { }
+            })
+        } as unknown as Pool;
+    }
+
+    function givenCheck(version: number) {
+        const pool = givenPool(version);
+        return new PostgresSchemaCheck("store", pool, "public", storeTables,
+            new SchemaMigrator(pool, "public", storeMigrations, silentLogger));
+    }
+
+    it("reports a schema that is up to date as up", async () => {
+        const health = await givenCheck(latestVersion(storeMigrations)).check();
+
+        expect(health).toEqual({ status: "up", schema: "public" });
+    });
+
+    it("reports a schema that is behind as down", async () => {
+        const health = await givenCheck(1).check();
+
+        expect(health.status).toBe("down");
+        expect(health.error).toContain(`is at version 1, but this server requires version ${latestVersion(storeMigrations)}`);
+    });
+});
+
+describe("JinagaServer health handlers", () => {
+    let upstream: Server;
+    let upstreamUrl: string;
+    let server: Server;
+    let baseUrl: string;
+    let instance: JinagaServerInstance;
+
+    beforeEach(async () => {
+        const upstreamApp = express();
+        upstreamApp.options("/jinaga/save", (req, res) => {
+            res.set("Accept-Post", "application/json").sendStatus(204);
+        });
+        upstream = upstreamApp.listen(0);
+        await new Promise<void>(resolve => upstream.once("listening", () => resolve()));
+        upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/jinaga`;
+    });
+
+    afterEach(async () => {
+        await instance.close();
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        upstream.closeAllConnections();
+        await new Promise<void>(resolve => upstream.close(() => resolve()));
+    });
+
+    async function start(upstreamReplicators: string[]) {
+        instance = JinagaServer.create({ upstreamReplicators });
+        const app = express();
+        app.get("/live", instance.livenessHandler);
+        app.get("/ready", instance.readinessHandler);
+        server = app.listen(0);
+        await new Promise<void>(resolve => server.once("listening", () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    it("reports liveness", async () => {
+        await start([]);
+
+        const response = await fetch(`${baseUrl}/live`);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ status: "up" });
+    });
+
+    it("is ready when the upstream is reachable", async () => {
+        await start([upstreamUrl]);
+
+        const response = await fetch(`${baseUrl}/ready`);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({
+            status: "ready",
+            components: { [`upstream:${upstreamUrl}`]: { status: "up" } }
+        });
+    });
+
+    it("stays ready but degraded when an upstream cannot be reached", async () => {
+        const unreachable = "http://127.0.0.1:1/jinaga";
+        await start([upstreamUrl, unreachable]);
+
+        const response = await fetch(`${baseUrl}/ready`);
+        const report = await response.json() as ReadinessReport;
+
+        expect(response.status).toBe(200);
+        expect(report.status).toBe("ready");
+        expect(report.components[`upstream:${upstreamUrl}`].status).toBe("up");
+        expect(report.components[`upstream:${unreachable}`].status).toBe("degraded");
+    });
+});
@@ -0,0 +1,209 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+
+import {
+    AuthorizationRules,
+    buildModel,
+    dehydrateFact,
+    FactManager,
+    FeedCache,
+    FeedResponse,
+    MemoryStore,
+    NetworkNoOp,
+    ObservableSource,
+    PassThroughFork,
+    User
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { HttpRouter, RequestUser } from "../../src/http/router";
+import { LogFields, Logger } from "../../src/logger";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+
+// GET /feeds/:hash with Accept: text/event-stream, read over real HTTP so
+// the assertions are on the frames an EventSource actually parses.
+class Post {
+    public static Type = "sse.Post" as const;
+    public type = Post.Type;
+    constructor(public author: User, public body: string) { }
+}
+
+const model = buildModel(b => b
+    .type(User)
+    .type(Post, m => m.predecessor("author", User))
+);
+
+const userIdentity = { provider: "mock", id: "subscriber" };
+
+const requestUser: RequestUser = {
+    provider: userIdentity.provider,
+    id: userIdentity.id,
+    profile: {} as any
+};
+
+interface ServerSentEvent {
+    id: string;
+    data: FeedResponse;
+}
+
+function feedInput(authorHash: string): string {
+    return (
+        `let p: Jinaga.User = #${authorHash}\n` +
+        `(p: Jinaga.User) {\n` +
+        `    post: sse.Post [\n` +
+        `        post->author: Jinaga.User = p\n` +
+        `    ]\n` +
+        `} => post`
+    );
+}
+
+describe("GET /feeds/:hash as text/event-stream", () => {
+    let server: Server;
+    let baseUrl: string;
+    let factManager: FactManager;
+    let router: HttpRouter;
+    let author: User;
+    let feedHash: string;
+    let logEntries: { level: string, message: string, fields: LogFields }[];
+
+    beforeEach(async () => {
+        logEntries = [];
+        const record = (level: string) => (message: string, fields?: LogFields) =>
+            logEntries.push({ level, message, fields: fields ?? {} });
+        const logger: Logger = {
+            debug: record("debug"),
+            info: record("info"),
+            warn: record("warn"),
+            error: record("error")
+        };
+
+        const storage = new MemoryStore();
+        const keystore = new MemoryKeystore();
+        const userFact = await keystore.getOrCreateUserFact(userIdentity);
+        author = new User(userFact.fields.publicKey);
+
+        factManager = new FactManager(
+            new PassThroughFork(storage), new ObservableSource(storage), storage, new NetworkNoOp(), []);
+        const authorizationRules = new AuthorizationRules(model)
+            .any(User)
+            .any(Post);
+        const authorization = new AuthorizationKeystore(
+            factManager, storage, keystore, authorizationRules, null);
+        router = new HttpRouter(factManager, authorization, new FeedCache(), "*", {}, logger);
+
+        await factManager.save(dehydrateFact(author).map(f => ({ fact: f, signatures: [] })));
+        const authorHash = dehydrateFact(author)[0].hash;
+        const feedsResponse = await (router as any).feeds(requestUser, feedInput(authorHash));
+        feedHash = feedsResponse.feeds[0];
+
+        const app = express();
+        app.use((req, res, next) => {
+            (req as any).user = requestUser;
+            next();
+        });
+        app.use(router.handler);
+        server = app.listen(0);
+        await new Promise<void>(resolve => server.once("listening", () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        // Let the aborted streams finish closing before the next test.
+        await new Promise<void>(resolve => setTimeout(resolve, 50));
+    });
+
+    async function savePost(body: string): Promise<string> {
+        const records = dehydrateFact(new Post(author, body));
+        await factManager.save(records.map(f => ({ fact: f, signatures: [] })));
+        return records[records.length - 1].hash;
+    }
+
+    // Read events until the SYNC frame (empty references) arrives.
+    async function readUntilSync(headers: Record<string, string>): Promise<{ contentType: string | null, events: ServerSentEvent[] }> {
+        const controller = new AbortController();
+        const response = await fetch(`${baseUrl}/feeds/${feedHash}`, {
+            headers: { "Accept": "text/event-stream", ...headers },
+            signal: controller.signal
+        });
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        const events: ServerSentEvent[] = [];
+        let buffer = "";
+        try {
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) {
+                    break;
+                }
+                buffer += decoder.decode(value, { stream: true });
+                let end: number;
+                while ((end = buffer.indexOf("\n\n")) >= 0) {
+                    const block = buffer.substring(0, end);
+                    buffer = buffer.substring(end + 2);
+                    const fields = Object.fromEntries(block.split("\n").map(line => {
+                        const colon = line.indexOf(": ");
+                        return [line.substring(0, colon), line.substring(colon + 2)];
+                    }));
+                    const event = { id: fields["id"], data: JSON.parse(fields["data"]) };
+                    events.push(event);
+                    if (event.data.references.length === 0) {
+                        return { contentType: response.headers.get("content-type"), events };
+                    }
+                }
+            }
+        } finally {
+            controller.abort();
+        }
+        throw new Error("The stream ended before the SYNC frame.");
+    }
+
+    it("emits each feed response as an event identified by its bookmark", async () => {
+        const postHash = await savePost("first");
+
+        const { contentType, events } = await readUntilSync({});
+
+        expect(contentType).toContain("text/event-stream");
+        expect(events.length).toBeGreaterThan(0);
+        for (const event of events) {
+            expect(event.id).toBe(event.data.bookmark);
+        }
+        expect(events.flatMap(e => e.data.references).map(r => r.hash)).toContain(postHash);
+    });
+
+    // MemoryStore ignores bookmarks, so assert on the bookmark the session
+    // queries with rather than on which facts come back.
+    it("resumes from Last-Event-ID on reconnect", async () => {
+        const queryFeed = jest.spyOn(router as any, "queryFeed");
+
+        await readUntilSync({ "Last-Event-ID": "bookmark-from-event" });
+
+        expect(queryFeed.mock.calls[0][4]).toBe("bookmark-from-event");
+    });
+
+    it("ignores Last-Event-ID when it is empty", async () => {
+        const queryFeed = jest.spyOn(router as any, "queryFeed");
+
+        await readUntilSync({ "Last-Event-ID": "" });
+
+        expect(queryFeed.mock.calls[0][4]).toBe("");
+    });
+
+    it("logs each message at debug with the connection's fields", async () => {
+        await savePost("logged");
+
+        await readUntilSync({});
+
+        const sent = logEntries.filter(e => e.message === "Message sent");
+        expect(sent.length).toBeGreaterThan(0);
+        expect(sent.every(e => e.level === "debug")).toBe(true);
+        expect(sent[0].fields).toMatchObject({
+            feedHash,
+            user: requestUser.id,
+            messageCount: 1
+        });
+        expect(typeof sent[0].fields.connectionId).toBe("string");
+    });
+});
@@ -0,0 +1,145 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+
+import {
+    AuthorizationRules,
+    buildModel,
+    dehydrateFact,
+    FactManager,
+    FeedCache,
+    MemoryStore,
+    NetworkNoOp,
+    ObservableSource,
+    PassThroughFork,
+    User
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { HttpRouter, RequestUser } from "../../src/http/router";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+
+// GET /feeds/:hash accepts a page size and an upper-bound bookmark, and
+// passes them through to the store. The page size is capped by the server.
+class Post {
+    public static Type = "page.Post" as const;
+    public type = Post.Type;
+    constructor(public author: User, public body: string) { }
+}
+
+const model = buildModel(b => b
+    .type(User)
+    .type(Post, m => m.predecessor("author", User))
+);
+
+const userIdentity = { provider: "mock", id: "reader" };
+
+const requestUser: RequestUser = {
+    provider: userIdentity.provider,
+    id: userIdentity.id,
+    profile: {} as any
+};
+
+describe("feed page bounds", () => {
+    let server: Server;
+    let baseUrl: string;
+    let feedHash: string;
+    let feedWithDistribution: jest.SpyInstance;
+
+    beforeEach(async () => {
+        const storage = new MemoryStore();
+        const keystore = new MemoryKeystore();
+        const userFact = await keystore.getOrCreateUserFact(userIdentity);
+        const author = new User(userFact.fields.publicKey);
+
+        const factManager = new FactManager(
+            new PassThroughFork(storage), new ObservableSource(storage), storage, new NetworkNoOp(), []);
+        const authorizationRules = new AuthorizationRules(model)
+            .any(User)
+            .any(Post);
+        const authorization = new AuthorizationKeystore(
+            factManager, storage, keystore, authorizationRules, null);
+        feedWithDistribution = jest.spyOn(authorization, "feedWithDistribution");
+        const router = new HttpRouter(factManager, authorization, new FeedCache(), "*", {}, undefined, null, 50);
+
+        await factManager.save(dehydrateFact(new Post(author, "hello")).map(f => ({ fact: f, signatures: [] })));
+        const authorHash = dehydrateFact(author)[0].hash;
+        const feedsResponse = await (router as any).feeds(requestUser,
+            `let p: Jinaga.User = #${authorHash}\n` +
+            `(p: Jinaga.User) {\n` +
+            `    post: page.Post [\n` +
+            `        post->author: Jinaga.User = p\n` +
+            `    ]\n` +
+            `} => post`);
+        feedHash = feedsResponse.feeds[0];
+
+        const app = express();
+        app.use((req, res, next) => {
+            (req as any).user = requestUser;
+            next();
+        });
+        app.use(router.handler);
+        server = app.listen(0);
+        await new Promise<void>(resolve => server.once("listening", () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        await new Promise<void>(resolve => setTimeout(resolve, 50));
+    });
+
+    function pageRequested() {
+        return feedWithDistribution.mock.calls[feedWithDistribution.mock.calls.length - 1][4];
+    }
+
+    it("uses the store's page size by default", async () => {
+        const response = await fetch(`${baseUrl}/feeds/${feedHash}`);
+
+        expect(response.status).toBe(200);
+        expect(pageRequested()).toEqual({});
+    });
+
+    it("passes the requested page size and upper bound", async () => {
+        const response = await fetch(`${baseUrl}/feeds/${feedHash}?b=3&limit=20&until=9.4`);
+
+        expect(response.status).toBe(200);
+        expect(pageRequested()).toEqual({ limit: 20, upperBookmark: "9.4" });
+        expect(feedWithDistribution.mock.calls[0][3]).toBe("3");
+    });
+
+    it("caps the page size at the server maximum", async () => {
+        await fetch(`${baseUrl}/feeds/${feedHash}?limit=5000`);
+
+        expect(pageRequested()).toEqual({ limit: 50 });
+    });
+
+    it("rejects a page size that is not a positive integer", async () => {
+        for (const limit of ["0", "-1", "ten", "2.5"]) {
+            const response = await fetch(`${baseUrl}/feeds/${feedHash}?limit=${limit}`);
+            expect(response.status).toBe(400);
+        }
+        expect(feedWithDistribution).not.toHaveBeenCalled();
+    });
+
+    it("pages a feed stream by the requested size", async () => {
+        const controller = new AbortController();
+        const response = await fetch(`${baseUrl}/feeds/${feedHash}?limit=7`, {
+            headers: { "Accept": "application/x-jinaga-feed-stream" },
+            signal: controller.signal
+        });
+        await response.body!.getReader().read();
+        controller.abort();
+
+        expect(pageRequested()).toEqual({ limit: 7 });
+    });
+
+    it("rejects an upper bound on a feed stream", async () => {
+        const response = await fetch(`${baseUrl}/feeds/${feedHash}?until=9`, {
+            headers: { "Accept": "application/x-jinaga-feed-stream" }
+        });
+
+        expect(response.status).toBe(400);
+    });
+});
@@ -0,0 +1,162 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+
+import {
+    AuthorizationRules,
+    buildModel,
+    dehydrateFact,
+    FactManager,
+    FeedCache,
+    MemoryStore,
+    NetworkNoOp,
+    ObservableSource,
+    PassThroughFork,
+    User
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { FeedStreamFrame, HttpRouter, RequestUser } from "../../src/http/router";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+
+// A stream that outlives its configured lifetime is ended by the server with
+// an end frame naming the bookmark to reconnect from. While it is open and
+// idle, heartbeats keep intermediaries from dropping it.
+class Post {
+    public static Type = "lifetime.Post" as const;
+    public type = Post.Type;
+    constructor(public author: User, public body: string) { }
+}
+
+const model = buildModel(b => b
+    .type(User)
+    .type(Post, m => m.predecessor("author", User))
+);
+
+const userIdentity = { provider: "mock", id: "subscriber" };
+
+const requestUser: RequestUser = {
+    provider: userIdentity.provider,
+    id: userIdentity.id,
+    profile: {} as any
+};
+
+function feedInput(authorHash: string): string {
+    return (
+        `let p: Jinaga.User = #${authorHash}\n` +
+        `(p: Jinaga.User) {\n` +
+        `    post: lifetime.Post [\n` +
+        `        post->author: Jinaga.User = p\n` +
+        `    ]\n` +
+        `} => post`
+    );
+}
+
+describe("feed stream lifetime", () => {
+    let server: Server;
+    let baseUrl: string;
+    let feedHash: string;
+
+    beforeEach(async () => {
+        const storage = new MemoryStore();
+        const keystore = new MemoryKeystore();
+        const userFact = await keystore.getOrCreateUserFact(userIdentity);
+        const author = new User(userFact.fields.publicKey);
+
+        const factManager = new FactManager(
+            new PassThroughFork(storage), new ObservableSource(storage), storage, new NetworkNoOp(), []);
+        const authorizationRules = new AuthorizationRules(model)
+            .any(User)
+            .any(Post);
+        const authorization = new AuthorizationKeystore(
+            factManager, storage, keystore, authorizationRules, null);
+        const router = new HttpRouter(factManager, authorization, new FeedCache(), "*", {
+            streamLifetimeMs: 300,
+            heartbeatIntervalMs: 50
+        });
+
+        await factManager.save(dehydrateFact(author).map(f => ({ fact: f, signatures: [] })));
+        await factManager.save(dehydrateFact(new Post(author, "hello")).map(f => ({ fact: f, signatures: [] })));
+        const feedsResponse = await (router as any).feeds(requestUser, feedInput(dehydrateFact(author)[0].hash));
+        feedHash = feedsResponse.feeds[0];
+
+        const app = express();
+        app.use((req, res, next) => {
+            (req as any).user = requestUser;
+            next();
+        });
+        app.use(router.handler);
+        server = app.listen(0);
+        await new Promise<void>(resolve => server.once("listening", () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        // Let the closed streams finish logging before the next test.
+        await new Promise<void>(resolve => setTimeout(resolve, 50));
+    });
+
+    // The server hangs up the socket rather than finishing the chunked body,
+    // which existing clients treat as a cue to reconnect. Collect what
+    // arrived before the connection dropped.
+    async function readToEnd(accept: string): Promise<string> {
+        const response = await fetch(`${baseUrl}/feeds/${feedHash}`, {
+            headers: { "Accept": accept }
+        });
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let body = "";
+        try {
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) {
+                    break;
+                }
+                body += decoder.decode(value, { stream: true });
+            }
+        } catch {
+            // Connection closed by the server.
+        }
+        return body;
+    }
+
+    it("ends a jinaga feed stream with a frame carrying the last bookmark", async () => {
+        const body = await readToEnd("application/x-jinaga-feed-stream");
+
+        const frames: FeedStreamFrame[] = body.split("\n")
+            .filter(line => line.length > 0)
+            .map(line => JSON.parse(line));
+        const last = frames[frames.length - 1];
+        const previous = frames[frames.length - 2];
+        expect(last.end).toBe(true);
+        expect(last.references).toEqual([]);
+        expect(last.bookmark).toBe(previous.bookmark);
+        expect(frames.slice(0, -1).some(f => f.end)).toBe(false);
+    });
+
+    it("sends blank-line heartbeats on a jinaga feed stream", async () => {
+        const body = await readToEnd("application/x-jinaga-feed-stream");
+
+        // Frames are separated by one blank line; heartbeats add more.
+        expect(body).toContain("\n\n\n");
+    });
+
+    it("ends an event stream with an end event identified by the last bookmark", async () => {
+        const body = await readToEnd("text/event-stream");
+
+        const events = body.split("\n\n").filter(block => block.length > 0);
+        const end = events[events.length - 1].split("\n");
+        const previous = events.filter(block => block.startsWith("id: ")).pop()!.split("\n");
+        expect(end[0]).toBe("event: end");
+        expect(end[1]).toBe(previous[0]);
+        expect(JSON.parse(end[2].substring("data: ".length)).end).toBe(true);
+    });
+
+    it("sends comment heartbeats on an event stream", async () => {
+        const body = await readToEnd("text/event-stream");
+
+        expect(body).toContain(": heartbeat\n\n");
+    });
+});
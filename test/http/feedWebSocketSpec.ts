@@ -0,0 +1,195 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { WebSocket } from "ws";
+
+import {
+    AuthorizationRules,
+    buildModel,
+    dehydrateFact,
+    FactManager,
+    FeedCache,
+    MemoryStore,
+    NetworkNoOp,
+    ObservableSource,
+    PassThroughFork,
+    User
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { FeedSocketMessage, FeedWebSocketHandler } from "../../src/http/feed-websocket-handler";
+import { HttpRouter, RequestUser } from "../../src/http/router";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+
+class Post {
+    public static Type = "ws.Post" as const;
+    public type = Post.Type;
+    constructor(public author: User, public body: string) { }
+}
+
+class Comment {
+    public static Type = "ws.Comment" as const;
+    public type = Comment.Type;
+    constructor(public author: User, public text: string) { }
+}
+
+const model = buildModel(b => b
+    .type(User)
+    .type(Post, m => m.predecessor("author", User))
+    .type(Comment, m => m.predecessor("author", User))
+);
+
+const userIdentity = { provider: "mock", id: "subscriber" };
+
+const requestUser: RequestUser = {
+    provider: userIdentity.provider,
+    id: userIdentity.id,
+    profile: {} as any
+};
+
+function feedInput(authorHash: string, type: string): string {
+    return (
+        `let p: Jinaga.User = #${authorHash}\n` +
+        `(p: Jinaga.User) {\n` +
+        `    item: ${type} [\n` +
+        `        item->author: Jinaga.User = p\n` +
+        `    ]\n` +
+        `} => item`
+    );
+}
+
+describe("FeedWebSocketHandler", () => {
+    let server: Server;
+    let handler: FeedWebSocketHandler;
+    let url: string;
+    let factManager: FactManager;
+    let router: HttpRouter;
+    let author: User;
+    let authorHash: string;
+    let socket: WebSocket;
+    let messages: FeedSocketMessage[];
+
+    beforeEach(async () => {
+        const storage = new MemoryStore();
+        const keystore = new MemoryKeystore();
+        const userFact = await keystore.getOrCreateUserFact(userIdentity);
+        author = new User(userFact.fields.publicKey);
+        authorHash = dehydrateFact(author)[0].hash;
+
+        factManager = new FactManager(
+            new PassThroughFork(storage), new ObservableSource(storage), storage, new NetworkNoOp(), []);
+        const authorizationRules = new AuthorizationRules(model)
+            .any(User)
+            .any(Post)
+            .any(Comment);
+        const authorization = new AuthorizationKeystore(
+            factManager, storage, keystore, authorizationRules, null);
+        router = new HttpRouter(factManager, authorization, new FeedCache(), "*");
+        await factManager.save(dehydrateFact(author).map(f => ({ fact: f, signatures: [] })));
+
+        handler = new FeedWebSocketHandler(router, () => Promise.resolve(requestUser));
+        server = createServer();
+        server.on("upgrade", (request, socket, head) => handler.handleUpgrade(request, socket, head));
+        server.listen(0);
+        await new Promise<void>(resolve => server.once("listening", () => resolve()));
+        url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+        messages = [];
+        socket = new WebSocket(url);
+        socket.on("message", data => messages.push(JSON.parse(data.toString())));
+        await new Promise<void>(resolve => socket.once("open", () => resolve()));
+    });
+
+    afterEach(async () => {
+        socket.close();
+        await handler.close();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    async function registerFeed(type: string): Promise<string> {
+        const response = await (router as any).feeds(requestUser, feedInput(authorHash, type));
+        return response.feeds[0];
+    }
+
+    async function save(fact: Post | Comment): Promise<string> {
+        const records = dehydrateFact(fact);
+        await factManager.save(records.map(f => ({ fact: f, signatures: [] })));
+        return records[records.length - 1].hash;
+    }
+
+    async function waitFor(predicate: () => boolean): Promise<void> {
+        for (let i = 0; i < 200 && !predicate(); i++) {
+            await new Promise<void>(resolve => setTimeout(resolve, 10));
+        }
+        expect(predicate()).toBe(true);
+    }
+
+    function referencesFor(feed: string): string[] {
+        return messages.flatMap(m => m.type === "feed" && m.feed === feed ? m.references.map(r => r.hash) : []);
+    }
+
+    it("serves several feeds over one socket", async () => {
+        const postFeed = await registerFeed(Post.Type);
+        const commentFeed = await registerFeed(Comment.Type);
+        const postHash = await save(new Post(author, "hello"));
+        const commentHash = await save(new Comment(author, "nice"));
+
+        socket.send(JSON.stringify({ type: "subscribe", feed: postFeed }));
+        socket.send(JSON.stringify({ type: "subscribe", feed: commentFeed }));
+
+        await waitFor(() => referencesFor(postFeed).includes(postHash) &&
+            referencesFor(commentFeed).includes(commentHash));
+        expect(referencesFor(postFeed)).not.toContain(commentHash);
+        expect(referencesFor(commentFeed)).not.toContain(postHash);
+    });
+
+    it("delivers new facts to a live subscription", async () => {
+        const postFeed = await registerFeed(Post.Type);
+        socket.send(JSON.stringify({ type: "subscribe", feed: postFeed }));
+        await waitFor(() => messages.some(m => m.type === "feed" && m.feed === postFeed));
+
+        const postHash = await save(new Post(author, "later"));
+
+        await waitFor(() => referencesFor(postFeed).includes(postHash));
+    });
+
+    it("stops delivering after unsubscribe", async () => {
+        const postFeed = await registerFeed(Post.Type);
+        socket.send(JSON.stringify({ type: "subscribe", feed: postFeed }));
+        await waitFor(() => messages.some(m => m.type === "feed" && m.feed === postFeed));
+
+        socket.send(JSON.stringify({ type: "unsubscribe", feed: postFeed }));
+        // Round-trip a malformed message so the unsubscribe has been handled.
+        socket.send("not json");
+        await waitFor(() => messages.some(m => m.type === "error" && m.status === 400));
+        const postHash = await save(new Post(author, "unheard"));
+        await new Promise<void>(resolve => setTimeout(resolve, 50));
+
+        expect(referencesFor(postFeed)).not.toContain(postHash);
+        expect(messages.some(m => m.type === "closed")).toBe(false);
+    });
+
+    it("reports an unknown feed as not found", async () => {
+        socket.send(JSON.stringify({ type: "subscribe", feed: "unknown" }));
+
+        await waitFor(() => messages.some(m => m.type === "error"));
+        expect(messages).toContainEqual({ type: "error", feed: "unknown", status: 404, message: "feed_not_found" });
+    });
+
+    it("refuses the upgrade when authentication fails", async () => {
+        const refusing = new FeedWebSocketHandler(router, () => Promise.reject(new Error("bad token")));
+        const refusingServer = createServer();
+        refusingServer.on("upgrade", (request, socket, head) => refusing.handleUpgrade(request, socket, head));
+        refusingServer.listen(0);
+        await new Promise<void>(resolve => refusingServer.once("listening", () => resolve()));
+
+        const client = new WebSocket(`ws://127.0.0.1:${(refusingServer.address() as AddressInfo).port}`);
+        const status = await new Promise<number>(resolve => {
+            client.on("unexpected-response", (request, response) => resolve(response.statusCode ?? 0));
+            client.on("error", () => resolve(0));
+        });
+
+        expect(status).toBe(401);
+        await refusing.close();
+        await new Promise<void>(resolve => refusingServer.close(() => resolve()));
+    });
+});
@@ -0,0 +1,172 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+
+import {
+    AuthorizationRules,
+    buildModel,
+    dehydrateFact,
+    FactManager,
+    FeedCache,
+    MemoryStore,
+    NetworkNoOp,
+    ObservableSource,
+    PassThroughFork,
+    User
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { FeedStreamFrame, HttpRouter, RequestUser, ShuttingDown } from "../../src/http/router";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+
+// Draining the router ends every open feed stream with its end frame,
+// refuses new work with 503, and waits for requests already in flight.
+class Post {
+    public static Type = "shutdown.Post" as const;
+    public type = Post.Type;
+    constructor(public author: User, public body: string) { }
+}
+
+const model = buildModel(b => b
+    .type(User)
+    .type(Post, m => m.predecessor("author", User))
+);
+
+const userIdentity = { provider: "mock", id: "subscriber" };
+
+const requestUser: RequestUser = {
+    provider: userIdentity.provider,
+    id: userIdentity.id,
+    profile: {} as any
+};
+
+function feedInput(authorHash: string): string {
+    return (
+        `let p: Jinaga.User = #${authorHash}\n` +
+        `(p: Jinaga.User) {\n` +
+        `    post: shutdown.Post [\n` +
+        `        post->author: Jinaga.User = p\n` +
+        `    ]\n` +
+        `} => post`
+    );
+}
+
+describe("HttpRouter drain", () => {
+    let server: Server;
+    let baseUrl: string;
+    let router: HttpRouter;
+    let feedHash: string;
+    let authorHash: string;
+
+    beforeEach(async () => {
+        const storage = new MemoryStore();
+        const keystore = new MemoryKeystore();
+        const userFact = await keystore.getOrCreateUserFact(userIdentity);
+        const author = new User(userFact.fields.publicKey);
+
+        const factManager = new FactManager(
+            new PassThroughFork(storage), new ObservableSource(storage), storage, new NetworkNoOp(), []);
+        const authorizationRules = new AuthorizationRules(model)
+            .any(User)
+            .any(Post);
+        const authorization = new AuthorizationKeystore(
+            factManager, storage, keystore, authorizationRules, null);
+        router = new HttpRouter(factManager, authorization, new FeedCache(), "*");
+
+        await factManager.save(dehydrateFact(author).map(f => ({ fact: f, signatures: [] })));
+        await factManager.save(dehydrateFact(new Post(author, "hello")).map(f => ({ fact: f, signatures: [] })));
+        authorHash = dehydrateFact(author)[0].hash;
+        const feedsResponse = await (router as any).feeds(requestUser, feedInput(authorHash));
+        feedHash = feedsResponse.feeds[0];
+
+        const app = express();
+        app.use(express.text());
+        app.use((req, res, next) => {
+            (req as any).user = requestUser;
+            next();
+        });
+        app.use(router.handler);
+        server = app.listen(0);
+        await new Promise<void>(resolve => server.once("listening", () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        await new Promise<void>(resolve => setTimeout(resolve, 50));
+    });
+
+    it("ends open feed streams with an end frame", async () => {
+        const response = await fetch(`${baseUrl}/feeds/${feedHash}`, {
+            headers: { "Accept": "application/x-jinaga-feed-stream" }
+        });
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let body = "";
+        let drained: Promise<void> | null = null;
+        try {
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) {
+                    break;
+                }
+                body += decoder.decode(value, { stream: true });
+                if (!drained && body.includes("\n")) {
+                    drained = router.drain();
+                }
+            }
+        } catch {
+            // Connection closed by the server.
+        }
+        await drained;
+
+        const frames: FeedStreamFrame[] = body.split("\n")
+            .filter(line => line.length > 0)
+            .map(line => JSON.parse(line));
+        expect(frames[frames.length - 1].end).toBe(true);
+    });
+
+    it("refuses requests once draining", async () => {
+        await router.drain();
+
+        const response = await fetch(`${baseUrl}/feeds/${feedHash}`);
+
+        expect(response.status).toBe(503);
+        expect(await response.text()).toBe("shutting_down");
+    });
+
+    it("refuses new feed streams once draining", async () => {
+        await router.drain();
+
+        await expect(router.openFeedStream(requestUser, feedHash, "")).rejects.toBeInstanceOf(ShuttingDown);
+    });
+
+    it("waits for requests in flight", async () => {
+        let release: () => void = () => { };
+        const feeds = (router as any).feeds.bind(router);
+        jest.spyOn(router as any, "feeds").mockImplementation(async (...args: any[]) => {
+            await new Promise<void>(resolve => release = resolve);
+            return feeds(...args);
+        });
+        const request = fetch(`${baseUrl}/feeds`, {
+            method: "POST",
+            headers: { "Content-Type": "text/plain" },
+            body: feedInput(authorHash)
+        });
+        while (!(router as any).feeds.mock?.calls.length) {
+            await new Promise<void>(resolve => setTimeout(resolve, 5));
+        }
+
+        let drained = false;
+        const drain = router.drain().then(() => { drained = true; });
+        await new Promise<void>(resolve => setTimeout(resolve, 50));
+        expect(drained).toBe(false);
+
+        release();
+        const response = await request;
+        await drain;
+        expect(response.status).toBe(200);
+        expect(drained).toBe(true);
+    });
+});
@@ -0,0 +1,182 @@
+import express from "express";
+import { Server } from "http";
+import { FactManager, FactReference, FeedCache, MemoryStore, NetworkNoOp, ObservableSource, PassThroughFork } from "jinaga";
+import { AddressInfo } from "net";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { HttpRouter, RequestUser } from "../../src/http/router";
+import { Logger } from "../../src/logger";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+import { PurgeRootStorage, PurgeTarget } from "../../src/purge/purge-administration";
+import { PurgeArchiveStorage, PurgeRestoreResult, UnrestoredLink } from "../../src/purge/purge-archive";
+import { model, Site, SiteDeleted } from "../models/blog";
+
+const silentLogger: Logger = {
+    debug() { }, info() { }, warn() { }, error() { }
+};
+
+const siteDeleted = model.given(Site).match((site, facts) =>
+    facts.ofType(SiteDeleted)
+        .join(deleted => deleted.site, site)
+).specification;
+
+const purgeRoot: FactReference = { type: "Blog.Site", hash: "site-hash" };
+const trigger: FactReference = { type: "Blog.Site.Deleted", hash: "deleted-hash" };
+
+// A purge root with two descendants that are neither triggers nor their
+// ancestors.
+class FakePurgeRootStore implements PurgeRootStorage {
+    public remaining: PurgeTarget[] = [
+        { factId: 11, type: "Blog.Post", hash: "post-hash" },
+        { factId: 12, type: "Blog.Comment", hash: "comment-hash" }
+    ];
+
+    async previewPurgeDescendants(root: FactReference, triggers: FactReference[]): Promise<PurgeTarget[]> {
+        return root.hash === purgeRoot.hash ? this.remaining : [];
+    }
+
+    async purgeDescendantIds(root: FactReference, triggers: FactReference[]): Promise<number[]> {
+        const deleted = await this.previewPurgeDescendants(root, triggers);
+        this.remaining = this.remaining.filter(target => !deleted.includes(target));
+        return deleted.map(target => target.factId);
+    }
+}
+
+// An archive holding the facts of one purge root.
+class FakePurgeArchiveStore implements PurgeArchiveStorage {
+    public archived = [21, 22];
+    public unrestored: UnrestoredLink[] = [];
+    public expiredBefore: Date | null = null;
+
+    async restoreArchive(root: FactReference): Promise<PurgeRestoreResult> {
+        const restored = root.hash === purgeRoot.hash ? this.archived : [];
+        this.archived = this.archived.filter(factId => !restored.includes(factId));
+        return { restored, unrestored: this.unrestored };
+    }
+
+    async expireArchive(archivedBefore: Date): Promise<number> {
+        this.expiredBefore = archivedBefore;
+        return 5;
+    }
+}
+
+describe("Purge admin routes", () => {
+    let server: Server;
+    let baseUrl: string;
+    let store: FakePurgeRootStore;
+    let archive: FakePurgeArchiveStore;
+
+    beforeEach(async () => {
+        const memory = new MemoryStore();
+        const factManager = new FactManager(new PassThroughFork(memory), new ObservableSource(memory), memory, new NetworkNoOp(), []);
+        const authorization = new AuthorizationKeystore(factManager, memory, new MemoryKeystore(), null, null);
+        store = new FakePurgeRootStore();
+        archive = new FakePurgeArchiveStore();
+        const router = new HttpRouter(factManager, authorization, new FeedCache(), "*", {}, silentLogger, null, undefined, "strict", {
+            store,
+            conditions: [siteDeleted],
+            isAdministrator: user => user.id === "admin",
+            archive: { store: archive, retentionMs: 60_000 }
+        });
+
+        const app = express();
+        app.use(express.json());
+        // Stand in for the authentication middleware: the caller names the user.
+        app.use((req, res, next) => {
+            const id = req.header("x-user");
+            if (id) {
+                const user: RequestUser = { provider: "test", id, profile: { displayName: id } };
+                (req as any).user = user;
+            }
+            next();
+        });
+        app.use(router.handler);
+        server = app.listen(0);
+        await new Promise<void>(resolve => server.once("listening", () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    function whenPost(path: string, body: {}, user = "admin") {
+        return fetch(`${baseUrl}${path}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", "x-user": user },
+            body: JSON.stringify(body)
+        });
+    }
+
+    it("refuses anonymous callers and users who are not administrators", async () => {
+        const anonymous = await fetch(`${baseUrl}/admin/purge/conditions`);
+        const reader = await fetch(`${baseUrl}/admin/purge/conditions`, { headers: { "x-user": "reader" } });
+        const purge = await whenPost("/admin/purge", { purgeRoot, triggers: [trigger] }, "reader");
+
+        expect(anonymous.status).toBe(401);
+        expect(reader.status).toBe(403);
+        expect(purge.status).toBe(403);
+        expect(store.remaining).toHaveLength(2);
+    });
+
+    it("lists the purge conditions in force", async () => {
+        const response = await fetch(`${baseUrl}/admin/purge/conditions`, { headers: { "x-user": "admin" } });
+        const { conditions } = await response.json() as { conditions: { name: string, specification: string }[] };
+
+        expect(response.status).toBe(200);
+        expect(conditions).toHaveLength(1);
+        expect(conditions[0].name).toEqual("Blog.Site<-Blog.Site.Deleted");
+        expect(conditions[0].specification).toContain("Blog.Site.Deleted");
+    });
+
+    it("previews the descendants of a purge root without deleting them", async () => {
+        const response = await whenPost("/admin/purge/preview", { purgeRoot, triggers: [trigger] });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ facts: store.remaining });
+        expect(store.remaining).toHaveLength(2);
+    });
+
+    it("purges the descendants of a purge root and returns their ids", async () => {
+        const response = await whenPost("/admin/purge", { purgeRoot, triggers: [trigger] });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ deleted: [11, 12] });
+        expect(store.remaining).toEqual([]);
+    });
+
+    it("requires at least one trigger", async () => {
+        const response = await whenPost("/admin/purge", { purgeRoot, triggers: [] });
+
+        expect(response.status).toBe(400);
+        expect(await response.text()).toContain("triggers must be a non-empty array");
+        expect(store.remaining).toHaveLength(2);
+    });
+
+    it("restores the archived facts of a purge root", async () => {
+        const response = await whenPost("/admin/purge/restore", { purgeRoot });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ restored: [21, 22], unrestored: [] });
+        expect(archive.archived).toEqual([]);
+    });
+
+    it("reports the edges and ancestors that it could not restore", async () => {
+        archive.unrestored = [{ factId: 22, missingFactId: 7 }];
+
+        const response = await whenPost("/admin/purge/restore", { purgeRoot });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ restored: [21, 22], unrestored: [{ factId: 22, missingFactId: 7 }] });
+    });
+
+    it("expires the rows archived longer than the retention period", async () => {
+        const before = Date.now();
+        const response = await whenPost("/admin/purge/expire", {});
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ expired: 5 });
+        expect(archive.expiredBefore!.getTime()).toBeGreaterThanOrEqual(before - 60_000);
+        expect(archive.expiredBefore!.getTime()).toBeLessThanOrEqual(Date.now() - 60_000);
+    });
+});
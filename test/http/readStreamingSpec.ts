@@ -0,0 +1,126 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+
+import {
+    dehydrateFact,
+    FactManager,
+    FeedCache,
+    MemoryStore,
+    NetworkNoOp,
+    ObservableSource,
+    PassThroughFork,
+    ProjectedResult
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { HttpRouter } from "../../src/http/router";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+
+// POST /read pulls results from Authorization.readStream as it writes them,
+// and abandons the read when the client disconnects.
+const readInput =
+    `let company: Company = { name: "Acme" }\n` +
+    `(company: Company) {\n` +
+    `    office: Office [\n` +
+    `        office->company: Company = company\n` +
+    `    ]\n` +
+    `} => office.identifier`;
+
+describe("POST /read streaming", () => {
+    let server: Server;
+    let baseUrl: string;
+    let factManager: FactManager;
+    let authorization: AuthorizationKeystore;
+
+    beforeEach(async () => {
+        const storage = new MemoryStore();
+        factManager = new FactManager(
+            new PassThroughFork(storage), new ObservableSource(storage), storage, new NetworkNoOp(), []);
+        authorization = new AuthorizationKeystore(factManager, storage, new MemoryKeystore(), null, null);
+        const router = new HttpRouter(factManager, authorization, new FeedCache(), "*");
+
+        const app = express();
+        app.use(express.text());
+        app.use(router.handler);
+        server = app.listen(0);
+        await new Promise<void>(resolve => server.once("listening", () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    function postRead(signal?: AbortSignal, query: string = "") {
+        return fetch(`${baseUrl}/read${query}`, {
+            method: "POST",
+            headers: { "Content-Type": "text/plain", "Accept": "application/x-ndjson" },
+            body: readInput,
+            signal
+        });
+    }
+
+    it("writes each result as a line", async () => {
+        const company = { type: "Company", name: "Acme" };
+        const records = dehydrateFact({ type: "Office", company, identifier: "HQ" });
+        await factManager.save(records.map(fact => ({ fact, signatures: [] })));
+
+        const response = await postRead();
+
+        expect(response.headers.get("content-type")).toContain("application/x-ndjson");
+        expect(await response.text()).toBe(`"HQ"\n`);
+    });
+
+    it("abandons the read when the client disconnects", async () => {
+        let abandoned = false;
+        async function* endless(): AsyncIterable<ProjectedResult> {
+            try {
+                for (let i = 0; ; i++) {
+                    yield { tuple: {}, result: `office ${i}` };
+                    await new Promise<void>(resolve => setImmediate(resolve));
+                }
+            }
+            finally {
+                abandoned = true;
+            }
+        }
+        jest.spyOn(authorization, "readStream").mockResolvedValue(endless());
+        const controller = new AbortController();
+
+        const response = await postRead(controller.signal);
+        const reader = response.body!.getReader();
+        await reader.read();
+        controller.abort();
+
+        for (let attempt = 0; attempt < 100 && !abandoned; attempt++) {
+            await new Promise<void>(resolve => setTimeout(resolve, 10));
+        }
+        expect(abandoned).toBe(true);
+    });
+
+    it("reads as of the instant in the asOf parameter", async () => {
+        async function* none(): AsyncIterable<ProjectedResult> { }
+        const readStream = jest.spyOn(authorization, "readStream").mockResolvedValue(none());
+
+        const response = await postRead(undefined, "?asOf=2024-01-31T12:00:00Z");
+
+        expect(response.status).toBe(200);
+        expect(readStream.mock.calls[0][3]).toEqual(new Date("2024-01-31T12:00:00Z"));
+    });
+
+    it("rejects an asOf parameter that does not name its time zone", async () => {
+        const response = await postRead(undefined, "?asOf=2024-01-31T12:00:00");
+
+        expect(response.status).toBe(400);
+        expect(await response.text()).toContain("The asOf parameter must be an ISO 8601 timestamp with a time zone");
+    });
+
+    it("rejects an as-of read from a store that cannot time travel", async () => {
+        const response = await postRead(undefined, "?asOf=2024-01-31T12:00:00Z");
+
+        expect(response.status).toBe(400);
+        expect(await response.text()).toContain("Reading as of a past time requires pgStore.");
+    });
+});
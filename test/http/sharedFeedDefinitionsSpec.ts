@@ -0,0 +1,105 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+
+import {
+    AuthorizationRules,
+    buildModel,
+    dehydrateFact,
+    FactManager,
+    FeedResponse,
+    MemoryStore,
+    NetworkNoOp,
+    ObservableSource,
+    PassThroughFork,
+    User
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { MemoryFeedDefinitionStore } from "../../src/feeds/feed-definition-store";
+import { HttpRouter, RequestUser } from "../../src/http/router";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+
+// Nodes that share a feed definition store serve each other's feed hashes,
+// so a client sent to a different node does not have to register again.
+class Post {
+    public static Type = "shared.Post" as const;
+    public type = Post.Type;
+    constructor(public author: User, public body: string) { }
+}
+
+const model = buildModel(b => b
+    .type(User)
+    .type(Post, m => m.predecessor("author", User))
+);
+
+const userIdentity = { provider: "mock", id: "reader" };
+
+const requestUser: RequestUser = {
+    provider: userIdentity.provider,
+    id: userIdentity.id,
+    profile: {} as any
+};
+
+describe("shared feed definitions", () => {
+    let server: Server;
+    let baseUrl: string;
+    let feedHash: string;
+    let postHash: string;
+
+    beforeEach(async () => {
+        const storage = new MemoryStore();
+        const keystore = new MemoryKeystore();
+        const userFact = await keystore.getOrCreateUserFact(userIdentity);
+        const author = new User(userFact.fields.publicKey);
+        const feedDefinitions = new MemoryFeedDefinitionStore();
+
+        const createRouter = () => {
+            const factManager = new FactManager(
+                new PassThroughFork(storage), new ObservableSource(storage), storage, new NetworkNoOp(), []);
+            const authorizationRules = new AuthorizationRules(model)
+                .any(User)
+                .any(Post);
+            const authorization = new AuthorizationKeystore(
+                factManager, storage, keystore, authorizationRules, null);
+            return { factManager, router: new HttpRouter(factManager, authorization, feedDefinitions, "*") };
+        };
+        const registering = createRouter();
+        const serving = createRouter();
+
+        const post = dehydrateFact(new Post(author, "hello"));
+        await registering.factManager.save(post.map(f => ({ fact: f, signatures: [] })));
+        postHash = post[post.length - 1].hash;
+        const feedsResponse = await (registering.router as any).feeds(requestUser,
+            `let p: Jinaga.User = #${dehydrateFact(author)[0].hash}\n` +
+            `(p: Jinaga.User) {\n` +
+            `    post: shared.Post [\n` +
+            `        post->author: Jinaga.User = p\n` +
+            `    ]\n` +
+            `} => post`);
+        feedHash = feedsResponse.feeds[0];
+
+        const app = express();
+        app.use((req, res, next) => {
+            (req as any).user = requestUser;
+            next();
+        });
+        app.use(serving.router.handler);
+        server = app.listen(0);
+        await new Promise<void>(resolve => server.once("listening", () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it("serves a feed registered on another router", async () => {
+        const response = await fetch(`${baseUrl}/feeds/${feedHash}`);
+
+        expect(response.status).toBe(200);
+        const body = await response.json() as FeedResponse;
+        expect(body.references.map(r => r.hash)).toContain(postHash);
+    });
+});
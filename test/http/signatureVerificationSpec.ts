@@ -0,0 +1,118 @@
+import {
+    computeHash,
+    FactEnvelope,
+    FactManager,
+    FactRecord,
+    FeedCache,
+    generateKeyPair,
+    GraphDeserializer,
+    GraphSerializer,
+    Invalid,
+    KeyPair,
+    MemoryStore,
+    NetworkNoOp,
+    ObservableSource,
+    PassThroughFork,
+    signFacts
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { HttpRouter, RequestUser } from "../../src/http/router";
+import { InvalidSignature, SignatureVerificationMode, verifySignatures } from "../../src/http/signature-verification";
+import { Logger } from "../../src/logger";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+
+const silentLogger: Logger = {
+    debug() { }, info() { }, warn() { }, error() { }
+};
+
+const requestUser: RequestUser = { provider: "mock", id: "writer", profile: {} as any };
+
+function post(message: string): FactRecord {
+    const fields = { message };
+    return { type: "Blog.Post", hash: computeHash(fields, {}), predecessors: {}, fields };
+}
+
+function givenRouter(mode: SignatureVerificationMode) {
+    const store = new MemoryStore();
+    const factManager = new FactManager(new PassThroughFork(store), new ObservableSource(store), store, new NetworkNoOp(), []);
+    const authorization = new AuthorizationKeystore(factManager, store, new MemoryKeystore(), null, null);
+    const router = new HttpRouter(factManager, authorization, new FeedCache(), "*", {}, silentLogger, null, undefined, mode);
+    return { store, router };
+}
+
+function whenSave(router: HttpRouter, envelopes: FactEnvelope[]): Promise<void> {
+    const chunks: string[] = [];
+    new GraphSerializer(chunk => chunks.push(chunk)).serialize(envelopes);
+    const lines = chunks.join("").split("\n");
+    const readLine = async () => lines.length > 0 ? lines.shift()! : null;
+    return (router as any).save(requestUser, new GraphDeserializer(readLine));
+}
+
+describe("Signature verification on /save", () => {
+    let signer: KeyPair;
+    let impostor: KeyPair;
+
+    beforeAll(() => {
+        signer = generateKeyPair();
+        impostor = generateKeyPair();
+    });
+
+    // Claim the impostor's public key for a signature made by the signer.
+    function forged(fact: FactRecord): FactEnvelope {
+        const [envelope] = signFacts(signer, [fact]);
+        return {
+            fact,
+            signatures: envelope.signatures.map(s => ({ ...s, publicKey: impostor.publicPem }))
+        };
+    }
+
+    it("saves a fact with a valid signature", async () => {
+        const { store, router } = givenRouter("strict");
+        const fact = post("genuine");
+
+        await whenSave(router, signFacts(signer, [fact]));
+
+        const [saved] = await store.load([fact]);
+        expect(saved.signatures.map(s => s.publicKey)).toEqual([signer.publicPem]);
+    });
+
+    it("rejects a forged signature as invalid input in strict mode", async () => {
+        const { store, router } = givenRouter("strict");
+        const fact = post("forged");
+
+        await expect(whenSave(router, [forged(fact)])).rejects.toThrow(Invalid);
+
+        expect(await store.whichExist([fact])).toEqual([]);
+    });
+
+    it("saves the fact without a forged signature in permissive mode", async () => {
+        const { store, router } = givenRouter("permissive");
+        const fact = post("forged");
+        const [genuine] = signFacts(signer, [fact]);
+        const envelope = forged(fact);
+        envelope.signatures.push(...genuine.signatures);
+
+        await whenSave(router, [envelope]);
+
+        const [saved] = await store.load([fact]);
+        expect(saved.signatures.map(s => s.publicKey)).toEqual([signer.publicPem]);
+    });
+
+    it("rejects a fact whose hash does not match in either mode", () => {
+        const fact = { ...post("tampered"), fields: { message: "altered" } };
+
+        for (const mode of ["strict", "permissive"] as const) {
+            expect(() => verifySignatures([{ fact, signatures: [] }], mode, silentLogger))
+                .toThrow("does not match its content");
+        }
+    });
+
+    it("treats an unreadable public key as an invalid signature", () => {
+        const fact = post("garbled");
+        const envelope = { fact, signatures: [{ publicKey: "not a key", signature: "AAAA" }] };
+
+        expect(() => verifySignatures([envelope], "strict", silentLogger)).toThrow(InvalidSignature);
+        expect(verifySignatures([envelope], "permissive", silentLogger)).toEqual([{ fact, signatures: [] }]);
+    });
+});
@@ -0,0 +1,94 @@
+import { NoOpTracer, Trace, Tracer } from "jinaga";
+
+import { LogFields, Logger, TraceLogger, withFields } from "../src/logger";
+
+class CapturingTracer extends NoOpTracer implements Tracer {
+    public readonly entries: { level: string, message: string }[] = [];
+
+    info(message: string): void {
+        this.entries.push({ level: "info", message });
+    }
+
+    warn(message: string): void {
+        this.entries.push({ level: "warn", message });
+    }
+
+    error(error: any): void {
+        this.entries.push({ level: "error", message: String(error) });
+    }
+}
+
+describe("TraceLogger", () => {
+    let tracer: CapturingTracer;
+
+    beforeEach(() => {
+        tracer = new CapturingTracer();
+        Trace.configure(tracer);
+    });
+
+    afterEach(() => {
+        Trace.configure(new NoOpTracer());
+    });
+
+    it("drops debug entries at the default level", () => {
+        const logger = new TraceLogger();
+
+        logger.debug("Message sent", { messageCount: 1 });
+        logger.info("Session closed");
+
+        expect(tracer.entries).toEqual([{ level: "info", message: "Session closed" }]);
+    });
+
+    it("writes debug entries when enabled", () => {
+        const logger = new TraceLogger("debug");
+
+        logger.debug("Message sent");
+
+        expect(tracer.entries).toEqual([{ level: "info", message: "Message sent" }]);
+    });
+
+    it("filters below the minimum level", () => {
+        const logger = new TraceLogger("warn");
+
+        logger.info("ignored");
+        logger.warn("kept");
+        logger.error("also kept");
+
+        expect(tracer.entries.map(e => e.level)).toEqual(["warn", "error"]);
+    });
+
+    it("appends fields as JSON", () => {
+        const logger = new TraceLogger();
+
+        logger.warn("Slow stream write", { connectionId: "abc", durationMs: 75 });
+
+        expect(tracer.entries[0].message).toBe('Slow stream write {"connectionId":"abc","durationMs":75}');
+    });
+
+    it("serializes errors by name and message", () => {
+        const logger = new TraceLogger();
+
+        logger.error("Postgres error", { error: new Error("connection refused") });
+
+        const fields = JSON.parse(tracer.entries[0].message.substring("Postgres error ".length));
+        expect(fields.error.name).toBe("Error");
+        expect(fields.error.message).toBe("connection refused");
+    });
+});
+
+describe("withFields", () => {
+    it("merges bound fields under the entry's own", () => {
+        const entries: LogFields[] = [];
+        const recording: Logger = {
+            debug: (message, fields) => entries.push(fields ?? {}),
+            info: (message, fields) => entries.push(fields ?? {}),
+            warn: (message, fields) => entries.push(fields ?? {}),
+            error: (message, fields) => entries.push(fields ?? {})
+        };
+
+        const logger = withFields(withFields(recording, { connectionId: "abc", user: "u1" }), { feedHash: "f" });
+        logger.info("Message sent", { messageCount: 2, user: "u2" });
+
+        expect(entries).toEqual([{ connectionId: "abc", feedHash: "f", messageCount: 2, user: "u2" }]);
+    });
+});
@@ -0,0 +1,72 @@
+import { MetricsRegistry, sanitizeMetricName } from "../../src/metrics/metrics-registry";
+
+describe("MetricsRegistry", () => {
+    it("renders counters with help, type and labels", () => {
+        const registry = new MetricsRegistry();
+        const counter = registry.counter("jinaga_events_total", "Events seen.");
+
+        counter.inc({ event: "acquired" });
+        counter.inc({ event: "acquired" }, 2);
+
+        expect(registry.render()).toBe(
+            "# HELP jinaga_events_total Events seen.\n" +
+            "# TYPE jinaga_events_total counter\n" +
+            "jinaga_events_total{event=\"acquired\"} 3\n");
+    });
+
+    it("returns the existing metric when registered twice", () => {
+        const registry = new MetricsRegistry();
+
+        registry.counter("jinaga_events_total", "Events seen.").inc();
+        registry.counter("jinaga_events_total", "Events seen.").inc();
+
+        expect(registry.render()).toContain("jinaga_events_total 2\n");
+    });
+
+    it("rejects a decreasing counter", () => {
+        const counter = new MetricsRegistry().counter("jinaga_events_total", "Events seen.");
+
+        expect(() => counter.inc({}, -1)).toThrow();
+    });
+
+    it("collects gauges at render time", () => {
+        const registry = new MetricsRegistry();
+        let idle = 1;
+        registry.gauge("jinaga_pool_idle", "Idle clients.", gauge => gauge.set({}, idle));
+
+        idle = 4;
+
+        expect(registry.render()).toContain("jinaga_pool_idle 4\n");
+    });
+
+    it("renders cumulative histogram buckets", () => {
+        const registry = new MetricsRegistry();
+        const histogram = registry.histogram("jinaga_duration_seconds", "Duration.", [0.1, 1]);
+
+        histogram.observe({ route: "/read" }, 0.05);
+        histogram.observe({ route: "/read" }, 0.5);
+        histogram.observe({ route: "/read" }, 5);
+
+        const lines = registry.render().split("\n");
+        expect(lines).toContain("jinaga_duration_seconds_bucket{route=\"/read\",le=\"0.1\"} 1");
+        expect(lines).toContain("jinaga_duration_seconds_bucket{route=\"/read\",le=\"1\"} 2");
+        expect(lines).toContain("jinaga_duration_seconds_bucket{route=\"/read\",le=\"+Inf\"} 3");
+        expect(lines).toContain("jinaga_duration_seconds_sum{route=\"/read\"} 5.55");
+        expect(lines).toContain("jinaga_duration_seconds_count{route=\"/read\"} 3");
+    });
+
+    it("escapes label values", () => {
+        const registry = new MetricsRegistry();
+        registry.counter("jinaga_errors_total", "Errors.").inc({ message: "say \"hi\"\n" });
+
+        expect(registry.render()).toContain("jinaga_errors_total{message=\"say \\\"hi\\\"\\n\"} 1");
+    });
+});
+
+describe("sanitizeMetricName", () => {
+    it("replaces characters that are not allowed", () => {
+        expect(sanitizeMetricName("Postgres acquired")).toBe("postgres_acquired");
+        expect(sanitizeMetricName("distribution.unmatched")).toBe("distribution_unmatched");
+        expect(sanitizeMetricName("5xx")).toBe("_5xx");
+    });
+});
@@ -0,0 +1,187 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+
+import {
+    AuthorizationRules,
+    buildModel,
+    dehydrateFact,
+    FactManager,
+    FeedCache,
+    MemoryStore,
+    NetworkNoOp,
+    NoOpTracer,
+    ObservableSource,
+    PassThroughFork,
+    Trace,
+    User
+} from "jinaga";
+
+import { AuthorizationKeystore } from "../../src/authorization/authorization-keystore";
+import { HttpRouter, RequestUser } from "../../src/http/router";
+import { MemoryKeystore } from "../../src/memory/memory-keystore";
+import { ServerMetrics, unwrapMetricsTracer } from "../../src/metrics/server-metrics";
+
+class Post {
+    public static Type = "metrics.Post" as const;
+    public type = Post.Type;
+    constructor(public author: User, public body: string) { }
+}
+
+const model = buildModel(b => b
+    .type(User)
+    .type(Post, m => m.predecessor("author", User))
+);
+
+const userIdentity = { provider: "mock", id: "subscriber" };
+
+const requestUser: RequestUser = {
+    provider: userIdentity.provider,
+    id: userIdentity.id,
+    profile: {} as any
+};
+
+describe("ServerMetrics tracer", () => {
+    let metrics: ServerMetrics;
+    let inner: NoOpTracer;
+
+    beforeEach(() => {
+        metrics = new ServerMetrics();
+        inner = new NoOpTracer();
+        Trace.configure(metrics.tracer(inner));
+    });
+
+    afterEach(() => {
+        Trace.configure(new NoOpTracer());
+    });
+
+    it("counts trace counters", () => {
+        Trace.counter("facts_read", 3);
+        Trace.counter("facts_read", 2);
+
+        expect(metrics.registry.render()).toContain("jinaga_facts_read_total 5\n");
+    });
+
+    it("counts unmatched distribution by code", () => {
+        Trace.metric("distribution.unmatched", { no_rule: 1 });
+
+        expect(metrics.registry.render()).toContain("jinaga_distribution_unmatched_total{code=\"no_rule\"} 1\n");
+    });
+
+    it("observes feed stream session telemetry", () => {
+        Trace.metric("Feed stream session closed", {
+            initialPages: 1,
+            referencesStreamed: 12,
+            cycles: 3,
+            syncFrames: 2,
+            waitlistRestarts: 0,
+            waitlistHighWater: 7
+        });
+
+        const text = metrics.registry.render();
+        expect(text).toContain("jinaga_feed_stream_sessions_closed_total 1\n");
+        expect(text).toContain("jinaga_feed_stream_session_waitlist_high_water_sum 7\n");
+        expect(text).toContain("jinaga_feed_stream_session_cycles_sum 3\n");
+        expect(text).toContain("jinaga_feed_stream_session_sync_frames_sum 2\n");
+    });
+
+    it("counts rather than exports trace metrics it does not know", () => {
+        Trace.metric("Cache size", { entries: 12 });
+        Trace.metric("Cache size", { entries: 13 });
+
+        const text = metrics.registry.render();
+        expect(text).not.toContain("jinaga_cache_size");
+        expect(text).toContain("jinaga_trace_metrics_dropped_total 2\n");
+    });
+
+    it("counts pool events", () => {
+        Trace.metric("Postgres acquired", { total: 1, idle: 0, waiting: 0 });
+
+        expect(metrics.registry.render()).toContain("jinaga_pg_pool_events_total{event=\"acquired\"} 1\n");
+    });
+
+    it("times dependencies by outcome", async () => {
+        await Trace.dependency("query", "", () => Promise.resolve(1));
+        await expect(Trace.dependency("query", "", () => Promise.reject(new Error("failed")))).rejects.toThrow("failed");
+
+        const text = metrics.registry.render();
+        expect(text).toContain("jinaga_dependency_duration_seconds_count{name=\"query\",outcome=\"success\"} 1\n");
+        expect(text).toContain("jinaga_dependency_duration_seconds_count{name=\"query\",outcome=\"failure\"} 1\n");
+    });
+
+    it("unwraps to the inner tracer", () => {
+        expect(unwrapMetricsTracer(Trace.getTracer())).toBe(inner);
+    });
+});
+
+describe("ServerMetrics in the router", () => {
+    let server: Server;
+    let baseUrl: string;
+    let metrics: ServerMetrics;
+    let router: HttpRouter;
+    let feedHash: string;
+
+    beforeEach(async () => {
+        const storage = new MemoryStore();
+        const keystore = new MemoryKeystore();
+        const userFact = await keystore.getOrCreateUserFact(userIdentity);
+        const author = new User(userFact.fields.publicKey);
+
+        const factManager = new FactManager(
+            new PassThroughFork(storage), new ObservableSource(storage), storage, new NetworkNoOp(), []);
+        const authorizationRules = new AuthorizationRules(model)
+            .any(User)
+            .any(Post);
+        const authorization = new AuthorizationKeystore(
+            factManager, storage, keystore, authorizationRules, null);
+        metrics = new ServerMetrics();
+        router = new HttpRouter(factManager, authorization, new FeedCache(), "*", {}, undefined, metrics);
+
+        await factManager.save(dehydrateFact(author).map(f => ({ fact: f, signatures: [] })));
+        const authorHash = dehydrateFact(author)[0].hash;
+        const feedsResponse = await (router as any).feeds(requestUser,
+            `let p: Jinaga.User = #${authorHash}\n` +
+            `(p: Jinaga.User) {\n` +
+            `    post: metrics.Post [\n` +
+            `        post->author: Jinaga.User = p\n` +
+            `    ]\n` +
+            `} => post`);
+        feedHash = feedsResponse.feeds[0];
+
+        const app = express();
+        app.use((req, res, next) => {
+            (req as any).user = requestUser;
+            next();
+        });
+        app.use(router.handler);
+        app.get("/metrics", metrics.handler);
+        server = app.listen(0);
+        await new Promise<void>(resolve => server.once("listening", () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        await new Promise<void>(resolve => setTimeout(resolve, 50));
+    });
+
+    it("records request latency by route and status", async () => {
+        const response = await fetch(`${baseUrl}/feeds/unknown`);
+        expect(response.status).toBe(404);
+
+        const scrape = await fetch(`${baseUrl}/metrics`);
+        const text = await scrape.text();
+
+        expect(scrape.headers.get("content-type")).toMatch(/^text\/plain;.*version=0.0.4/);
+        expect(text).toContain("jinaga_http_request_duration_seconds_count{method=\"GET\",route=\"/feeds/:hash\",status=\"404\"} 1\n");
+    });
+
+    it("tracks active feed streams", async () => {
+        const stream = await router.openFeedStream(requestUser, feedHash, "");
+        expect(metrics.registry.render()).toContain("jinaga_feed_streams_active 1\n");
+
+        stream.close();
+        expect(metrics.registry.render()).toContain("jinaga_feed_streams_active 0\n");
+    });
+});
@@ -0,0 +1,143 @@
+import { dehydrateReference, getAllFactTypes, getAllRoles, ProjectedResult, SpecificationParser } from "jinaga";
+
+import { addFactType, addRole, emptyFactTypeMap, emptyRoleMap, getFactTypeId } from "../../src/postgres/maps";
+import {
+    ResultComposer,
+    ResultSetCursor,
+    ResultSetCursorTree,
+    ResultSetRow,
+    ResultSetTree,
+    resultSqlFromSpecification,
+    SqlQueryTree
+} from "../../src/postgres/specification-result-sql";
+
+const company = dehydrateReference({ type: "Company" });
+
+function composerFor(input: string): ResultComposer {
+    const parser = new SpecificationParser(input);
+    parser.skipWhitespace();
+    const specification = parser.parseSpecification();
+    const factTypes = getAllFactTypes(specification).reduce(
+        (f, factType, i) => addFactType(f, factType, i + 1),
+        emptyFactTypeMap());
+    const roleMap = getAllRoles(specification).reduce(
+        (r, role, i) => addRole(r, getFactTypeId(factTypes, role.successorType)!, role.name, i + 1),
+        emptyRoleMap());
+    const composer = resultSqlFromSpecification([company], specification, factTypes, roleMap, "public");
+    if (!composer) {
+        throw new Error("The specification is not satisfiable.");
+    }
+    return composer;
+}
+
+const composer = composerFor(`
+    (company: Company) {
+        office: Office [
+            office->company: Company = company
+        ]
+    } => {
+        identifier = office.identifier
+        employees = {
+            employee: Employee [
+                employee->office: Office = office
+            ]
+        } => employee.name
+    }
+`);
+
+// Rows are given as the fact IDs of their labels, in label order. The
+// company is fact 1.
+const officeIds = [[1, 10], [1, 20], [1, 30], [1, 40]];
+const employeeIds = [[1, 10, 100], [1, 10, 101], [1, 30, 300], [1, 40, 400], [1, 40, 401], [1, 40, 402]];
+
+function rowsFor(tree: SqlQueryTree, ids: number[][]): ResultSetRow[] {
+    return ids.map(factIds => tree.sqlQuery.labels.reduce((row, label, i) => ({
+        ...row,
+        [label.index]: {
+            hash: `hash${factIds[i]}`,
+            factId: factIds[i],
+            data: {
+                fields: { identifier: `office ${factIds[i]}`, name: `employee ${factIds[i]}` },
+                predecessors: {}
+            },
+            timestamp: new Date(0)
+        }
+    }), {} as ResultSetRow));
+}
+
+const queries = composer.getSqlQueries();
+const officeRows = rowsFor(queries, officeIds);
+const employeeRows = rowsFor(queries.childQueries[0], employeeIds);
+
+class ArrayCursor implements ResultSetCursor {
+    private position = 0;
+    public fetches = 0;
+
+    constructor(private readonly rows: ResultSetRow[]) { }
+
+    async fetch(count: number): Promise<ResultSetRow[]> {
+        this.fetches++;
+        const rows = this.rows.slice(this.position, this.position + count);
+        this.position += rows.length;
+        return rows;
+    }
+}
+
+function cursorsFor(): { tree: ResultSetCursorTree, offices: ArrayCursor } {
+    const offices = new ArrayCursor(officeRows);
+    return {
+        tree: {
+            cursor: offices,
+            childCursors: [{
+                name: queries.childQueries[0].name,
+                cursor: new ArrayCursor(employeeRows),
+                childCursors: []
+            }]
+        },
+        offices
+    };
+}
+
+async function collect(results: AsyncIterable<ProjectedResult>): Promise<ProjectedResult[]> {
+    const collected: ProjectedResult[] = [];
+    for await (const result of results) {
+        collected.push(result);
+    }
+    return collected;
+}
+
+describe("ResultComposer.composeFromCursors", () => {
+    const resultSets: ResultSetTree = {
+        resultSet: officeRows,
+        childResultSets: [{ name: queries.childQueries[0].name, resultSet: employeeRows, childResultSets: [] }]
+    } as ResultSetTree;
+    const expected = composer.compose(resultSets, []);
+
+    it("composes the same results as a full read", () => {
+        expect(expected.map(r => r.result)).toEqual([
+            { identifier: "office 10", employees: [{ tuple: expect.anything(), result: "employee 100" }, { tuple: expect.anything(), result: "employee 101" }] },
+            { identifier: "office 20", employees: [] },
+            { identifier: "office 30", employees: [{ tuple: expect.anything(), result: "employee 300" }] },
+            { identifier: "office 40", employees: expect.arrayContaining([expect.objectContaining({ result: "employee 402" })]) }
+        ]);
+    });
+
+    it.each([1, 2, 3, 10])("matches children to parents across batches of %i", async (batchSize) => {
+        const { tree } = cursorsFor();
+
+        const results = await collect(composer.composeFromCursors(tree, () => Promise.resolve([]), batchSize));
+
+        expect(results).toEqual(expected);
+    });
+
+    it("fetches rows only as results are consumed", async () => {
+        const { tree, offices } = cursorsFor();
+        const iterator = composer.composeFromCursors(tree, () => Promise.resolve([]), 1);
+
+        const first = await iterator.next();
+        await iterator.return(undefined);
+
+        expect(first.value).toEqual(expected[0]);
+        expect(offices.fetches).toBe(1);
+    });
+});
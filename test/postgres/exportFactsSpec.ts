@@ -0,0 +1,82 @@
+import { Pool } from "pg";
+
+import { Logger } from "../../src/logger";
+import { PostgresStore } from "../../src/postgres/postgres-store";
+
+// A pooled client that serves FETCH from a fixed set of rows and records
+// the rest of its queries.
+class FakeCursorClient {
+    public queries: string[] = [];
+    public released: (Error | boolean | undefined)[] = [];
+    private position = 0;
+
+    constructor(private rows: any[]) { }
+
+    async query(sql: string) {
+        this.queries.push(sql.split(" ")[0]);
+        const fetch = /^FETCH FORWARD (\d+)/.exec(sql);
+        if (fetch) {
+            const count = parseInt(fetch[1]);
+            const rows = this.rows.slice(this.position, this.position + count);
+            this.position += rows.length;
+            return { rows };
+        }
+        return { rows: [] };
+    }
+
+    release(error?: Error | boolean) {
+        this.released.push(error);
+    }
+}
+
+const silentLogger: Logger = {
+    debug() { }, info() { }, warn() { }, error() { }
+};
+
+function row(factId: number, signature: string | null) {
+    return {
+        fact_id: factId,
+        name: "Export.Fact",
+        hash: `hash${factId}`,
+        data: { fields: { id: factId }, predecessors: {} },
+        public_key: signature ? `PK-${signature}` : null,
+        signature
+    };
+}
+
+function givenStore(rows: any[]) {
+    const client = new FakeCursorClient(rows);
+    const pool = { connect: async () => client } as unknown as Pool;
+    return { client, store: new PostgresStore(pool, "public", silentLogger) };
+}
+
+describe("PostgresStore.exportFacts", () => {
+    it("keeps the signatures of a fact together across batches", async () => {
+        const { client, store } = givenStore([row(1, "a"), row(2, "a"), row(2, "b"), row(3, null)]);
+
+        const batches = [];
+        for await (const batch of store.exportFacts(undefined, 2)) {
+            batches.push(batch.map(e => ({ hash: e.fact.hash, signatures: e.signatures.map(s => s.signature) })));
+        }
+
+        expect(batches).toEqual([
+            [{ hash: "hash1", signatures: ["a"] }],
+            [{ hash: "hash2", signatures: ["a", "b"] }],
+            [{ hash: "hash3", signatures: [] }]
+        ]);
+        expect(client.queries).toEqual(["BEGIN", "DECLARE", "FETCH", "FETCH", "FETCH", "COMMIT"]);
+        expect(client.released).toEqual([undefined]);
+    });
+
+    it("rolls back and releases the connection when abandoned", async () => {
+        const { client, store } = givenStore([row(1, null), row(2, null), row(3, null)]);
+
+        const iterator = store.exportFacts(undefined, 1);
+        await iterator.next();
+        await iterator.return(undefined);
+
+        expect(client.queries).toContain("ROLLBACK");
+        expect(client.queries).not.toContain("COMMIT");
+        expect(client.released).toEqual([undefined]);
+    });
+});
@@ -0,0 +1,129 @@
+import { EventEmitter } from "events";
+import { FactReference } from "jinaga";
+import { Pool } from "pg";
+
+import { factNotificationPayloads, PostgresFactListener } from "../../src/postgres/fact-notifications";
+
+// A pooled client that records its queries and lets the test deliver
+// notifications and connection errors.
+class FakeClient extends EventEmitter {
+    public queries: string[] = [];
+    public released: (Error | boolean | undefined)[] = [];
+
+    async query(sql: string) {
+        this.queries.push(sql);
+        return { rows: [] };
+    }
+
+    release(error?: Error | boolean) {
+        this.released.push(error);
+    }
+
+    notify(payload: string, channel: string = "jinaga_facts_public") {
+        this.emit("notification", { channel, payload });
+    }
+}
+
+class FakePool {
+    public clients: FakeClient[] = [];
+
+    async connect() {
+        const client = new FakeClient();
+        this.clients.push(client);
+        return client;
+    }
+}
+
+const config = { channel: "jinaga_facts_public", origin: "node-a" };
+
+function reference(i: number): FactReference {
+    return { type: "Blog.Post", hash: `hash${i}`.padEnd(88, "=") };
+}
+
+function tick() {
+    return new Promise<void>(resolve => setImmediate(resolve));
+}
+
+describe("factNotificationPayloads", () => {
+    it("fits a small save into one payload", () => {
+        const payloads = factNotificationPayloads("node-a", [reference(1), reference(2)]);
+
+        expect(payloads.map(p => JSON.parse(p))).toEqual([
+            { origin: "node-a", references: [reference(1), reference(2)] }
+        ]);
+    });
+
+    it("splits a large save into payloads under the Postgres limit", () => {
+        const references = Array.from({ length: 500 }, (_, i) => reference(i));
+
+        const payloads = factNotificationPayloads("node-a", references);
+
+        expect(payloads.length).toBeGreaterThan(1);
+        payloads.forEach(p => expect(Buffer.byteLength(p)).toBeLessThan(8000));
+        expect(payloads.flatMap(p => JSON.parse(p).references)).toEqual(references);
+    });
+});
+
+describe("PostgresFactListener", () => {
+    let pool: FakePool;
+    let received: FactReference[][];
+    let listener: PostgresFactListener;
+
+    beforeEach(async () => {
+        pool = new FakePool();
+        received = [];
+        listener = new PostgresFactListener(pool as unknown as Pool, config, async references => {
+            received.push(references);
+        }, undefined, 0);
+        listener.start();
+        await tick();
+    });
+
+    afterEach(async () => {
+        await listener.close();
+    });
+
+    it("listens on the channel", () => {
+        expect(pool.clients[0].queries).toEqual(['LISTEN "jinaga_facts_public"']);
+    });
+
+    it("delivers facts saved by other nodes", async () => {
+        pool.clients[0].notify(JSON.stringify({ origin: "node-b", references: [reference(1)] }));
+        await tick();
+
+        expect(received).toEqual([[reference(1)]]);
+    });
+
+    it("ignores facts saved by this node", async () => {
+        pool.clients[0].notify(JSON.stringify({ origin: "node-a", references: [reference(1)] }));
+        await tick();
+
+        expect(received).toEqual([]);
+    });
+
+    it("ignores malformed payloads", async () => {
+        pool.clients[0].notify("not json");
+        await tick();
+
+        expect(received).toEqual([]);
+    });
+
+    it("listens again after losing the connection", async () => {
+        const error = new Error("Connection terminated");
+        pool.clients[0].emit("error", error);
+        await new Promise<void>(resolve => setTimeout(resolve, 20));
+
+        expect(pool.clients[0].released).toEqual([error]);
+        expect(pool.clients).toHaveLength(2);
+        pool.clients[1].notify(JSON.stringify({ origin: "node-b", references: [reference(2)] }));
+        await tick();
+        expect(received).toEqual([[reference(2)]]);
+    });
+
+    it("stops listening on close", async () => {
+        await listener.close();
+
+        expect(pool.clients[0].queries).toContain('UNLISTEN "jinaga_facts_public"');
+        expect(pool.clients[0].released).toEqual([undefined]);
+    });
+});
@@ -0,0 +1,52 @@
+import { buildFeeds, dehydrateReference, getAllFactTypes, getAllRoles, SpecificationParser } from "jinaga";
+
+import { addFactType, addRole, emptyFactTypeMap, emptyRoleMap, getFactTypeId } from "../../src/postgres/maps";
+import { sqlFromFeed } from "../../src/postgres/specification-sql";
+
+function feedSql(bookmark: string, limit: number, upperBookmark?: string, asOf: Date | null = null) {
+    const parser = new SpecificationParser(`
+        (author: Blog.Author) {
+            post: Blog.Post [
+                post->author: Blog.Author = author
+            ]
+        }`);
+    parser.skipWhitespace();
+    const specification = parser.parseSpecification();
+    const factTypes = getAllFactTypes(specification)
+        .reduce((f, factType, i) => addFactType(f, factType, i + 1), emptyFactTypeMap());
+    const roleMap = getAllRoles(specification)
+        .reduce((r, role, i) => addRole(r, getFactTypeId(factTypes, role.successorType)!, role.name, i + 100), emptyRoleMap());
+    const start = [dehydrateReference({ type: "Blog.Author", key: "value" })];
+    return sqlFromFeed(buildFeeds(specification)[0], start, "public", bookmark, limit, factTypes, roleMap, upperBookmark, asOf)!;
+}
+
+describe("feed page SQL", () => {
+    it("is unbounded above when no upper bookmark is given", () => {
+        const query = feedSql("3.1", 100);
+
+        expect(query.sql).not.toContain("<=");
+        expect(query.parameters.slice(-2)).toEqual([[3, 1], 100]);
+    });
+
+    it("uses the requested page size", () => {
+        const query = feedSql("", 1000);
+
+        expect(query.parameters[query.parameters.length - 1]).toBe(1000);
+    });
+
+    it("bounds the page by the upper bookmark, inclusive", () => {
+        const query = feedSql("3.1", 100, "9.4");
+
+        const upperParameter = query.parameters.length;
+        expect(query.sql).toContain(`sort(array[f2.fact_id], 'desc') <= $${upperParameter}`);
+        expect(query.parameters.slice(-3)).toEqual([[3, 1], 100, [9, 4]]);
+    });
+
+    it("leaves out facts learned after the as-of instant", () => {
+        const query = feedSql("3.1", 100, undefined, new Date("2024-01-31T12:00:00Z"));
+
+        expect(query.sql).toContain("f1.hash = $2 AND f1.date_learned <= $4");
+        expect(query.sql).toContain("ON f2.fact_id = e1.successor_fact_id AND f2.date_learned <= $4");
+        expect(query.parameters.slice(-3)).toEqual(["2024-01-31T12:00:00.000", [3, 1], 100]);
+    });
+});
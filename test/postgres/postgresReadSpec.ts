@@ -13,7 +13,7 @@ function parseSpecification(input: string) {
     return parser.parseSpecification();
 }
 
-function sqlFor(descriptiveString: string, bookmarks: string[] = []) {
+function sqlFor(descriptiveString: string, bookmarks: string[] = [], asOf: Date | null = null) {
     const specification = parseSpecification(descriptiveString);
     const factTypeNames = getAllFactTypes(specification);
 
@@ -43,7 +43,7 @@ function sqlFor(descriptiveString: string, bookmarks: string[] = []) {
         }
         throw new Error(`Unknown input type ${input.label.type}`);
     });
-    const composer = resultSqlFromSpecification(start, specification, factTypes, roleMap, "public");
+    const composer = resultSqlFromSpecification(start, specification, factTypes, roleMap, "public", asOf);
     if (!composer) {
         throw new Error("The specification is not satisfiable.");
     }
@@ -527,4 +527,81 @@ describe("Postgres read", () => {
             roleParameter(roleMap, factTypes, 'Project', 'department')
         ]);
     });
-});
\ No newline at end of file
+
+    it("should leave out facts learned after the as-of instant", () => {
+        const { composer, factTypes, roleMap } = sqlFor(`
+            (company: Company) {
+                project: Project [
+                    project->department: Department->company: Company = company
+                    !E {
+                        deleted: Project.Deleted [
+                            deleted->project: Project = project
+                        ]
+                    }
+                ]
+            }
+        `, [], new Date("2024-01-31T12:00:00Z"));
+
+        const tree = composer.getSqlQueries();
+        const sql = tree.sqlQuery.sql;
+        expect(sql).toEqual(
+            `SELECT ` +
+                `f1.hash as hash1, f1.fact_id as id1, f1.data as data1, f1.date_learned as timestamp1, ` +
+                `f3.hash as hash3, f3.fact_id as id3, f3.data as data3, f3.date_learned as timestamp3 ` +
+            `FROM public.fact f1 ` +
+            `JOIN public.edge e1 ` +
+                `ON e1.predecessor_fact_id = f1.fact_id ` +
+                `AND e1.role_id = $3 ` +
+            `JOIN public.fact f2 ` +
+                `ON f2.fact_id = e1.successor_fact_id ` +
+                `AND f2.date_learned <= $6 ` +
+            `JOIN public.edge e2 ` +
+                `ON e2.predecessor_fact_id = f2.fact_id ` +
+                `AND e2.role_id = $4 ` +
+            `JOIN public.fact f3 ` +
+                `ON f3.fact_id = e2.successor_fact_id ` +
+                `AND f3.date_learned <= $6 ` +
+            `WHERE f1.fact_type_id = $1 AND f1.hash = $2 AND f1.date_learned <= $6 ` +
+            `AND NOT EXISTS (` +
+                `SELECT 1 ` +
+                `FROM public.edge e3 ` +
+                `JOIN public.fact f4 ` +
+                    `ON f4.fact_id = e3.successor_fact_id ` +
+                    `AND f4.date_learned <= $6 ` +
+                `WHERE e3.predecessor_fact_id = f3.fact_id ` +
+                    `AND e3.role_id = $5` +
+            `) ` +
+            `ORDER BY f3.fact_id ASC`
+        );
+        expect(tree.sqlQuery.parameters).toEqual([
+            getFactTypeId(factTypes, 'Company'),
+            companyHash,
+            roleParameter(roleMap, factTypes, 'Department', 'company'),
+            roleParameter(roleMap, factTypes, 'Project', 'department'),
+            roleParameter(roleMap, factTypes, 'Project.Deleted', 'project'),
+            "2024-01-31T12:00:00.000"
+        ]);
+    });
+
+    it("should read child projections as of the same instant", () => {
+        const { composer } = sqlFor(`
+            (company: Company) {
+                department: Department [
+                    department->company: Company = company
+                ]
+            } => {
+                projects = {
+                    project: Project [
+                        project->department: Department = department
+                    ]
+                }
+            }
+        `, [], new Date("2024-01-31T12:00:00Z"));
+
+        const tree = composer.getSqlQueries();
+        const child = tree.childQueries[0].sqlQuery;
+        const asOfParameter = child.parameters.length;
+        expect(child.sql).toContain(`JOIN public.fact f3 ON f3.fact_id = e2.successor_fact_id AND f3.date_learned <= $${asOfParameter}`);
+        expect(child.parameters[asOfParameter - 1]).toEqual("2024-01-31T12:00:00.000");
+    });
+});
@@ -0,0 +1,90 @@
+import { dehydrateReference, SpecificationParser } from "jinaga";
+import { Pool } from "pg";
+
+import { Logger } from "../../src/logger";
+import { PostgresStore } from "../../src/postgres/postgres-store";
+
+const silentLogger: Logger = {
+    debug() { }, info() { }, warn() { }, error() { }
+};
+
+const company = dehydrateReference({ type: "Company" });
+
+// A pool of one connection, like a pool whose every connection is held by
+// a streamed read. A second checkout while the first is held fails rather
+// than waiting forever.
+class SingleConnectionPool {
+    public checkedOut = false;
+    public queries: string[] = [];
+    private fetched = false;
+
+    pool(): Pool {
+        return {
+            connect: async () => {
+                if (this.checkedOut) {
+                    throw new Error("The pool has no idle connection.");
+                }
+                this.checkedOut = true;
+                return {
+                    query: async (sql: string) => this.query(sql),
+                    release: () => { this.checkedOut = false; }
+                };
+            }
+        } as unknown as Pool;
+    }
+
+    private query(sql: string) {
+        this.queries.push(sql.split(" ")[0]);
+        if (sql.includes(".fact_type WHERE")) {
+            return { rows: [{ name: "Company", fact_type_id: 1 }, { name: "Office", fact_type_id: 2 }] };
+        }
+        if (sql.startsWith("SELECT role.name")) {
+            return { rows: [{ name: "company", defining_fact_type_id: 2, role_id: 3 }] };
+        }
+        if (sql.startsWith("FETCH")) {
+            const rows = this.fetched ? [] : [{
+                hash1: company.hash, id1: 1, data1: { fields: {}, predecessors: {} }, timestamp1: new Date(0),
+                hash2: "office-hash", id2: 10, data2: { fields: { identifier: "HQ" }, predecessors: {} }, timestamp2: new Date(0)
+            }];
+            this.fetched = true;
+            return { rows };
+        }
+        if (sql.startsWith("SELECT f.fact_type_id")) {
+            return { rows: [{
+                fact_type_id: 2,
+                name: "Office",
+                hash: "office-hash",
+                data: { fields: { identifier: "HQ" }, predecessors: {} },
+                date_learned: new Date(0),
+                public_key: null,
+                signature: null
+            }] };
+        }
+        return { rows: [] };
+    }
+}
+
+describe("PostgresStore.readStream", () => {
+    it("loads each batch of facts on the connection that it already holds", async () => {
+        const database = new SingleConnectionPool();
+        const store = new PostgresStore(database.pool(), "public", silentLogger);
+        const parser = new SpecificationParser(`
+            (company: Company) {
+                office: Office [
+                    office->company: Company = company
+                ]
+            } => office`);
+        parser.skipWhitespace();
+        const specification = parser.parseSpecification();
+
+        const results = [];
+        for await (const result of store.readStream([company], specification)) {
+            results.push(result.result);
+        }
+
+        expect(results).toHaveLength(1);
+        expect(results[0]).toMatchObject({ identifier: "HQ" });
+        expect(database.queries[database.queries.length - 1]).toBe("COMMIT");
+        expect(database.checkedOut).toBe(false);
+    });
+});
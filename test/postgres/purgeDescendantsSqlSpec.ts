@@ -1,4 +1,4 @@
-import { purgeDescendantsSql } from "../../src/postgres/purge-sql";
+import { expireArchiveSql, purgeDescendantsSql, purgeTriggersSql, restoreArchiveSql } from "../../src/postgres/purge-sql";
 
 describe("Purge Descendants SQL", () => {
     it("should handle single trigger", () => {
@@ -38,4 +38,97 @@ describe("Purge Descendants SQL", () => {
 
         expect(sql).toBe(expected);
     });
-});
\ No newline at end of file
+
+    it("should list the targets in a preview", () => {
+        const sql = purgeDescendantsSql(1, 'public', 'preview');
+
+        expect(sql).toContain(`WHERE a.fact_id NOT IN (SELECT * FROM triggers_and_ancestors)\n)\n`);
+        expect(sql).not.toContain(`DELETE`);
+        expect(sql.endsWith(
+            `SELECT f.fact_id, ft.name, f.hash\n` +
+            `FROM targets t\n` +
+            `JOIN public.fact f ON f.fact_id = t.fact_id\n` +
+            `JOIN public.fact_type ft ON ft.fact_type_id = f.fact_type_id\n` +
+            `ORDER BY f.fact_id\n`)).toBe(true);
+    });
+
+    it("should move the targets into the archive under the purge root", () => {
+        const sql = purgeDescendantsSql(1, 'public', 'archive');
+
+        expect(sql).toContain(
+            `), archive_targets AS (\n` +
+            `    SELECT t.fact_id, pr.fact_id AS purge_root_fact_id\n` +
+            `    FROM targets t\n` +
+            `    CROSS JOIN purge_root pr\n` +
+            `), archived_facts AS (\n`);
+        expect(sql).toContain(`    USING archive_targets tg WHERE tg.fact_id = f.fact_id\n`);
+    });
+
+    it("should find the triggers and whether each descends from the purge root", () => {
+        const sql = purgeTriggersSql(2, 'public');
+
+        expect(sql).toBe(
+            `SELECT t.fact_type_id, t.hash, EXISTS (\n` +
+            `    SELECT 1\n` +
+            `    FROM public.ancestor a\n` +
+            `    WHERE a.fact_id = t.fact_id\n` +
+            `        AND a.ancestor_fact_id = $1\n` +
+            `) AS descends\n` +
+            `FROM public.fact t\n` +
+            `WHERE (t.fact_type_id = $2 AND t.hash = $3)\n` +
+            `    OR (t.fact_type_id = $4 AND t.hash = $5)\n`);
+    });
+});
+
+describe("Purge archive SQL", () => {
+    it("should restore the facts before their edges, ancestors and signatures", () => {
+        const { restore, clear } = restoreArchiveSql('public');
+
+        expect(restore.map(sql => sql.match(/INSERT INTO (\S+)/)?.[1])).toEqual([
+            'public.fact',
+            'public.edge',
+            'public.ancestor',
+            'public."signature"'
+        ]);
+        expect(clear).toContain(`    DELETE FROM public.fact_archive WHERE fact_id IN (SELECT s.fact_id FROM subgraph s)\n`);
+        expect(clear).toContain(`    DELETE FROM public.edge_archive WHERE successor_fact_id IN (SELECT s.fact_id FROM subgraph s)\n`);
+    });
+
+    it("should restore every archived descendant of the purge root with its archived ancestors", () => {
+        const { restore } = restoreArchiveSql('public');
+
+        expect(restore[0]).toContain(
+            `WITH subgraph AS (\n` +
+            `    SELECT aa.fact_id\n` +
+            `    FROM public.ancestor_archive aa\n` +
+            `    WHERE aa.ancestor_fact_id = $1\n` +
+            `    UNION\n` +
+            `    SELECT aa.ancestor_fact_id\n` +
+            `    FROM public.ancestor_archive aa\n` +
+            `    JOIN public.ancestor_archive d\n` +
+            `        ON d.fact_id = aa.fact_id\n` +
+            `    JOIN public.fact_archive fa\n` +
+            `        ON fa.fact_id = aa.ancestor_fact_id\n` +
+            `    WHERE d.ancestor_fact_id = $1\n` +
+            `)\n`);
+        expect(restore.join("")).not.toContain("purge_root_fact_id");
+    });
+
+    it("should report the edges and ancestors whose fact is gone", () => {
+        const { unrestored } = restoreArchiveSql('public');
+
+        expect(unrestored).toContain(
+            `SELECT s.fact_id, ea.predecessor_fact_id AS missing_fact_id\n` +
+            `FROM public.edge_archive ea\n` +
+            `JOIN restored s ON s.archived_fact_id = ea.successor_fact_id\n` +
+            `WHERE NOT EXISTS (SELECT 1 FROM public.fact p WHERE p.fact_id = COALESCE(\n`);
+        expect(unrestored).toContain(`SELECT s.fact_id, aa.ancestor_fact_id AS missing_fact_id\n`);
+    });
+
+    it("should expire every archive table by the time of archiving", () => {
+        const sql = expireArchiveSql('public');
+
+        expect(sql.match(/WHERE archived_at < \$1/g)).toHaveLength(4);
+        expect(sql.endsWith(`SELECT fact_id FROM facts\n`)).toBe(true);
+    });
+});
@@ -0,0 +1,100 @@
+import { Invalid } from "jinaga";
+import { Pool } from "pg";
+
+import { Logger } from "../../src/logger";
+import { PostgresStore } from "../../src/postgres/postgres-store";
+
+const silentLogger: Logger = {
+    debug() { }, info() { }, warn() { }, error() { }
+};
+
+const purgeRoot = { type: "Blog", hash: "blog-hash" };
+const post = { type: "Blog.Post", hash: "post-hash" };
+
+// A pool that knows one blog with one post, and a comment that belongs to
+// another blog. It records the statements that it runs.
+class FakePurgeDatabase {
+    public statements: string[] = [];
+
+    pool(): Pool {
+        return {
+            connect: async () => ({
+                query: async (sql: string, parameters: any[] = []) => this.query(sql, parameters),
+                release: () => { }
+            })
+        } as unknown as Pool;
+    }
+
+    private query(sql: string, parameters: any[]) {
+        this.statements.push(sql.split(/\s/)[0]);
+        if (sql.includes(".fact_type WHERE")) {
+            return { rows: [
+                { name: "Blog", fact_type_id: 1 },
+                { name: "Blog.Post", fact_type_id: 2 },
+                { name: "Blog.Comment", fact_type_id: 3 }
+            ] };
+        }
+        if (sql.startsWith("SELECT fact_id FROM")) {
+            return { rows: parameters[1] === purgeRoot.hash ? [{ fact_id: 10 }] : [] };
+        }
+        if (sql.startsWith("SELECT t.fact_type_id")) {
+            return { rows: [
+                { fact_type_id: 2, hash: post.hash, descends: true },
+                { fact_type_id: 3, hash: "foreign-comment-hash", descends: false }
+            ] };
+        }
+        if (sql.startsWith("WITH purge_root")) {
+            return { rows: [{ fact_id: 11, name: "Blog.Post", hash: "other-post-hash" }] };
+        }
+        return { rows: [] };
+    }
+}
+
+function givenStore() {
+    const database = new FakePurgeDatabase();
+    const store = new PostgresStore(database.pool(), "public", silentLogger);
+    return { database, store };
+}
+
+describe("PostgresStore purge of a purge root", () => {
+    it("purges when every trigger descends from the purge root", async () => {
+        const { store } = givenStore();
+
+        const deleted = await store.purgeDescendantIds(purgeRoot, [post]);
+
+        expect(deleted).toEqual([11]);
+    });
+
+    it("refuses a purge root that does not exist", async () => {
+        const { database, store } = givenStore();
+
+        await expect(store.previewPurgeDescendants({ type: "Blog", hash: "unknown-hash" }, [post]))
+            .rejects.toThrow(new Invalid("The purge root Blog:unknown-hash does not exist."));
+        expect(database.statements).not.toContain("WITH");
+    });
+
+    it("refuses a trigger that does not exist", async () => {
+        const { database, store } = givenStore();
+
+        await expect(store.purgeDescendantIds(purgeRoot, [post, { type: "Blog.Post", hash: "unknown-hash" }]))
+            .rejects.toThrow("The trigger Blog.Post:unknown-hash does not exist.");
+        expect(database.statements).not.toContain("WITH");
+    });
+
+    it("refuses a trigger of a type that was never stored", async () => {
+        const { database, store } = givenStore();
+
+        await expect(store.purgeDescendantIds(purgeRoot, [{ type: "Blog.Unknown", hash: "any-hash" }]))
+            .rejects.toThrow("The trigger Blog.Unknown:any-hash does not exist.");
+        expect(database.statements).not.toContain("WITH");
+    });
+
+    it("refuses a trigger that does not descend from the purge root", async () => {
+        const { database, store } = givenStore();
+
+        await expect(store.purgeDescendantIds(purgeRoot, [{ type: "Blog.Comment", hash: "foreign-comment-hash" }]))
+            .rejects.toThrow("is not a descendant of the purge root");
+        expect(database.statements).not.toContain("WITH");
+        expect(database.statements).toContain("ROLLBACK");
+    });
+});
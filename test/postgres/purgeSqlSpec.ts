@@ -1,6 +1,6 @@
 import { Specification } from "jinaga";
 import { ensureGetFactTypeId, FactTypeMap, getRoleId } from "../../src/postgres/maps";
-import { purgeSqlFromSpecification } from "../../src/postgres/purge-sql";
+import { PurgeSqlMode, purgeSqlFromSpecification } from "../../src/postgres/purge-sql";
 import { model, Site, SiteDeleted, SitePurged } from "../models/blog";
 
 describe("Purge SQL", () => {
@@ -211,10 +211,98 @@ SELECT fact_id FROM facts
             getRoleId(roleMap, ensureGetFactTypeId(factTypes, SitePurged.Type), 'deleted')
         ]);
     });
+
+    it("should delete a batch of the most recent targets", () => {
+        const { specification, factTypes, roleMap } = givenDirectSuccessor();
+        const { sql, parameters } = whenGeneratePurgeSql(specification, factTypes, roleMap, 'public', { action: "delete", batchSize: 500 });
+
+        expect(sql).toContain(
+`), batch AS (
+    SELECT DISTINCT t.fact_id
+    FROM targets t
+    ORDER BY t.fact_id DESC
+    LIMIT $3
+), facts AS (
+    DELETE
+    FROM public.fact f
+    USING batch b WHERE b.fact_id = f.fact_id
+    RETURNING f.fact_id
+)
+SELECT fact_id FROM facts
+`);
+        expect(parameters).toHaveLength(3);
+        expect(parameters[2]).toBe(500);
+    });
+
+    it("should archive a batch under the purge root that matched", () => {
+        const { specification, factTypes, roleMap } = givenDirectSuccessor();
+        const { sql, parameters } = whenGeneratePurgeSql(specification, factTypes, roleMap, 'public', { action: "delete", batchSize: 500, archive: true });
+
+        expect(sql).toContain(
+`    LIMIT $3
+), archive_targets AS (
+    SELECT a.fact_id, min(a.ancestor_fact_id) AS purge_root_fact_id
+    FROM public.ancestor a
+    JOIN candidates c ON c.purge_root = a.ancestor_fact_id
+    WHERE a.fact_id IN (SELECT s.fact_id FROM batch s)
+    GROUP BY a.fact_id
+), archived_facts AS (
+    INSERT INTO public.fact_archive
+`);
+        expect(sql).toContain(`    INSERT INTO public.edge_archive\n`);
+        expect(sql).toContain(`    INSERT INTO public.ancestor_archive\n`);
+        expect(sql).toContain(`    INSERT INTO public.signature_archive\n`);
+        expect(sql).toContain(
+`), facts AS (
+    DELETE
+    FROM public.fact f
+    USING archive_targets tg WHERE tg.fact_id = f.fact_id
+    RETURNING f.fact_id
+)
+SELECT fact_id FROM facts
+`);
+        expect(parameters[2]).toBe(500);
+    });
+
+    it("should preview targets without deleting them", () => {
+        const { specification, factTypes, roleMap } = givenDirectSuccessor();
+        const { sql, parameters } = whenGeneratePurgeSql(specification, factTypes, roleMap, 'public', { action: "preview", limit: 20 });
+
+        expect(sql).not.toContain("DELETE");
+        expect(sql).toContain(
+`), distinct_targets AS (
+    SELECT DISTINCT t.fact_id
+    FROM targets t
+)
+SELECT f.fact_id, ft.name, f.hash, count(*) OVER () AS total
+FROM distinct_targets t
+JOIN public.fact f ON f.fact_id = t.fact_id
+JOIN public.fact_type ft ON ft.fact_type_id = f.fact_type_id
+ORDER BY f.fact_id
+LIMIT $3
+`);
+        expect(parameters[2]).toBe(20);
+    });
 });
 
-function whenGeneratePurgeSql(specification: Specification, factTypes: FactTypeMap, roleMap: Map<number, Map<string, number>>, schema: string) {
-    const purgeCommand = purgeSqlFromSpecification(specification, factTypes, roleMap, schema);
+function givenDirectSuccessor() {
+    const specification = model.given(Site).match((site, facts) =>
+        facts.ofType(SiteDeleted)
+            .join(deleted => deleted.site, site)
+    ).specification;
+    const factTypes = buildFactTypeMap(
+        Site.Type,
+        SiteDeleted.Type
+    );
+    const roleMap = buildRoleMap(factTypes,
+        [Site.Type, ['creator']],
+        [SiteDeleted.Type, ['site']]
+    );
+    return { specification, factTypes, roleMap };
+}
+
+function whenGeneratePurgeSql(specification: Specification, factTypes: FactTypeMap, roleMap: Map<number, Map<string, number>>, schema: string, mode?: PurgeSqlMode) {
+    const purgeCommand = purgeSqlFromSpecification(specification, factTypes, roleMap, schema, mode);
     if (purgeCommand === null) {
         throw new Error("The specification was not satisfiable.");
     }
@@ -0,0 +1,146 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { Pool } from "pg";
+
+import { JinagaServer } from "../../src/jinaga-server";
+import { Logger } from "../../src/logger";
+import { keystoreMigrations, latestVersion, MigrationSet, storeMigrations } from "../../src/postgres/migrations";
+import { SchemaMigrator } from "../../src/postgres/schema-migrator";
+
+const silentLogger: Logger = {
+    debug() { }, info() { }, warn() { }, error() { }
+};
+
+// A database that keeps only the schema_version table, and records every
+// other statement it is given.
+class FakeDatabase {
+    public statements: string[] = [];
+    public versions: { [component: string]: number[] } = {};
+    private versionTableExists = false;
+
+    constructor(private readonly failOn: string | null = null) { }
+
+    givenVersions(component: string, ...versions: number[]) {
+        this.versionTableExists = true;
+        this.versions[component] = versions;
+    }
+
+    pool(): Pool {
+        const client = {
+            query: async (sql: string, parameters: any[] = []) => this.query(sql, parameters),
+            release: () => { }
+        };
+        return { connect: async () => client } as unknown as Pool;
+    }
+
+    private query(sql: string, parameters: any[]) {
+        if (sql.includes("to_regclass")) {
+            return { rows: [{ exists: this.versionTableExists }] };
+        }
+        if (sql.includes("max(version)")) {
+            return { rows: [{ version: Math.max(0, ...(this.versions[parameters[0]] ?? [])) }] };
+        }
+        if (sql.startsWith("INSERT INTO") && sql.includes(".schema_version")) {
+            this.versions[parameters[0]] = [...(this.versions[parameters[0]] ?? []), parameters[1]];
+            return { rows: [] };
+        }
+        if (sql.includes(".schema_version (")) {
+            this.versionTableExists = true;
+        }
+        if (this.failOn && sql.includes(this.failOn)) {
+            throw new Error("relation does not exist");
+        }
+        this.statements.push(sql.trim());
+        return { rows: [] };
+    }
+}
+
+function givenMigrator(database: FakeDatabase, schema: string, migrations: MigrationSet = storeMigrations) {
+    return new SchemaMigrator(database.pool(), schema, migrations, silentLogger);
+}
+
+describe("Schema migrator", () => {
+    it("creates the schema and every table in it", async () => {
+        const database = new FakeDatabase();
+
+        const version = await givenMigrator(database, "tenant_a").migrate();
+
+        expect(version).toBe(latestVersion(storeMigrations));
+        expect(database.versions.store).toEqual([1, 2, 3, 4, 5]);
+        expect(database.statements).toContain("CREATE SCHEMA IF NOT EXISTS tenant_a");
+        expect(database.statements.join("\n")).toContain("CREATE TABLE IF NOT EXISTS tenant_a.fact (");
+        expect(database.statements.join("\n")).not.toContain("public.");
+        expect(database.statements[database.statements.length - 1]).toBe("COMMIT");
+    });
+
+    it("applies only the migrations not yet recorded", async () => {
+        const database = new FakeDatabase();
+        database.givenVersions("store", 1, 2, 3);
+
+        await givenMigrator(database, "public").migrate();
+        const statements = database.statements.length;
+        await givenMigrator(database, "public").migrate();
+
+        expect(database.versions.store).toEqual([1, 2, 3, 4, 5]);
+        expect(database.statements.join("\n")).not.toContain("public.fact_type");
+        expect(database.statements.join("\n")).toContain("public.feed_definition");
+        // The second run finds nothing to apply.
+        expect(database.statements.slice(statements).filter(sql => sql.includes("CREATE TABLE"))).toEqual([
+            expect.stringContaining("public.schema_version")
+        ]);
+    });
+
+    it("records the keystore separately from the store", async () => {
+        const database = new FakeDatabase();
+        database.givenVersions("store", 1, 2, 3, 4, 5);
+
+        const version = await givenMigrator(database, "public", keystoreMigrations).migrate();
+
+        expect(version).toBe(2);
+        expect(database.versions).toEqual({ store: [1, 2, 3, 4, 5], keystore: [1, 2] });
+        expect(database.statements.join("\n")).toContain('CREATE TABLE IF NOT EXISTS public."user" (');
+    });
+
+    it("rolls back every migration when one fails", async () => {
+        const database = new FakeDatabase("feed_definition");
+
+        await expect(givenMigrator(database, "public").migrate()).rejects.toThrow("relation does not exist");
+
+        expect(database.statements).toContain("ROLLBACK");
+        expect(database.statements).not.toContain("COMMIT");
+    });
+
+    it("refuses a schema that is behind", async () => {
+        const database = new FakeDatabase();
+        database.givenVersions("store", 1, 2);
+
+        await expect(givenMigrator(database, "tenant_a").verify()).rejects.toThrow(
+            `The store schema "tenant_a" is at version 2, but this server requires version ${latestVersion(storeMigrations)}. ` +
+            `Set migrateSchema to apply the migrations at startup.`);
+    });
+
+    it("refuses a database that has never been migrated", async () => {
+        const database = new FakeDatabase();
+
+        await expect(givenMigrator(database, "public").verify()).rejects.toThrow("is at version 0");
+    });
+
+    it("accepts a schema that is up to date", async () => {
+        const database = new FakeDatabase();
+        database.givenVersions("store", 1, 2, 3, 4, 5);
+
+        await expect(givenMigrator(database, "public").verify()).resolves.toBeUndefined();
+    });
+
+    it("points JinagaServer.create with migrateSchema to start", () => {
+        expect(() => JinagaServer.create({ pgStore: "postgresql://localhost/appdb", migrateSchema: true }))
+            .toThrow("Use JinagaServer.start");
+    });
+
+    it("records in setup.sql the latest version of each component", () => {
+        const setup = readFileSync(join(__dirname, "../../setup.sql"), "utf8");
+
+        expect(setup).toContain(`SELECT 'store', v, 'Applied by setup.sql' FROM generate_series(1, ${latestVersion(storeMigrations)}) AS v`);
+        expect(setup).toContain(`SELECT 'keystore', v, 'Applied by setup.sql' FROM generate_series(1, ${latestVersion(keystoreMigrations)}) AS v`);
+    });
+});
@@ -0,0 +1,146 @@
+import { NoOpTracer, Specification, Trace } from "jinaga";
+
+import { Logger } from "../../src/logger";
+import { ServerMetrics } from "../../src/metrics/server-metrics";
+import { PurgeArchiveStorage } from "../../src/purge/purge-archive";
+import { purgeConditionName, PurgePreview, PurgeScheduler, PurgeStorage } from "../../src/purge/purge-scheduler";
+import { model, Post, PostDeleted, Site, SiteDeleted } from "../models/blog";
+
+const siteDeleted = model.given(Site).match((site, facts) =>
+    facts.ofType(SiteDeleted)
+        .join(deleted => deleted.site, site)
+).specification;
+
+const postDeleted = model.given(Post).match((post, facts) =>
+    facts.ofType(PostDeleted)
+        .join(deleted => deleted.post, post)
+).specification;
+
+const silentLogger: Logger = {
+    debug() { }, info() { }, warn() { }, error() { }
+};
+
+// A store holding a number of purgeable facts for each condition.
+class FakePurgeStore implements PurgeStorage {
+    public batches: number[] = [];
+
+    constructor(private remaining: Map<Specification, number>, private failing: Specification[] = []) { }
+
+    async purgeBatch(specification: Specification, batchSize: number): Promise<number> {
+        if (this.failing.includes(specification)) {
+            throw new Error("Purge timed out");
+        }
+        const deleted = Math.min(batchSize, this.remaining.get(specification) ?? 0);
+        this.remaining.set(specification, (this.remaining.get(specification) ?? 0) - deleted);
+        this.batches.push(deleted);
+        return deleted;
+    }
+
+    async previewPurge(specification: Specification, limit: number): Promise<PurgePreview> {
+        const count = this.remaining.get(specification) ?? 0;
+        const facts = Array.from({ length: Math.min(limit, count) }, (_, i) => ({ type: "Blog.Post", hash: `hash${i}` }));
+        return { count, facts };
+    }
+}
+
+function delay(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe("Purge scheduler", () => {
+    let metrics: ServerMetrics;
+
+    beforeEach(() => {
+        metrics = new ServerMetrics();
+        Trace.configure(metrics.tracer(new NoOpTracer()));
+    });
+
+    afterEach(() => {
+        Trace.configure(new NoOpTracer());
+    });
+
+    it("names a condition by its purge root and trigger types", () => {
+        expect(purgeConditionName(siteDeleted)).toEqual("Blog.Site<-Blog.Site.Deleted");
+    });
+
+    it("purges each condition in batches until one comes up short", async () => {
+        const store = new FakePurgeStore(new Map([[siteDeleted, 2500], [postDeleted, 10]]));
+        const scheduler = new PurgeScheduler(store, [siteDeleted, postDeleted], { batchSize: 1000 }, silentLogger);
+
+        const results = await scheduler.runOnce();
+
+        expect(store.batches).toEqual([1000, 1000, 500, 10]);
+        expect(results.map(r => [r.condition, r.count, r.batches])).toEqual([
+            ["Blog.Site<-Blog.Site.Deleted", 2500, 3],
+            ["Blog.Post<-Blog.Post.Deleted", 10, 1]
+        ]);
+        expect(metrics.registry.render()).toContain(
+            "jinaga_purge_deleted_facts_total{condition=\"Blog.Site<-Blog.Site.Deleted\"} 2500\n");
+    });
+
+    it("leaves the rest of a large purge for the next run", async () => {
+        const store = new FakePurgeStore(new Map([[siteDeleted, 5000]]));
+        const scheduler = new PurgeScheduler(store, [siteDeleted], { batchSize: 1000, maxBatchesPerRun: 2 }, silentLogger);
+
+        const [first] = await scheduler.runOnce();
+        const [second] = await scheduler.runOnce();
+
+        expect(first.count).toBe(2000);
+        expect(second.count).toBe(2000);
+    });
+
+    it("counts and lists without deleting in a dry run", async () => {
+        const store = new FakePurgeStore(new Map([[siteDeleted, 7]]));
+        const scheduler = new PurgeScheduler(store, [siteDeleted], { dryRun: true, dryRunSampleSize: 3 }, silentLogger);
+
+        const [result] = await scheduler.runOnce();
+
+        expect(store.batches).toEqual([]);
+        expect(result.count).toBe(7);
+        expect(result.facts).toHaveLength(3);
+        expect(metrics.registry.render()).toContain(
+            "jinaga_purge_pending_facts{condition=\"Blog.Site<-Blog.Site.Deleted\"} 7\n");
+    });
+
+    it("goes on to the next condition when one fails", async () => {
+        const errors: string[] = [];
+        const logger = { ...silentLogger, error: (message: string) => { errors.push(message); } };
+        const store = new FakePurgeStore(new Map([[postDeleted, 4]]), [siteDeleted]);
+        const scheduler = new PurgeScheduler(store, [siteDeleted, postDeleted], {}, logger);
+
+        const results = await scheduler.runOnce();
+
+        expect(errors).toEqual(["Purge failed"]);
+        expect(results.map(r => r.count)).toEqual([4]);
+    });
+
+    it("expires the archive after purging, but not in a dry run", async () => {
+        const expirations: Date[] = [];
+        const archive: PurgeArchiveStorage = {
+            restoreArchive: async () => ({ restored: [], unrestored: [] }),
+            expireArchive: async (archivedBefore) => { expirations.push(archivedBefore); return 0; }
+        };
+        const store = new FakePurgeStore(new Map([[siteDeleted, 3]]));
+        const retention = { store: archive, retentionMs: 24 * 60 * 60 * 1000 };
+
+        await new PurgeScheduler(store, [siteDeleted], {}, silentLogger, retention).runOnce();
+        await new PurgeScheduler(store, [siteDeleted], { dryRun: true }, silentLogger, retention).runOnce();
+
+        expect(expirations).toHaveLength(1);
+        expect(expirations[0].getTime()).toBeLessThanOrEqual(Date.now() - retention.retentionMs);
+    });
+
+    it("runs on the interval until stopped", async () => {
+        const store = new FakePurgeStore(new Map([[siteDeleted, 0]]));
+        const scheduler = new PurgeScheduler(store, [siteDeleted], { intervalMs: 5, jitterMs: 0 }, silentLogger);
+
+        scheduler.start();
+        await delay(60);
+        await scheduler.stop();
+        const runs = store.batches.length;
+        await delay(30);
+
+        expect(runs).toBeGreaterThanOrEqual(2);
+        expect(store.batches.length).toBe(runs);
+    });
+});
@@ -0,0 +1,77 @@
+import { createHmac, generateKeyPairSync, KeyObject, sign } from "crypto";
+import { IncomingMessage } from "http";
+
+import { InvalidToken, JwtAuthentication } from "../../src/replicator/jwt-authentication";
+
+function encode(value: {}): string {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function hs256(claims: {}, secret: string): string {
+    const signed = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+    return `${signed}.${createHmac("sha256", secret).update(signed).digest("base64url")}`;
+}
+
+function es256(claims: {}, privateKey: KeyObject): string {
+    const signed = `${encode({ alg: "ES256", typ: "JWT" })}.${encode(claims)}`;
+    const signature = sign("sha256", Buffer.from(signed), { key: privateKey, dsaEncoding: "ieee-p1363" });
+    return `${signed}.${signature.toString("base64url")}`;
+}
+
+function request(authorization?: string): IncomingMessage {
+    return { headers: authorization ? { authorization } : {} } as IncomingMessage;
+}
+
+describe("JWT authentication", () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    it("identifies the user from a valid token", () => {
+        const authentication = new JwtAuthentication({ provider: "auth.example", secret: "shh" });
+        const token = hs256({ sub: "user-1", name: "Ada", exp: now + 60 }, "shh");
+
+        expect(authentication.authenticate(request(`Bearer ${token}`))).toEqual({
+            provider: "auth.example",
+            id: "user-1",
+            profile: { displayName: "Ada" }
+        });
+    });
+
+    it("treats a request without a token as anonymous", () => {
+        const authentication = new JwtAuthentication({ provider: "auth.example", secret: "shh" });
+
+        expect(authentication.authenticate(request())).toBeNull();
+    });
+
+    it("refuses tokens that are forged, expired or for another audience", () => {
+        const authentication = new JwtAuthentication({ provider: "auth.example", secret: "shh", audience: "replicator" });
+
+        expect(() => authentication.verifyToken(hs256({ sub: "u", aud: "replicator" }, "guess")))
+            .toThrow("signature is invalid");
+        expect(() => authentication.verifyToken(hs256({ sub: "u", aud: "replicator", exp: now - 120 }, "shh")))
+            .toThrow("expired");
+        expect(() => authentication.verifyToken(hs256({ sub: "u", aud: "other" }, "shh")))
+            .toThrow("another audience");
+        expect(() => authentication.verifyToken("not.a-token")).toThrow(InvalidToken);
+    });
+
+    it("verifies ES256 tokens with a public key and refuses HS256 without a secret", () => {
+        const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+        const authentication = new JwtAuthentication({
+            provider: "auth.example",
+            publicKey: publicKey.export({ type: "spki", format: "pem" }).toString()
+        });
+
+        expect(authentication.verifyToken(es256({ sub: "user-2" }, privateKey)).sub).toEqual("user-2");
+        expect(() => authentication.verifyToken(hs256({ sub: "user-2" }, "shh"))).toThrow("algorithm HS256 is not accepted");
+    });
+
+    it("rejects the WebSocket authentication of a bad token rather than throwing", async () => {
+        const authentication = new JwtAuthentication({ provider: "auth.example", secret: "shh" });
+        const authenticate = authentication.webSocketAuthenticator;
+
+        let result: Promise<unknown> | undefined;
+        expect(() => { result = authenticate(request("Bearer x")); }).not.toThrow();
+        await expect(result).rejects.toThrow(InvalidToken);
+        await expect(authenticate(request("Basic abc"))).rejects.toThrow("Expected a bearer token.");
+    });
+});
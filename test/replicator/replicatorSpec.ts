@@ -0,0 +1,66 @@
+import { createHmac } from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+
+import { Logger } from "../../src/logger";
+import { createReplicator, Replicator } from "../../src/replicator/replicator";
+import { defaultReplicatorConfig } from "../../src/replicator/replicator-config";
+
+const silentLogger: Logger = {
+    debug() { }, info() { }, warn() { }, error() { }
+};
+
+function token(claims: {}, secret: string): string {
+    const encode = (value: {}) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    const signed = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+    return `${signed}.${createHmac("sha256", secret).update(signed).digest("base64url")}`;
+}
+
+function get(replicator: Replicator, path: string, headers: http.OutgoingHttpHeaders = {}): Promise<{ status: number, body: string }> {
+    const { port } = replicator.server.address() as AddressInfo;
+    return new Promise((resolve, reject) => {
+        http.get({ port, path, headers }, response => {
+            let body = "";
+            response.setEncoding("utf8");
+            response.on("data", chunk => body += chunk);
+            response.on("end", () => resolve({ status: response.statusCode!, body }));
+        }).on("error", reject);
+    });
+}
+
+describe("Replicator", () => {
+    let replicator: Replicator;
+
+    beforeEach(async () => {
+        replicator = createReplicator({
+            ...defaultReplicatorConfig,
+            port: 0,
+            pgStore: "",
+            metrics: true,
+            authentication: { provider: "auth.example", secret: "shh" }
+        }, silentLogger);
+        await replicator.start();
+    });
+
+    afterEach(async () => {
+        await replicator.stop();
+    });
+
+    it("serves the health and metrics endpoints", async () => {
+        expect((await get(replicator, "/health/live")).status).toBe(200);
+        expect((await get(replicator, "/health/ready")).status).toBe(200);
+        expect((await get(replicator, "/metrics")).status).toBe(200);
+    });
+
+    it("identifies users by bearer token on the Jinaga routes", async () => {
+        expect((await get(replicator, "/jinaga/login")).status).toBe(401);
+        expect((await get(replicator, "/jinaga/login", { authorization: "Bearer forged.token.here" })).status).toBe(401);
+
+        const response = await get(replicator, "/jinaga/login", {
+            authorization: `Bearer ${token({ sub: "user-1", name: "Ada" }, "shh")}`
+        });
+
+        // The user is identified, but without a keystore has no user fact.
+        expect(response.status).toBe(403);
+    });
+});
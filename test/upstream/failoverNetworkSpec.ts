@@ -0,0 +1,144 @@
+import {
+    FactEnvelope,
+    FactReference,
+    FeedResponse,
+    FeedsResponse,
+    Network,
+    Specification,
+    SpecificationParser
+} from "jinaga";
+
+import { FailoverNetwork } from "../../src/upstream/failover-network";
+
+function parseSpecification(): { start: FactReference[]; specification: Specification } {
+    const input =
+        `let p: Jinaga.User = #anchorhash\n` +
+        `(p: Jinaga.User) {\n` +
+        `    post: Test.Post [\n` +
+        `        post->author: Jinaga.User = p\n` +
+        `    ]\n` +
+        `} => post`;
+    const parser = new SpecificationParser(input);
+    parser.skipWhitespace();
+    const declaration = parser.parseDeclaration([]);
+    const specification = parser.parseSpecification();
+    const start = specification.given.map(g =>
+        declaration.find(d => d.name === g.label.name)!.declared.reference);
+    return { start, specification };
+}
+
+// A Network test double that records calls and can be switched offline.
+class FakeNetwork implements Network {
+    public offline = false;
+    public feedsCalls = 0;
+    public fetchedBookmarks: string[] = [];
+    public loads: FactReference[][] = [];
+
+    constructor(private readonly name: string) { }
+
+    async feeds(start: FactReference[], specification: Specification): Promise<FeedsResponse> {
+        this.check();
+        this.feedsCalls++;
+        return { feeds: ["feed1"] };
+    }
+
+    async fetchFeed(feed: string, bookmark: string): Promise<FeedResponse> {
+        this.check();
+        this.fetchedBookmarks.push(bookmark);
+        return { references: [], bookmark: `${this.name}-${this.fetchedBookmarks.length}` };
+    }
+
+    streamFeed(): () => void {
+        throw new Error("Not used.");
+    }
+
+    async load(factReferences: FactReference[]): Promise<FactEnvelope[]> {
+        this.check();
+        this.loads.push(factReferences);
+        return [];
+    }
+
+    private check() {
+        if (this.offline) {
+            throw new Error(`${this.name} is unreachable`);
+        }
+    }
+}
+
+describe("FailoverNetwork", () => {
+    let primary: FakeNetwork;
+    let secondary: FakeNetwork;
+    let network: FailoverNetwork;
+
+    beforeEach(() => {
+        primary = new FakeNetwork("primary");
+        secondary = new FakeNetwork("secondary");
+        network = new FailoverNetwork([
+            { key: "https://primary/jinaga", network: primary },
+            { key: "https://secondary/jinaga", network: secondary }
+        ]);
+    });
+
+    it("should use the first upstream while it is reachable", async () => {
+        await network.load([{ type: "Test.Post", hash: "a" }]);
+
+        expect(primary.loads.length).toBe(1);
+        expect(secondary.loads.length).toBe(0);
+    });
+
+    it("should fail over to the next upstream when one is unreachable", async () => {
+        primary.offline = true;
+
+        await network.load([{ type: "Test.Post", hash: "a" }]);
+
+        expect(secondary.loads.length).toBe(1);
+    });
+
+    it("should stay on the upstream that last succeeded", async () => {
+        primary.offline = true;
+        await network.load([{ type: "Test.Post", hash: "a" }]);
+        primary.offline = false;
+
+        await network.load([{ type: "Test.Post", hash: "b" }]);
+
+        expect(primary.loads.length).toBe(0);
+        expect(secondary.loads.length).toBe(2);
+    });
+
+    it("should reject when every upstream is unreachable", async () => {
+        primary.offline = true;
+        secondary.offline = true;
+
+        await expect(network.load([])).rejects.toThrow("secondary is unreachable");
+    });
+
+    it("should keep a separate bookmark for each upstream", async () => {
+        const first = await network.fetchFeed("feed1", "");
+        primary.offline = true;
+        const second = await network.fetchFeed("feed1", first.bookmark);
+        primary.offline = false;
+        secondary.offline = true;
+        await network.fetchFeed("feed1", second.bookmark);
+
+        expect(primary.fetchedBookmarks).toEqual(["", "primary-1"]);
+        expect(secondary.fetchedBookmarks).toEqual([""]);
+    });
+
+    it("should attribute a single-upstream bookmark to the first upstream", async () => {
+        await network.fetchFeed("feed1", "12.34");
+
+        expect(primary.fetchedBookmarks).toEqual(["12.34"]);
+    });
+
+    it("should register a feed with an upstream before failing over to it", async () => {
+        const { start, specification } = parseSpecification();
+        await network.feeds(start, specification);
+        primary.offline = true;
+
+        await network.fetchFeed("feed1", "");
+
+        expect(primary.feedsCalls).toBe(1);
+        expect(secondary.feedsCalls).toBe(1);
+        expect(secondary.fetchedBookmarks).toEqual([""]);
+    });
+});
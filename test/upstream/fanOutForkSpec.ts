@@ -0,0 +1,82 @@
+import { FactEnvelope, FactReference, Fork } from "jinaga";
+
+import { FanOutFork } from "../../src/upstream/fan-out-fork";
+
+// A Fork test double that records saved envelopes and can be made to fail.
+class FakeFork implements Fork {
+    public failing = false;
+    public saved: FactEnvelope[][] = [];
+
+    async save(envelopes: FactEnvelope[]): Promise<void> {
+        if (this.failing) {
+            throw new Error("Upstream is unreachable");
+        }
+        this.saved.push(envelopes);
+    }
+
+    async load(references: FactReference[]): Promise<FactEnvelope[]> {
+        if (this.failing) {
+            throw new Error("Upstream is unreachable");
+        }
+        return references.map(reference => ({
+            fact: { ...reference, fields: {}, predecessors: {} },
+            signatures: []
+        }));
+    }
+
+    processQueueNow(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    close(): Promise<void> {
+        return Promise.resolve();
+    }
+}
+
+const envelope: FactEnvelope = {
+    fact: { type: "Test.Post", hash: "a", fields: {}, predecessors: {} },
+    signatures: []
+};
+
+describe("FanOutFork", () => {
+    it("should save to every upstream", async () => {
+        const first = new FakeFork();
+        const second = new FakeFork();
+        const fork = new FanOutFork([first, second]);
+
+        await fork.save([envelope]);
+
+        expect(first.saved).toEqual([[envelope]]);
+        expect(second.saved).toEqual([[envelope]]);
+    });
+
+    it("should not let one failing upstream block the others", async () => {
+        const first = new FakeFork();
+        const second = new FakeFork();
+        first.failing = true;
+        const fork = new FanOutFork([first, second]);
+
+        await fork.save([envelope]);
+
+        expect(second.saved).toEqual([[envelope]]);
+    });
+
+    it("should reject when every upstream fails", async () => {
+        const first = new FakeFork();
+        first.failing = true;
+        const fork = new FanOutFork([first]);
+
+        await expect(fork.save([envelope])).rejects.toThrow("Upstream is unreachable");
+    });
+
+    it("should load from the next upstream when one fails", async () => {
+        const first = new FakeFork();
+        const second = new FakeFork();
+        first.failing = true;
+        const fork = new FanOutFork([first, second]);
+
+        const loaded = await fork.load([{ type: "Test.Post", hash: "a" }]);
+
+        expect(loaded.map(e => e.fact.hash)).toEqual(["a"]);
+    });
+});
@@ -0,0 +1,109 @@
+import {
+    computeHash,
+    FactEnvelope,
+    FactRecord,
+    FactReference,
+    Fork,
+    generateKeyPair,
+    KeyPair,
+    signFacts,
+    UserIdentity,
+    verifyEnvelopes
+} from "jinaga";
+
+import { KeyPairRotation, Keystore } from "../../src/keystore";
+import { SigningFork } from "../../src/upstream/signing-fork";
+
+// A Keystore test double that signs with a real key pair, which
+// MemoryKeystore does not.
+class SigningKeystore implements Keystore {
+    public keyPair: KeyPair = generateKeyPair();
+
+    getOrCreateUserFact(userIdentity: UserIdentity): Promise<FactRecord> {
+        return this.getUserFact(userIdentity);
+    }
+
+    getOrCreateDeviceFact(userIdentity: UserIdentity): Promise<FactRecord> {
+        return this.getDeviceFact(userIdentity);
+    }
+
+    getUserFact(userIdentity: UserIdentity): Promise<FactRecord> {
+        return Promise.resolve(this.identityFact("Jinaga.User"));
+    }
+
+    getDeviceFact(userIdentity: UserIdentity): Promise<FactRecord> {
+        return Promise.resolve(this.identityFact("Jinaga.Device"));
+    }
+
+    signFacts(userIdentity: UserIdentity, facts: FactRecord[]): Promise<FactEnvelope[]> {
+        return Promise.resolve(signFacts(this.keyPair, facts));
+    }
+
+    rotateKeyPair(identity: UserIdentity): Promise<KeyPairRotation> {
+        const previousPublicKey = this.keyPair.publicPem;
+        this.keyPair = generateKeyPair();
+        return Promise.resolve({ previousPublicKey, publicKey: this.keyPair.publicPem });
+    }
+
+    private identityFact(type: string): FactRecord {
+        const fields = { publicKey: this.keyPair.publicPem };
+        return { type, hash: computeHash(fields, {}), fields, predecessors: {} };
+    }
+}
+
+class RecordingFork implements Fork {
+    public saved: FactEnvelope[] = [];
+
+    async save(envelopes: FactEnvelope[]): Promise<void> {
+        this.saved.push(...envelopes);
+    }
+
+    load(references: FactReference[]): Promise<FactEnvelope[]> {
+        return Promise.resolve([]);
+    }
+
+    processQueueNow(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    close(): Promise<void> {
+        return Promise.resolve();
+    }
+}
+
+function fact(identifier: string): FactRecord {
+    const fields = { identifier };
+    return { type: "Test.Post", hash: computeHash(fields, {}), fields, predecessors: {} };
+}
+
+describe("SigningFork", () => {
+    const deviceIdentity = { provider: "jinaga", id: "local" };
+
+    it("should sign outbound facts with the device key", async () => {
+        const keystore = new SigningKeystore();
+        const inner = new RecordingFork();
+        const fork = new SigningFork(inner, keystore, deviceIdentity);
+
+        await fork.save([{ fact: fact("a"), signatures: [] }]);
+
+        expect(inner.saved.length).toBe(1);
+        expect(inner.saved[0].signatures.map(s => s.publicKey)).toEqual([keystore.keyPair.publicPem]);
+        expect(verifyEnvelopes(inner.saved)).toBe(true);
+    });
+
+    it("should keep the signatures a fact already carries", async () => {
+        const keystore = new SigningKeystore();
+        const author = generateKeyPair();
+        const inner = new RecordingFork();
+        const fork = new SigningFork(inner, keystore, deviceIdentity);
+        const authored = signFacts(author, [fact("b")]);
+
+        await fork.save(authored);
+
+        expect(inner.saved[0].signatures.map(s => s.publicKey)).toEqual([
+            author.publicPem,
+            keystore.keyPair.publicPem
+        ]);
+        expect(verifyEnvelopes(inner.saved)).toBe(true);
+    });
+});
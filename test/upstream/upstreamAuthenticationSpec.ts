@@ -0,0 +1,96 @@
+import { createUpstreamAuthenticationProvider } from "../../src/upstream/upstream-authentication";
+
+describe("Upstream authentication", () => {
+    const originalFetch = global.fetch;
+    let tokenRequests: string[];
+    let nextToken: number;
+
+    beforeEach(() => {
+        tokenRequests = [];
+        nextToken = 1;
+        global.fetch = (async (url: string, init: any) => {
+            tokenRequests.push(init.body);
+            return {
+                ok: true,
+                status: 200,
+                json: async () => ({ access_token: `token-${nextToken++}`, expires_in: 3600 })
+            };
+        }) as any;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it("should send no credentials when none are configured", async () => {
+        const provider = createUpstreamAuthenticationProvider(undefined, "https://upstream/jinaga");
+
+        expect(await provider.getHeaders()).toEqual({});
+        expect(await provider.reauthenticate()).toBe(false);
+    });
+
+    it("should send a static bearer token", async () => {
+        const provider = createUpstreamAuthenticationProvider({ type: "bearer", token: "secret" }, "https://upstream/jinaga");
+
+        expect(await provider.getHeaders()).toEqual({ "Authorization": "Bearer secret" });
+        expect(await provider.reauthenticate()).toBe(false);
+    });
+
+    it("should request a client credentials token once and reuse it", async () => {
+        const provider = createUpstreamAuthenticationProvider({
+            type: "clientCredentials",
+            tokenEndpoint: "https://identity/token",
+            clientId: "replicator",
+            clientSecret: "shh",
+            scope: "jinaga"
+        }, "https://upstream/jinaga");
+
+        const first = await provider.getHeaders();
+        const second = await provider.getHeaders();
+
+        expect(first).toEqual({ "Authorization": "Bearer token-1" });
+        expect(second).toEqual({ "Authorization": "Bearer token-1" });
+        expect(tokenRequests).toEqual([
+            "grant_type=client_credentials&client_id=replicator&client_secret=shh&scope=jinaga"
+        ]);
+    });
+
+    it("should refresh the client credentials token on reauthentication", async () => {
+        const provider = createUpstreamAuthenticationProvider({
+            type: "clientCredentials",
+            tokenEndpoint: "https://identity/token",
+            clientId: "replicator",
+            clientSecret: "shh"
+        }, "https://upstream/jinaga");
+
+        await provider.getHeaders();
+        const retry = await provider.reauthenticate();
+        const headers = await provider.getHeaders();
+
+        expect(retry).toBe(true);
+        expect(headers).toEqual({ "Authorization": "Bearer token-2" });
+    });
+
+    it("should not retry when the token endpoint rejects the client", async () => {
+        global.fetch = (async () => ({ ok: false, status: 401 })) as any;
+        const provider = createUpstreamAuthenticationProvider({
+            type: "clientCredentials",
+            tokenEndpoint: "https://identity/token",
+            clientId: "replicator",
+            clientSecret: "wrong"
+        }, "https://upstream/jinaga");
+
+        expect(await provider.reauthenticate()).toBe(false);
+    });
+
+    it("should pass the upstream endpoint to a custom callback", async () => {
+        const provider = createUpstreamAuthenticationProvider({
+            type: "custom",
+            getHeaders: async endpoint => ({ "Authorization": `Custom ${endpoint}` }),
+            reauthenticate: async () => true
+        }, "https://upstream/jinaga");
+
+        expect(await provider.getHeaders()).toEqual({ "Authorization": "Custom https://upstream/jinaga" });
+        expect(await provider.reauthenticate()).toBe(true);
+    });
+});